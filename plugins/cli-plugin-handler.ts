@@ -4,13 +4,25 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { randomUUID } from 'node:crypto';
 import { PluginCommands } from './commands/plugin-commands.js';
-import { PluginManager } from './plugin-manager.js';
+import { PluginManager, PluginManagerOptions } from './plugin-manager.js';
 import { MarketplaceClient } from './marketplace/marketplace-client.js';
 
 export interface PluginCliArgs {
   plugins?: boolean;
   search?: string;
+  create?: string;
+  // Project directory or package.json to check
+  validate?: string;
+  // Project directory to pack, or a project directory or packed tarball to publish
+  pack?: string;
+  publish?: string;
+  // Plugin project directory to develop with live reload
+  dev?: string;
+  // Directory pack writes the tarball to
+  out?: string;
+  skipBuild?: boolean;
   install?: string;
   list?: boolean;
   enable?: string;
@@ -18,29 +30,64 @@ export interface PluginCliArgs {
   uninstall?: string;
   info?: string;
   update?: string;
+  rollback?: string;
+  to?: string;
   verbose?: boolean;
   source?: 'npm' | 'github' | 'local';
+  withDeps?: boolean;
+  force?: boolean;
+  allowUnverified?: boolean;
+  frozen?: boolean;
+  yes?: boolean;
+  permissions?: string;
+  revoke?: string;
+  // list, preview or use, with the theme name in themeName
+  theme?: string;
+  themeName?: string;
+  // Color depth theme previews are rendered with: truecolor, 256, 16 or none
+  colors?: string;
+  // Plugin whose config to show or change, with get, set, unset or list in
+  // configAction and the key and value it applies to
+  config?: string;
+  configAction?: string;
+  configKey?: string;
+  configValue?: string;
+  // list, set or delete, with the plugin in secretsPlugin and the secret's
+  // name in secretName
+  secrets?: string;
+  secretsPlugin?: string;
+  secretName?: string;
   registry?: string;
+  // Plugin type to search for, or to create
+  type?: string;
+  // Directory for create, relative to the current directory
+  dir?: string;
+  // Comma-separated; results must carry every tag
+  tags?: string;
+  sort?: string;
+  page?: number;
+  limit?: number;
 }
 
 export class PluginCliHandler {
   private pluginCommands: PluginCommands;
   private pluginManager: PluginManager;
   private marketplaceClient: MarketplaceClient;
+  private workspaceRoot: string;
+  private sessionId = randomUUID();
 
-  constructor(workspaceRoot: string) {
-    this.pluginManager = new PluginManager(workspaceRoot);
-    this.marketplaceClient = new MarketplaceClient({
-      baseUrl: 'https://api.gemini-cli-plugins.com',
-      timeout: 30000,
-    });
-    this.pluginCommands = new PluginCommands(this.pluginManager);
+  constructor(workspaceRoot: string, options: PluginManagerOptions = {}) {
+    this.workspaceRoot = workspaceRoot;
+    this.pluginManager = new PluginManager(workspaceRoot, options);
+    this.marketplaceClient = this.pluginManager.getMarketplaceClient();
+    this.pluginCommands = new PluginCommands(this.pluginManager, this.marketplaceClient);
   }
 
   async handlePluginCommands(args: PluginCliArgs): Promise<boolean> {
     // Check if this is a plugin command
-    if (!args.plugins && !args.search && !args.install && !args.list && 
-        !args.enable && !args.disable && !args.uninstall && !args.info && !args.update) {
+    if (!args.plugins && !args.search && !args.create && !args.validate && !args.dev && !args.pack && !args.publish && !args.install && !args.list && 
+        !args.enable && !args.disable && !args.uninstall && !args.info && !args.update && !args.rollback &&
+        !args.permissions && !args.theme && !args.config && !args.secrets && !args.frozen) {
       return false; // Not a plugin command
     }
 
@@ -50,14 +97,63 @@ export class PluginCliHandler {
 
       // Handle different plugin commands
       if (args.search) {
-        const result = await this.pluginCommands.search(args.search);
+        const result = await this.pluginCommands.search(args.search, {
+          page: args.page,
+          limit: args.limit,
+          type: args.type,
+          tags: args.tags?.split(',').map(tag => tag.trim()).filter(Boolean),
+          sortBy: args.sort,
+          registry: args.registry
+        });
+        console.log(result);
+        return true;
+      }
+
+      if (args.create) {
+        const result = await this.pluginCommands.create(args.create, { type: args.type, directory: args.dir });
+        console.log(result);
+        return true;
+      }
+
+      if (args.validate) {
+        const result = await this.pluginCommands.validate(args.validate);
+        console.log(result);
+        return true;
+      }
+
+      if (args.dev) {
+        const result = await this.pluginCommands.dev(args.dev, { yes: args.yes, skipBuild: args.skipBuild });
+        console.log(result);
+        return true;
+      }
+
+      if (args.pack) {
+        const result = await this.pluginCommands.pack(args.pack, { outDir: args.out, skipBuild: args.skipBuild });
+        console.log(result);
+        return true;
+      }
+
+      if (args.publish) {
+        const result = await this.pluginCommands.publish(args.publish, { registry: args.registry, skipBuild: args.skipBuild });
+        console.log(result);
+        return true;
+      }
+
+      if (args.frozen) {
+        const result = await this.pluginCommands.installFrozen(args.install, { force: args.force, yes: args.yes });
         console.log(result);
         return true;
       }
 
       if (args.install) {
         const source = args.source || 'npm';
-        const result = await this.pluginCommands.install(args.install, source);
+        const result = await this.pluginCommands.install(args.install, source, {
+          registry: args.registry,
+          withDependencies: args.withDeps,
+          force: args.force,
+          allowUnverified: args.allowUnverified,
+          yes: args.yes
+        });
         console.log(result);
         return true;
       }
@@ -69,7 +165,7 @@ export class PluginCliHandler {
       }
 
       if (args.enable) {
-        const result = await this.pluginCommands.enable(args.enable);
+        const result = await this.pluginCommands.enable(args.enable, { yes: args.yes });
         console.log(result);
         return true;
       }
@@ -92,8 +188,42 @@ export class PluginCliHandler {
         return true;
       }
 
+      if (args.permissions) {
+        const result = await this.pluginCommands.permissions(args.permissions, { revoke: args.revoke });
+        console.log(result);
+        return true;
+      }
+
+      if (args.theme) {
+        const result = await this.pluginCommands.theme(args.theme, args.themeName, { colors: args.colors });
+        console.log(result);
+        return true;
+      }
+
+      if (args.config) {
+        const result = await this.pluginCommands.config(args.config, args.configAction, args.configKey, args.configValue);
+        console.log(result);
+        return true;
+      }
+
+      if (args.secrets) {
+        const result = await this.pluginCommands.secrets(args.secrets, args.secretsPlugin, args.secretName);
+        console.log(result);
+        return true;
+      }
+
       if (args.update) {
-        const result = await this.pluginCommands.update(args.update);
+        const result = await this.pluginCommands.update(args.update, {
+          to: args.to,
+          force: args.force,
+          allowUnverified: args.allowUnverified
+        });
+        console.log(result);
+        return true;
+      }
+
+      if (args.rollback) {
+        const result = await this.pluginCommands.rollback(args.rollback);
         console.log(result);
         return true;
       }
@@ -112,6 +242,25 @@ export class PluginCliHandler {
     return true;
   }
 
+  async handleSlashCommand(input: string): Promise<boolean> {
+    if (!this.pluginManager.getCommandDispatcher().isCommand(input)) {
+      return false;
+    }
+
+    const result = await this.pluginManager.dispatchCommand(input);
+    if (result.success) {
+      if (result.result !== undefined) {
+        console.log(typeof result.result === 'string' ? result.result : JSON.stringify(result.result, null, 2));
+      }
+    } else {
+      console.error(`❌ ${result.error}`);
+      if (result.usage) {
+        console.error(`\n${result.usage}`);
+      }
+    }
+    return true;
+  }
+
   private showPluginHelp(): void {
     console.log(`
 🚀 Gemini CLI Plugin Marketplace
@@ -121,33 +270,85 @@ Usage:
 
 Commands:
   search <query>              Search for plugins
-  install <name>              Install a plugin
+  create <name>               Create a plugin project (--type tool|theme|extension|utility|mcp-server, --dir <path>)
+  validate [path]             Check a plugin manifest and list every problem with its JSON path
+  dev [dir]                   Link a plugin project and reload it whenever its sources change
+  pack [dir]                  Build a plugin project and pack it into a tarball with a file manifest
+  publish [dir|tarball]       Upload a packed plugin version to the marketplace
+  install <name>[@version]    Install a plugin, optionally at a version, range or dist-tag
+  install --frozen [name]     Install exactly the plugins recorded in plugins.lock
   list [--verbose]            List installed plugins
   enable <name>               Enable a plugin
   disable <name>              Disable a plugin
   uninstall <name>            Uninstall a plugin
   info <name>                 Show plugin information
-  update <name>               Update a plugin
+  update <name> [--to <ver>]  Update a plugin from the source it was installed from
+  rollback <name>             Restore the version a plugin had before its last install or update
+  permissions <name>          Review or revoke a plugin's permissions
+  theme list                  List installed themes and the active one
+  theme preview <name>        Render a sample of a theme in this terminal
+  theme use <name>            Switch to a theme; "default" restores the CLI's colors
+  config <name> [list]        Show a plugin's config, where each value comes from and its env override
+  config <name> get <key>     Show one config value
+  config <name> set <k> <v>   Set a config value, checked against the plugin's config schema
+  config <name> unset <key>   Remove a config value so its default applies
+  secrets list <name>         Show which of a plugin's secrets are set; values are never shown
+  secrets set <name> <key>    Store a secret, encrypted; prompts for the value without echoing it
+  secrets delete <name> <key> Delete a stored secret
 
 Options:
-  --source <source>           Installation source (npm, github, local)
-  --registry <url>            Custom registry URL
+  --source <source>           Installation source (npm, github, local); with local, install takes a directory
+  --with-deps                 Install missing plugin dependencies without asking
+  --force                     Install or update even if the plugin is incompatible
+  --allow-unverified          Install or update an unsigned or unverifiable plugin
+  --yes                       Grant all requested permissions without asking
+  --revoke <permission>       Revoke a granted permission (with permissions)
+  --registry <name>           Search, install or publish through one configured registry
+  --out <dir>                 Directory pack writes the tarball to (default: the project)
+  --skip-build                Dev, pack or publish without running the build script
+  --type <type>               Only search plugins of a type (tool, theme, extension, utility, mcp-server)
+  --tags <a,b>                Only search plugins with all of these tags
+  --sort <order>              Sort search results by relevance (default), downloads, rating, updated or name
+  --page <n>, --limit <n>     Page through search results (default 20 per page)
+  --colors <depth>            Preview themes with truecolor, 256, 16 or no colors
   --verbose                   Show detailed information
 
 Examples:
   gemini plugins search python
   gemini plugins install pip-analyzer
+  gemini plugins install pip-analyzer@^1.2.0
+  gemini plugins search lint --registry internal
+  gemini plugins search "code review" --type tool --sort rating --page 2
+  gemini plugins update pip-analyzer --to 1.3.0
   gemini plugins install my-plugin --source github
+  gemini plugins create my-tool --type tool
+  gemini plugins install ./my-tool --source local --allow-unverified
+  gemini plugins validate ./my-tool
+  gemini plugins dev ./my-tool
+  gemini plugins pack ./my-tool
+  gemini plugins publish ./my-tool/my-tool-0.1.0.tgz --registry internal
   gemini plugins list --verbose
   gemini plugins enable pip-analyzer
   gemini plugins info pip-analyzer
+  gemini plugins theme preview dark-theme-pro --colors 256
+  gemini plugins config my-tool set maxResults 20
+  gemini plugins secrets set my-tool apiToken
 
 For more information, visit: https://docs.gemini-cli.com/plugins
     `);
   }
 
+  /**
+   * Loads plugins for an interactive session and tells them it started.
+   */
   async initialize(): Promise<void> {
     await this.pluginManager.loadAllPlugins();
+    await this.pluginManager.emitEvent('session:start', { sessionId: this.sessionId, workspaceRoot: this.workspaceRoot });
+  }
+
+  async shutdown(): Promise<void> {
+    await this.pluginManager.emitEvent('session:end', { sessionId: this.sessionId });
+    await this.pluginManager.stopMcpServers();
   }
 
   getPluginManager(): PluginManager {
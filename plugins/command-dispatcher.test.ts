@@ -0,0 +1,143 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { CommandDispatcher, CommandUsageError, parseCommandArgs, tokenizeCommandLine } from './command-dispatcher.js';
+import { PluginCommand } from './plugin-interface.js';
+import { PluginRegistry } from './plugin-registry.js';
+
+const command = (fields: Partial<PluginCommand> = {}): PluginCommand => ({
+  name: 'deploy',
+  description: 'Deploys the project',
+  ...fields
+});
+
+describe('tokenizeCommandLine', () => {
+  it('splits on any whitespace', () => {
+    expect(tokenizeCommandLine('/deploy  prod\t--force')).toEqual(['/deploy', 'prod', '--force']);
+  });
+
+  it('keeps quoted whitespace and empty quoted tokens', () => {
+    expect(tokenizeCommandLine(`/note "two words" 'single quoted' ""`)).toEqual(['/note', 'two words', 'single quoted', '']);
+  });
+
+  it('joins quoted and unquoted parts of one token', () => {
+    expect(tokenizeCommandLine('--message="fix it"')).toEqual(['--message=fix it']);
+  });
+
+  it('honours backslash escapes in double quotes only', () => {
+    expect(tokenizeCommandLine(String.raw`"say \"hi\"" 'a\b'`)).toEqual(['say "hi"', String.raw`a\b`]);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => tokenizeCommandLine('/note "open')).toThrow(new CommandUsageError('Unterminated " quote'));
+  });
+});
+
+describe('parseCommandArgs', () => {
+  const deploy = command({
+    options: [
+      { name: 'force', alias: 'f', type: 'boolean' },
+      { name: 'region', alias: 'r', type: 'string', default: 'us' },
+      { name: 'replicas', alias: 'n', type: 'number' },
+      { name: 'offset', type: 'number' }
+    ]
+  });
+
+  it('parses long, short, inline and negated options over their defaults', () => {
+    expect(parseCommandArgs(deploy, ['--force', '-r', 'eu', '--replicas=3']).options).toEqual({ force: true, region: 'eu', replicas: 3 });
+    expect(parseCommandArgs(deploy, ['--no-force', '--force=true']).options).toEqual({ force: true, region: 'us' });
+    expect(parseCommandArgs(deploy, []).options).toEqual({ region: 'us' });
+  });
+
+  it('coerces number options and rejects non-numbers', () => {
+    expect(parseCommandArgs(deploy, ['-n', '2.5']).options.replicas).toBe(2.5);
+    expect(() => parseCommandArgs(deploy, ['--replicas', 'many'])).toThrow('Option --replicas expects a number, got "many"');
+    expect(() => parseCommandArgs(deploy, ['--force=yes'])).toThrow('Option --force expects true or false');
+  });
+
+  it('treats negative numbers as values, not options', () => {
+    expect(parseCommandArgs(deploy, ['--offset', '-5']).options.offset).toBe(-5);
+    expect(parseCommandArgs(deploy, ['-n', '-.5']).options.replicas).toBe(-0.5);
+    expect(parseCommandArgs(deploy, ['-5', '-1.5']).positionals).toEqual(['-5', '-1.5']);
+  });
+
+  it('rejects unknown options and options missing their value', () => {
+    expect(() => parseCommandArgs(deploy, ['--dry-run'])).toThrow('Unknown option: --dry-run');
+    expect(() => parseCommandArgs(deploy, ['-5x'])).toThrow('Unknown option: -5x');
+    expect(() => parseCommandArgs(deploy, ['--region'])).toThrow('Option --region requires a value');
+    expect(() => parseCommandArgs(deploy, ['--region', '--force'])).toThrow('Option --region requires a value');
+  });
+
+  it('requires required options', () => {
+    const tagged = command({ options: [{ name: 'tag', type: 'string', required: true }] });
+    expect(() => parseCommandArgs(tagged, [])).toThrow('Missing required option: --tag');
+  });
+
+  it('takes everything after -- and a lone - as positionals', () => {
+    expect(parseCommandArgs(deploy, ['-', '--', '--force', '-r'])).toMatchObject({
+      options: { region: 'us' },
+      positionals: ['-', '--force', '-r']
+    });
+  });
+});
+
+describe('parseCommandArgs argument binding', () => {
+  it('binds positionals to declared arguments in order', () => {
+    const copy = command({ arguments: [{ name: 'source', required: true }, { name: 'target' }] });
+
+    expect(parseCommandArgs(copy, ['a', 'b']).arguments).toEqual({ source: 'a', target: 'b' });
+    expect(parseCommandArgs(copy, ['a']).arguments).toEqual({ source: 'a' });
+    expect(() => parseCommandArgs(copy, [])).toThrow('Missing required argument: <source>');
+    expect(() => parseCommandArgs(copy, ['a', 'b', 'c'])).toThrow('Unexpected argument: c');
+  });
+
+  it('gives a variadic argument the remaining positionals', () => {
+    const add = command({ arguments: [{ name: 'target', required: true }, { name: 'files', variadic: true, required: true }] });
+
+    expect(parseCommandArgs(add, ['dist', 'a.ts', 'b.ts']).arguments).toEqual({ target: 'dist', files: ['a.ts', 'b.ts'] });
+    expect(() => parseCommandArgs(add, ['dist'])).toThrow('Missing required argument: <files...>');
+  });
+
+  it('binds nothing for commands that declare no arguments but keeps the positionals', () => {
+    expect(parseCommandArgs(command(), ['a', 'b'])).toEqual({ options: {}, arguments: {}, positionals: ['a', 'b'] });
+  });
+});
+
+describe('CommandDispatcher', () => {
+  const createDispatcher = () => {
+    const registry = new PluginRegistry();
+    registry.getCommandRegistry('deployer').registerCommand(
+      command({ options: [{ name: 'replicas', type: 'number' }], arguments: [{ name: 'env', required: true }] }),
+      async args => {
+        if (args.arguments.env === 'broken') {
+          throw new Error('no such environment');
+        }
+        return args;
+      }
+    );
+    return new CommandDispatcher(registry);
+  };
+
+  it('runs the handler with the parsed arguments', async () => {
+    expect(await createDispatcher().dispatch('/deploy prod --replicas -1')).toEqual({
+      success: true,
+      result: { options: { replicas: -1 }, arguments: { env: 'prod' }, positionals: ['prod'] }
+    });
+  });
+
+  it('reports usage errors with the command usage', async () => {
+    const result = await createDispatcher().dispatch('/deploy');
+    expect(result).toMatchObject({ success: false, error: 'Missing required argument: <env>' });
+    expect(result.usage).toContain('--replicas <number>');
+  });
+
+  it('reports unknown commands and failing handlers', async () => {
+    const dispatcher = createDispatcher();
+    expect(await dispatcher.dispatch('/rollout')).toEqual({ success: false, error: 'Unknown command: /rollout' });
+    expect(await dispatcher.dispatch('/deploy broken')).toEqual({ success: false, error: 'Command /deploy failed: no such environment' });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PluginCommand, PluginCommandResult, ParsedCommandArgs } from './plugin-interface.js';
+import { PluginRegistry } from './plugin-registry.js';
+
+export class CommandUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandUsageError';
+  }
+}
+
+export class CommandDispatcher {
+  private registry: PluginRegistry;
+
+  constructor(registry: PluginRegistry) {
+    this.registry = registry;
+  }
+
+  isCommand(input: string): boolean {
+    return input.trim().startsWith('/');
+  }
+
+  async dispatch(input: string): Promise<PluginCommandResult> {
+    let tokens: string[];
+    try {
+      tokens = tokenizeCommandLine(input.trim());
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (tokens.length === 0 || !tokens[0].startsWith('/')) {
+      return { success: false, error: 'Commands must start with "/"' };
+    }
+
+    const name = tokens[0].slice(1);
+    const command = this.registry.getCommand(name);
+    if (!command) {
+      return { success: false, error: `Unknown command: /${name}` };
+    }
+
+    const handler = this.registry.getCommandHandler(name);
+    if (!handler) {
+      return { success: false, error: `Command /${name} has no handler`, usage: formatCommandUsage(command) };
+    }
+
+    let args: ParsedCommandArgs;
+    try {
+      args = parseCommandArgs(command, tokens.slice(1));
+    } catch (error) {
+      if (error instanceof CommandUsageError) {
+        return { success: false, error: error.message, usage: formatCommandUsage(command) };
+      }
+      throw error;
+    }
+
+    try {
+      const result = await handler(args);
+      return { success: true, result };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Command /${name} failed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+}
+
+/**
+ * Splits a command line into tokens, honouring single and double quotes and
+ * backslash escapes inside double quotes.
+ */
+export function tokenizeCommandLine(line: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let hasToken = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < line.length) {
+        current += line[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        tokens.push(current);
+        current = '';
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new CommandUsageError(`Unterminated ${quote} quote`);
+  }
+
+  if (hasToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+const NEGATIVE_NUMBER = /^-(\d+\.?\d*|\.\d+)$/;
+
+export function parseCommandArgs(command: PluginCommand, tokens: string[]): ParsedCommandArgs {
+  const declared = command.options || [];
+  const options: Record<string, string | number | boolean> = {};
+  const positionals: string[] = [];
+
+  for (const option of declared) {
+    if (option.default !== undefined) {
+      options[option.name] = option.default;
+    }
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === '--') {
+      positionals.push(...tokens.slice(i + 1));
+      break;
+    }
+
+    // Negative numbers such as -5 are values, not options
+    if (!token.startsWith('-') || token === '-' || NEGATIVE_NUMBER.test(token)) {
+      positionals.push(token);
+      continue;
+    }
+
+    const isLong = token.startsWith('--');
+    const body = token.slice(isLong ? 2 : 1);
+    const eqIndex = body.indexOf('=');
+    const key = eqIndex === -1 ? body : body.slice(0, eqIndex);
+    let inlineValue = eqIndex === -1 ? undefined : body.slice(eqIndex + 1);
+    let negated = false;
+
+    let option = declared.find(o => (isLong ? o.name === key : o.alias === key));
+    if (!option && isLong && key.startsWith('no-')) {
+      option = declared.find(o => o.name === key.slice(3) && o.type === 'boolean');
+      negated = option !== undefined;
+    }
+
+    if (!option) {
+      throw new CommandUsageError(`Unknown option: ${token}`);
+    }
+
+    if (option.type === 'boolean') {
+      if (inlineValue === undefined) {
+        options[option.name] = !negated;
+      } else if (inlineValue === 'true' || inlineValue === 'false') {
+        options[option.name] = inlineValue === 'true';
+      } else {
+        throw new CommandUsageError(`Option --${option.name} expects true or false`);
+      }
+      continue;
+    }
+
+    if (inlineValue === undefined) {
+      if (i + 1 >= tokens.length || tokens[i + 1].startsWith('--')) {
+        throw new CommandUsageError(`Option --${option.name} requires a value`);
+      }
+      inlineValue = tokens[++i];
+    }
+
+    if (option.type === 'number') {
+      const numeric = Number(inlineValue);
+      if (inlineValue.trim() === '' || Number.isNaN(numeric)) {
+        throw new CommandUsageError(`Option --${option.name} expects a number, got "${inlineValue}"`);
+      }
+      options[option.name] = numeric;
+    } else {
+      options[option.name] = inlineValue;
+    }
+  }
+
+  for (const option of declared) {
+    if (option.required && options[option.name] === undefined) {
+      throw new CommandUsageError(`Missing required option: --${option.name}`);
+    }
+  }
+
+  return {
+    options,
+    arguments: bindArguments(command, positionals),
+    positionals
+  };
+}
+
+function bindArguments(command: PluginCommand, positionals: string[]): Record<string, string | string[]> {
+  const declared = command.arguments;
+  const bound: Record<string, string | string[]> = {};
+
+  // Commands that declare no arguments bind none; their handlers read the
+  // tokens from positionals
+  if (!declared) {
+    return bound;
+  }
+
+  let index = 0;
+  for (const argument of declared) {
+    if (argument.variadic) {
+      const rest = positionals.slice(index);
+      if (argument.required && rest.length === 0) {
+        throw new CommandUsageError(`Missing required argument: <${argument.name}...>`);
+      }
+      bound[argument.name] = rest;
+      index = positionals.length;
+      break;
+    }
+
+    if (index < positionals.length) {
+      bound[argument.name] = positionals[index++];
+    } else if (argument.required) {
+      throw new CommandUsageError(`Missing required argument: <${argument.name}>`);
+    }
+  }
+
+  if (index < positionals.length) {
+    throw new CommandUsageError(`Unexpected argument: ${positionals[index]}`);
+  }
+
+  return bound;
+}
+
+export function formatCommandUsage(command: PluginCommand): string {
+  let output = `Usage: ${command.usage || `/${command.name}`}\n`;
+
+  if (command.options && command.options.length > 0) {
+    output += `\nOptions:\n`;
+    for (const option of command.options) {
+      const alias = option.alias ? `-${option.alias}, ` : '';
+      const value = option.type === 'boolean' ? '' : ` <${option.type}>`;
+      const flag = `${alias}--${option.name}${value}`;
+      output += `  ${flag.padEnd(28)}${option.description || ''}\n`;
+    }
+  }
+
+  if (command.examples && command.examples.length > 0) {
+    output += `\nExamples:\n`;
+    for (const example of command.examples) {
+      output += `  ${example}\n`;
+    }
+  }
+
+  return output;
+}
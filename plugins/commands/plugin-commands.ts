@@ -4,19 +4,47 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { PluginManager } from '../plugin-manager.js';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import inquirer from 'inquirer';
+import { DependencyPrompt, PluginManager } from '../plugin-manager.js';
 import { MarketplaceClient } from '../marketplace/marketplace-client.js';
-import { PluginType } from '../plugin-interface.js';
+import { MarketplaceSearchOptions } from '../marketplace/marketplace-backend.js';
+import {
+  MarketplaceAuthError,
+  MarketplaceConflictError,
+  MarketplaceNetworkError,
+  MarketplaceNotFoundError,
+  MarketplaceRateLimitError,
+  MarketplaceServerError,
+  MarketplaceTimeoutError
+} from '../marketplace/marketplace-errors.js';
+import { PluginPermission, PluginType } from '../plugin-interface.js';
+import { PermissionPrompt } from '../permission-manager.js';
+import { VerificationStatus } from '../plugin-verifier.js';
+import { formatPluginSource } from '../plugin-lockfile.js';
+import { getPluginDependencies, formatDependency, parseDependencySpec } from '../dependency-resolver.js';
+import { scaffoldPlugin } from '../scaffold/plugin-scaffolder.js';
+import { PackResult, packPlugin, readPackedPlugin } from '../plugin-packer.js';
+import { validatePluginManifest } from '../manifest-schema.js';
+import { DevSessionEvent, PluginDevSession } from '../dev/plugin-dev-session.js';
+import { validateTheme } from '../theme/theme-tokens.js';
+import { COLOR_DEPTHS, ColorDepth, detectColorDepth } from '../theme/terminal-colors.js';
+import { DEFAULT_THEME_NAME, ThemeEntry, renderThemePreview } from '../theme/theme-manager.js';
+import { ConfigEntry } from '../plugin-config.js';
+import { MCP_SERVER_PERMISSION } from '../mcp/mcp-server-manager.js';
+
+type SearchSortOrder = NonNullable<MarketplaceSearchOptions['sortBy']>;
+const SEARCH_SORT_ORDERS: SearchSortOrder[] = ['relevance', 'downloads', 'rating', 'updated', 'name'];
 
 export class PluginCommands {
   private pluginManager: PluginManager;
   private marketplaceClient: MarketplaceClient;
+  private devSessions = new Map<string, PluginDevSession>();
 
-  constructor(pluginManager: PluginManager) {
+  constructor(pluginManager: PluginManager, marketplaceClient?: MarketplaceClient) {
     this.pluginManager = pluginManager;
-    this.marketplaceClient = new MarketplaceClient({
-      baseUrl: 'https://api.gemini-cli-plugins.com'
-    });
+    this.marketplaceClient = marketplaceClient || pluginManager.getMarketplaceClient();
   }
 
   async list(options: {
@@ -41,19 +69,36 @@ export class PluginCommands {
       filteredPlugins = filteredPlugins.filter(p => p.metadata.type === options.type);
     }
 
-    if (filteredPlugins.length === 0) {
+    // Installed plugins that were refused at load time because they no
+    // longer match the running CLI or Node version
+    const loadedNames = new Set(plugins.map(p => p.metadata.name));
+    const installer = this.pluginManager.getInstaller();
+    const incompatible = options.enabled ? [] : installer.getInstalledPlugins()
+      .filter(name => !loadedNames.has(name))
+      .map(name => ({ name, metadata: installer.getPluginMetadata(name), compatibility: this.pluginManager.getCompatibility(name) }))
+      .filter(entry => entry.metadata && entry.compatibility && !entry.compatibility.compatible)
+      .filter(entry => !options.type || entry.metadata!.type === options.type);
+
+    if (filteredPlugins.length === 0 && incompatible.length === 0) {
       return 'No plugins found.';
     }
 
-    let output = `\n📦 Installed Plugins (${filteredPlugins.length}):\n\n`;
+    let output = `\n📦 Installed Plugins (${filteredPlugins.length + incompatible.length}):\n\n`;
 
     for (const plugin of filteredPlugins) {
       const status = enabledNames.has(plugin.metadata.name) ? '✅' : '❌';
       const type = this.getTypeEmoji(plugin.metadata.type);
+      const compatibility = this.pluginManager.getCompatibility(plugin.metadata.name);
       
       output += `${status} ${type} \x1b[1m${plugin.metadata.name}\x1b[0m v${plugin.metadata.version}\n`;
       output += `   ${plugin.metadata.description}\n`;
       output += `   Author: ${plugin.metadata.author}\n`;
+      if (compatibility && !compatibility.compatible) {
+        output += `   ⚠️  Incompatible (loaded with --force): ${compatibility.reasons.join('; ')}\n`;
+      }
+      if (installer.isLinked(plugin.metadata.name)) {
+        output += `   🔗 Linked for development\n`;
+      }
       
       if (options.verbose) {
         output += `   Type: ${plugin.metadata.type}\n`;
@@ -68,32 +113,69 @@ export class PluginCommands {
       output += '\n';
     }
 
+    for (const entry of incompatible) {
+      const metadata = entry.metadata!;
+      const type = this.getTypeEmoji(metadata.type);
+
+      output += `⚠️  ${type} \x1b[1m${metadata.name}\x1b[0m v${metadata.version} (not loaded)\n`;
+      output += `   ${metadata.description}\n`;
+      output += `   Incompatible: ${entry.compatibility!.reasons.join('; ')}\n`;
+      output += `   Update the plugin, or reinstall it with --force to load it anyway\n\n`;
+    }
+
     return output;
   }
 
   async search(query: string, options: {
+    page?: number;
     limit?: number;
     type?: string;
     tags?: string[];
-    sortBy?: 'downloads' | 'rating' | 'updated' | 'name';
+    sortBy?: string;
+    registry?: string;
   } = {}): Promise<string> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1) {
+      return `\n❌ --page and --limit must be positive whole numbers\n`;
+    }
+    if (options.type && !Object.values(PluginType).includes(options.type as PluginType)) {
+      return `\n❌ Unknown plugin type: ${options.type}\n   Valid types: ${Object.values(PluginType).join(', ')}\n`;
+    }
+    if (options.sortBy && !SEARCH_SORT_ORDERS.includes(options.sortBy as SearchSortOrder)) {
+      return `\n❌ Unknown sort order: ${options.sortBy}\n   Valid orders: ${SEARCH_SORT_ORDERS.join(', ')}\n`;
+    }
+
     console.log(`🔍 Searching for plugins matching "${query}"...`);
 
-    // For now, use mock data since we don't have a real marketplace API
-    const plugins = this.marketplaceClient.getMockPlugins();
-    
-    // Simple local search
-    const filteredPlugins = plugins.filter(plugin => 
-      plugin.name.toLowerCase().includes(query.toLowerCase()) ||
-      plugin.description.toLowerCase().includes(query.toLowerCase()) ||
-      plugin.tags.some(tag => tag.toLowerCase().includes(query.toLowerCase()))
-    );
+    let client = this.marketplaceClient;
+    let filteredPlugins;
+    try {
+      client = options.registry ? client.forRegistry(options.registry) : client;
+      // One extra result tells us whether there is a next page
+      filteredPlugins = await client.searchPlugins(query, {
+        offset: (page - 1) * limit,
+        limit: limit + 1,
+        type: options.type,
+        tags: options.tags,
+        sortBy: options.sortBy as SearchSortOrder | undefined
+      });
+    } catch (error) {
+      return this.formatMarketplaceError('Search failed', error);
+    }
+
+    const notices = this.formatMarketplaceNotices(client);
+    const hasNextPage = filteredPlugins.length > limit;
+    filteredPlugins = filteredPlugins.slice(0, limit);
 
     if (filteredPlugins.length === 0) {
-      return `\n❌ No plugins found matching "${query}"\n`;
+      return page > 1
+        ? `\n❌ No more plugins matching "${query}" on page ${page}\n${notices}`
+        : `\n❌ No plugins found matching "${query}"\n${notices}`;
     }
 
-    let output = `\n🔍 Search Results for "${query}" (${filteredPlugins.length} found):\n\n`;
+    const first = (page - 1) * limit + 1;
+    let output = `\n🔍 Search Results for "${query}" (page ${page}, results ${first}-${first + filteredPlugins.length - 1}):\n\n`;
 
     for (const plugin of filteredPlugins) {
       const type = this.getTypeEmoji(plugin.type as PluginType);
@@ -104,20 +186,234 @@ export class PluginCommands {
       output += `   Author: ${plugin.author}\n`;
       output += `   Rating: ${rating} (${plugin.rating}/5) | Downloads: ${plugin.downloads.toLocaleString()}\n`;
       output += `   Tags: ${plugin.tags.join(', ')}\n`;
+      if (plugin.registry) {
+        output += `   Registry: ${plugin.registry}\n`;
+      }
       output += `   Updated: ${new Date(plugin.lastUpdated).toLocaleDateString()}\n\n`;
     }
 
+    if (hasNextPage) {
+      output += `➡️  More results on the next page: repeat the search with --page ${page + 1}\n`;
+    }
+
+    return output + notices;
+  }
+
+  async create(pluginName: string, options: {
+    type?: string;
+    directory?: string;
+    description?: string;
+    author?: string;
+  } = {}): Promise<string> {
+    const type = (options.type || PluginType.TOOL) as PluginType;
+    if (!Object.values(PluginType).includes(type)) {
+      return `\n❌ Unknown plugin type: ${type}\n   Valid types: ${Object.values(PluginType).join(', ')}\n`;
+    }
+
+    console.log(`🛠️  Creating ${type} plugin: ${pluginName}...`);
+
+    const result = scaffoldPlugin(pluginName, process.cwd(), { ...options, type });
+    if (!result.success) {
+      return `\n❌ Failed to create plugin: ${pluginName}\n   Error: ${result.error}\n`;
+    }
+
+    const relative = path.relative(process.cwd(), result.directory!) || '.';
+    let output = `\n✅ Created ${this.getTypeEmoji(type)} ${type} plugin ${pluginName} in ${relative}\n\n`;
+    result.files!.forEach(file => {
+      output += `   ${file}\n`;
+    });
+    output += `\nNext steps:\n`;
+    output += `   cd ${relative}\n`;
+    output += `   npm install && npm test\n`;
+    output += `   gemini plugins install . --source local --allow-unverified\n`;
+    output += `\n   --allow-unverified is needed until the plugin is signed.\n`;
+    return output;
+  }
+
+  /**
+   * Checks a plugin manifest against the manifest schema and lists every
+   * problem with its JSON path. `target` is a project directory or the
+   * package.json itself.
+   */
+  async validate(target: string = '.'): Promise<string> {
+    const manifestFile = target.endsWith('.json') ? path.resolve(target) : path.join(path.resolve(target), 'package.json');
+    const relative = path.relative(process.cwd(), manifestFile);
+    const label = relative.startsWith('..') ? manifestFile : relative;
+    if (!fs.existsSync(manifestFile)) {
+      return `\n❌ No plugin manifest found at ${label}\n`;
+    }
+
+    let manifest: any;
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf-8'));
+    } catch (error) {
+      return `\n❌ ${label} is not valid JSON\n   Error: ${error instanceof Error ? error.message : String(error)}\n`;
+    }
+
+    const problems = validatePluginManifest(manifest);
+    let output = problems.length === 0
+      ? `\n✅ ${label} is a valid plugin manifest\n`
+      : `\n❌ Found ${problems.length} problem${problems.length === 1 ? '' : 's'} in ${label}:\n\n`;
+    problems.forEach(problem => {
+      output += `   ${problem.path} ${problem.message}\n`;
+    });
+
+    // Contrast and unknown tokens only warn, so they are not schema problems
+    if (problems.length === 0) {
+      (manifest.themes || []).forEach((theme: any, index: number) => {
+        validateTheme(theme).warnings.forEach(warning => {
+          output += `⚠️  $.themes[${index}].colors ${warning}\n`;
+        });
+      });
+    }
+
+    if (typeof manifest?.entryPoint === 'string' && !fs.existsSync(path.join(path.dirname(manifestFile), manifest.entryPoint))) {
+      output += `\n⚠️  Entry point ${manifest.entryPoint} does not exist yet; build the plugin before installing or publishing it\n`;
+    }
+    return output;
+  }
+
+  /**
+   * Links a plugin project for development and reloads it whenever its
+   * sources change, until the CLI exits. Build and reload errors are printed
+   * as they happen while the last good build keeps running.
+   */
+  async dev(directory: string = '.', options: { yes?: boolean; skipBuild?: boolean } = {}): Promise<string> {
+    const projectDir = path.resolve(directory);
+    console.log(`🛠️  Starting dev mode for ${projectDir}...`);
+
+    const session = new PluginDevSession(this.pluginManager, projectDir, {
+      skipBuild: options.skipBuild,
+      prompt: this.createPermissionPrompt(options.yes),
+      onEvent: event => console.log(this.formatDevEvent(session.getPluginName(), event))
+    });
+    const result = await session.start();
+    if (!result.success) {
+      session.stop();
+      return `\n❌ Failed to start dev mode for ${projectDir}\n   Error: ${result.error}\n`;
+    }
+
+    const pluginName = session.getPluginName();
+    this.devSessions.get(pluginName)?.stop();
+    this.devSessions.set(pluginName, session);
+
+    let output = `\n✅ ${pluginName} is linked and enabled\n`;
+    result.warnings?.forEach(warning => {
+      output += `⚠️  ${warning}\n`;
+    });
+    output += `\n👀 Watching ${projectDir} for changes (Ctrl+C to stop)\n`;
+    output += `   The plugin stays linked afterwards; "gemini plugins uninstall ${pluginName}" removes it\n`;
     return output;
   }
 
-  async install(pluginName: string, source?: string): Promise<string> {
-    console.log(`📦 Installing plugin: ${pluginName}...`);
+  stopDevSessions(): void {
+    this.devSessions.forEach(session => session.stop());
+    this.devSessions.clear();
+  }
+
+  async pack(directory: string = '.', options: { outDir?: string; skipBuild?: boolean } = {}): Promise<string> {
+    const projectDir = path.resolve(directory);
+    console.log(`📦 Packing plugin in ${projectDir}...`);
+
+    const result = await packPlugin(projectDir, options);
+    if (!result.success) {
+      return `\n❌ Failed to pack plugin\n   Error: ${result.error}\n`;
+    }
+
+    const { manifest, tarballPath } = result.packed!;
+    let output = `\n✅ Packed ${manifest.name}@${manifest.version}\n\n`;
+    manifest.files.forEach(file => {
+      output += `   ${this.formatSize(file.size).padStart(9)}  ${file.path}\n`;
+    });
+    output += `\n   Tarball:      ${path.relative(process.cwd(), tarballPath)} (${this.formatSize(manifest.size)}, ${manifest.files.length} files)\n`;
+    output += `   Checksum:     ${manifest.checksum}\n`;
+    output += `   Content hash: ${manifest.contentHash}\n`;
+    output += `   Manifest:     ${path.relative(process.cwd(), tarballPath)}.json\n`;
+    return output;
+  }
+
+  /**
+   * Publishes a plugin project, packing it first, or a tarball made by
+   * `pack`. The target registry is resolved the same way as for installs.
+   */
+  async publish(target: string = '.', options: { registry?: string; skipBuild?: boolean } = {}): Promise<string> {
+    let result: PackResult;
+    if (target.endsWith('.tgz')) {
+      result = await readPackedPlugin(path.resolve(target));
+    } else {
+      console.log(`📦 Packing plugin in ${path.resolve(target)}...`);
+      result = await packPlugin(path.resolve(target), { skipBuild: options.skipBuild });
+    }
+    if (!result.success) {
+      return `\n❌ Failed to publish plugin\n   Error: ${result.error}\n`;
+    }
+
+    const { metadata, manifest, readme, tarballPath } = result.packed!;
+    console.log(`🚀 Publishing ${manifest.name}@${manifest.version}...`);
 
+    let registry: string | undefined;
     try {
-      const result = await this.pluginManager.installPlugin(pluginName, source);
+      registry = (await this.marketplaceClient.resolveRegistry(manifest.name, options.registry))?.name;
+      const client = registry ? this.marketplaceClient.forRegistry(registry) : this.marketplaceClient;
+      await client.publishPlugin({ metadata, manifest, readme, tarball: fs.readFileSync(tarballPath) });
+    } catch (error) {
+      return this.formatMarketplaceError(`Failed to publish ${manifest.name}@${manifest.version}`, error);
+    }
+
+    let output = `\n✅ Published ${manifest.name}@${manifest.version}${registry ? ` to registry ${registry}` : ''}\n`;
+    output += `   Checksum:     ${manifest.checksum}\n`;
+    output += `   Content hash: ${manifest.contentHash}\n`;
+    return output;
+  }
+
+  async install(pluginSpec: string, source?: string, options: {
+    registry?: string;
+    withDependencies?: boolean;
+    force?: boolean;
+    allowUnverified?: boolean;
+    yes?: boolean;
+  } = {}): Promise<string> {
+    if (source === 'local') {
+      // `install <dir> --source local`: the plugin is named by its manifest
+      const directory = path.resolve(pluginSpec);
+      const manifestFile = path.join(directory, 'package.json');
+      if (!fs.existsSync(manifestFile)) {
+        return `\n❌ Failed to install plugin from ${directory}\n   Error: no package.json found\n`;
+      }
+      pluginSpec = JSON.parse(fs.readFileSync(manifestFile, 'utf-8')).name;
+      source = directory;
+    }
+
+    // Accept name@version, name@range and name@dist-tag
+    const { name: pluginName, range } = parseDependencySpec(pluginSpec);
+    console.log(`📦 Installing plugin: ${pluginSpec}...`);
+
+    try {
+      const result = await this.pluginManager.installPlugin(pluginName, source, {
+        version: range === '*' ? undefined : range,
+        registry: options.registry,
+        withDependencies: options.withDependencies,
+        force: options.force,
+        allowUnverified: options.allowUnverified,
+        prompt: this.createPermissionPrompt(options.yes),
+        confirmDependencies: this.createDependencyPrompt()
+      });
       
       if (result.success) {
-        return `\n✅ Successfully installed plugin: ${pluginName}\n`;
+        const version = this.pluginManager.getInstaller().getPluginMetadata(pluginName)?.version;
+        let output = `\n✅ Successfully installed plugin: ${pluginName}${version ? `@${version}` : ''}\n`;
+        if (result.missingDependencies && result.missingDependencies.length > 0) {
+          output += `\n⚠️  ${pluginName} depends on plugins that are not installed:\n`;
+          result.missingDependencies.forEach(dep => {
+            output += `   - ${dep}\n`;
+          });
+          output += `\n   Install them with: gemini plugins install ${pluginName} --with-deps\n`;
+        } else if (result.warnings && result.warnings.length > 0) {
+          result.warnings.forEach(warning => {
+            output += `⚠️  ${warning}\n`;
+          });
+        }
+        return output;
       } else {
         return `\n❌ Failed to install plugin: ${pluginName}\n   Error: ${result.error}\n`;
       }
@@ -126,6 +422,38 @@ export class PluginCommands {
     }
   }
 
+  async installFrozen(pluginName?: string, options: {
+    force?: boolean;
+    yes?: boolean;
+  } = {}): Promise<string> {
+    console.log(`📦 Installing plugins from plugins.lock...`);
+
+    try {
+      const result = await this.pluginManager.installFromLockfile(pluginName, {
+        force: options.force,
+        prompt: this.createPermissionPrompt(options.yes)
+      });
+
+      if (!result.success) {
+        return `\n❌ Frozen install failed\n   Error: ${result.error}\n`;
+      }
+
+      let output = `\n✅ Plugins match plugins.lock\n`;
+      result.installed.forEach(name => {
+        output += `   📦 Installed ${name}\n`;
+      });
+      result.unchanged.forEach(name => {
+        output += `   ✔️  ${name} already up to date\n`;
+      });
+      (result.warnings || []).forEach(warning => {
+        output += `⚠️  ${warning}\n`;
+      });
+      return output;
+    } catch (error) {
+      return `\n❌ Frozen install failed\n   Error: ${error instanceof Error ? error.message : String(error)}\n`;
+    }
+  }
+
   async uninstall(pluginName: string): Promise<string> {
     console.log(`🗑️  Uninstalling plugin: ${pluginName}...`);
 
@@ -142,11 +470,11 @@ export class PluginCommands {
     }
   }
 
-  async enable(pluginName: string): Promise<string> {
+  async enable(pluginName: string, options: { yes?: boolean } = {}): Promise<string> {
     console.log(`✅ Enabling plugin: ${pluginName}...`);
 
     try {
-      const success = await this.pluginManager.enablePlugin(pluginName);
+      const success = await this.pluginManager.enablePlugin(pluginName, this.createPermissionPrompt(options.yes));
       
       if (success) {
         return `\n✅ Successfully enabled plugin: ${pluginName}\n`;
@@ -174,16 +502,32 @@ export class PluginCommands {
     }
   }
 
-  async update(pluginName: string): Promise<string> {
+  async update(pluginName: string, options: {
+    to?: string;
+    force?: boolean;
+    allowUnverified?: boolean;
+  } = {}): Promise<string> {
     console.log(`🔄 Updating plugin: ${pluginName}...`);
 
     try {
-      const result = await this.pluginManager.getInstaller().update(pluginName);
+      const installer = this.pluginManager.getInstaller();
+      const previousVersion = installer.getPluginMetadata(pluginName)?.version;
+      const previousHash = installer.getInstallRecord(pluginName)?.verification?.hash;
+      const result = await installer.update(pluginName, options);
       
       if (result.success) {
-        // Reload the plugin
-        await this.pluginManager.reloadPlugin(pluginName);
-        return `\n✅ Successfully updated plugin: ${pluginName}\n`;
+        const version = installer.getPluginMetadata(pluginName)?.version;
+        if (previousHash && installer.getInstallRecord(pluginName)?.verification?.hash === previousHash) {
+          return `\n✅ Plugin ${pluginName} is already up to date (${version})\n`;
+        }
+
+        // Reload the plugin; it stays disabled if the update added required permissions
+        const reload = await this.pluginManager.reloadPlugin(pluginName);
+        let output = `\n✅ Successfully updated plugin: ${pluginName} (${previousVersion} → ${version})\n`;
+        (reload.warnings || []).forEach(warning => {
+          output += `⚠️  ${warning}\n`;
+        });
+        return output;
       } else {
         return `\n❌ Failed to update plugin: ${pluginName}\n   Error: ${result.error}\n`;
       }
@@ -192,6 +536,27 @@ export class PluginCommands {
     }
   }
 
+  async rollback(pluginName: string): Promise<string> {
+    console.log(`⏪ Rolling back plugin: ${pluginName}...`);
+
+    try {
+      const result = await this.pluginManager.rollbackPlugin(pluginName);
+
+      if (result.success) {
+        const version = this.pluginManager.getInstaller().getPluginMetadata(pluginName)?.version;
+        let output = `\n✅ Rolled back plugin ${pluginName}${version ? ` to version ${version}` : ''}\n`;
+        (result.warnings || []).forEach(warning => {
+          output += `⚠️  ${warning}\n`;
+        });
+        return output;
+      } else {
+        return `\n❌ Failed to roll back plugin: ${pluginName}\n   Error: ${result.error}\n`;
+      }
+    } catch (error) {
+      return `\n❌ Failed to roll back plugin: ${pluginName}\n   Error: ${error instanceof Error ? error.message : String(error)}\n`;
+    }
+  }
+
   async info(pluginName: string): Promise<string> {
     const plugin = this.pluginManager.getPlugin(pluginName);
     
@@ -209,6 +574,10 @@ export class PluginCommands {
     output += `Name: ${plugin.metadata.name}\n`;
     output += `Version: ${plugin.metadata.version}\n`;
     output += `Status: ${status}\n`;
+    const crash = this.pluginManager.getCrash(pluginName);
+    if (crash) {
+      output += `💥 Crashed and was stopped: ${crash}\n   Run "gemini plugins enable ${pluginName}" after fixing it to load it again\n`;
+    }
     output += `Type: ${type} ${plugin.metadata.type}\n`;
     output += `Author: ${plugin.metadata.author}\n`;
     output += `Description: ${plugin.metadata.description}\n\n`;
@@ -235,10 +604,46 @@ export class PluginCommands {
       output += `  Node.js: ${plugin.metadata.compatibility.node}\n`;
     }
 
-    if (plugin.metadata.dependencies && plugin.metadata.dependencies.length > 0) {
+    const installRecord = this.pluginManager.getInstaller().getInstallRecord(pluginName);
+    if (installRecord?.source) {
+      output += `\nSource: ${formatPluginSource(installRecord.source)}`;
+      output += installRecord.requestedVersion ? ` (requested ${installRecord.requestedVersion})\n` : '\n';
+    }
+
+    const previousVersion = this.pluginManager.getInstaller().getBackupVersion(pluginName);
+    if (previousVersion) {
+      output += `Previous version: ${previousVersion} (restore with "gemini plugins rollback ${pluginName}")\n`;
+    }
+
+    const verification = installRecord?.verification;
+    if (verification) {
+      output += `\nVerification: ${this.getVerificationLabel(verification.status)}`;
+      output += verification.keyId ? ` (key ${verification.keyId})\n` : '\n';
+      output += `  Content hash: ${verification.hash}\n`;
+    }
+
+    const dependencies = getPluginDependencies(plugin.metadata);
+    if (dependencies.length > 0) {
       output += `\nDependencies:\n`;
-      plugin.metadata.dependencies.forEach(dep => {
-        output += `  - ${dep}\n`;
+      dependencies.forEach(dep => {
+        output += `  - ${formatDependency(dep)}${dep.peer ? ' (peer)' : ''}\n`;
+      });
+    }
+
+    if (plugin.metadata.permissions && plugin.metadata.permissions.length > 0) {
+      const grants = this.pluginManager.getPermissionManager().getGrants(pluginName);
+      output += `\nPermissions:\n`;
+      plugin.metadata.permissions.forEach(permission => {
+        const granted = grants.granted.includes(permission.name) ? 'granted' : 'not granted';
+        output += `  - ${permission.name}${permission.required ? ' (required)' : ''}: ${granted}\n`;
+      });
+    }
+
+    const secrets = this.pluginManager.getPluginSecrets(pluginName) || [];
+    if (secrets.length > 0) {
+      output += `\nSecrets:\n`;
+      secrets.forEach(secret => {
+        output += `  - ${secret.name}: ${secret.set ? 'set' : 'not set'}\n`;
       });
     }
 
@@ -267,16 +672,288 @@ export class PluginCommands {
       });
     }
 
+    if (capabilities.extensions.length > 0) {
+      output += `\nExtensions:\n`;
+      capabilities.extensions.forEach(extension => {
+        output += `  - ${extension.name} (${extension.type})\n`;
+      });
+    }
+
+    const servers = this.pluginManager.getMcpServers(pluginName);
+    const declaresServers = capabilities.extensions.some(extension => extension.type === 'mcp-server');
+    if (declaresServers && !this.pluginManager.getPermissionManager().hasPermission(pluginName, MCP_SERVER_PERMISSION)) {
+      output += `\nMCP servers: not started; the ${MCP_SERVER_PERMISSION} permission is not granted\n`;
+    } else if (servers.length > 0) {
+      output += `\nMCP servers:\n`;
+      servers.forEach(server => {
+        const pid = server.pid ? `, pid ${server.pid}` : '';
+        const restarts = server.restarts > 0 ? `, ${server.restarts} restart${server.restarts === 1 ? '' : 's'}` : '';
+        output += `  - ${server.name}: ${server.state}${pid}${restarts}\n`;
+        if (server.tools.length > 0) {
+          output += `    Tools: ${server.tools.join(', ')}\n`;
+        }
+        if (server.lastError && server.state !== 'running') {
+          output += `    Last error: ${server.lastError}\n`;
+        }
+      });
+    }
+
+    const events = this.pluginManager.getEventBus().getSubscribedEvents(pluginName);
+    if (events.length > 0) {
+      output += `\nSubscribed events: ${events.join(', ')}\n`;
+    }
+
+    const conflicts = registry.getConflicts(pluginName);
+    if (conflicts.length > 0) {
+      output += `\nConflicts:\n`;
+      conflicts.forEach(conflict => {
+        const other = conflict.owner === pluginName ? conflict.contender : conflict.owner;
+        const outcome = conflict.resolution === 'rejected' ? 'rejected' : `${conflict.resolution} as ${conflict.registeredAs}`;
+        output += `  - ${conflict.type} ${conflict.name} (with ${other}): ${outcome}\n`;
+      });
+    }
+
     return output;
   }
 
-  async popular(limit: number = 10): Promise<string> {
+  /**
+   * Lists, previews or switches the theme. Previews are rendered with the
+   * colors the terminal supports unless `colors` picks a depth.
+   */
+  async theme(action: string = 'list', themeName?: string, options: { colors?: string } = {}): Promise<string> {
+    const themes = this.pluginManager.getThemeManager();
+    let depth: ColorDepth = detectColorDepth();
+    if (options.colors) {
+      if (!COLOR_DEPTHS.includes(options.colors as ColorDepth)) {
+        return `\n❌ Unknown color depth: ${options.colors}\n   Valid depths: ${COLOR_DEPTHS.join(', ')}\n`;
+      }
+      depth = options.colors as ColorDepth;
+    }
+
+    if (action === 'list') {
+      const entries = themes.getThemes();
+      const active = themes.getActiveThemeName();
+      let output = `\n🎨 Themes (${entries.length}):\n\n`;
+      output += `${active ? '  ' : '✅'} ${DEFAULT_THEME_NAME}: The CLI's own colors\n`;
+      for (const entry of entries) {
+        output += `${entry.theme.name === active ? '✅' : '  '} ${entry.theme.name}: ${entry.theme.displayName}`;
+        output += entry.plugin ? ` (from ${entry.plugin})\n` : '\n';
+        output += this.formatThemeProblems(entry, '   ');
+      }
+      if (active && !entries.some(entry => entry.theme.name === active)) {
+        output += `\n⚠️  The active theme ${active} is not available; enable the plugin that provides it\n`;
+      }
+      return output;
+    }
+
+    if (action !== 'preview' && action !== 'use') {
+      return `\n❌ Unknown theme command: ${action}\n   Use "theme list", "theme preview <name>" or "theme use <name>"\n`;
+    }
+    if (!themeName) {
+      return `\n❌ Specify the theme to ${action}: gemini plugins theme ${action} <name>\n`;
+    }
+
+    if (action === 'use') {
+      try {
+        const entry = await themes.useTheme(themeName);
+        if (!entry) {
+          return `\n✅ Using the CLI's own colors\n`;
+        }
+        return `\n✅ Now using theme ${entry.theme.displayName} (${themeName})\n\n` +
+          `${renderThemePreview(entry.theme, depth)}\n${this.formatThemeProblems(entry, '')}`;
+      } catch (error) {
+        return `\n❌ Failed to use theme: ${themeName}\n   Error: ${error instanceof Error ? error.message : String(error)}\n`;
+      }
+    }
+
+    const entry = themes.getTheme(themeName);
+    if (!entry) {
+      return `\n❌ Theme not found: ${themeName}\n`;
+    }
+    if (entry.validation.errors.length > 0) {
+      return `\n❌ Theme ${themeName} cannot be previewed\n${this.formatThemeProblems(entry, '   ')}`;
+    }
+
+    const depthLabel = depth === 'truecolor' ? 'true color' : depth === 'none' ? 'no colors' : `${depth} colors`;
+    return `\n🎨 ${entry.theme.displayName} (${themeName}), rendered with ${depthLabel}\n\n` +
+      `${renderThemePreview(entry.theme, depth)}\n${this.formatThemeProblems(entry, '')}`;
+  }
+
+  async permissions(pluginName: string, options: { revoke?: string } = {}): Promise<string> {
+    const metadata = this.pluginManager.getInstaller().getPluginMetadata(pluginName);
+    if (!metadata) {
+      return `\n❌ Plugin not found: ${pluginName}\n`;
+    }
+
+    let output = '';
+
+    if (options.revoke) {
+      const revoked = await this.pluginManager.revokePermission(pluginName, options.revoke);
+      if (!revoked) {
+        return `\n❌ Permission ${options.revoke} is not granted to ${pluginName}\n`;
+      }
+      output += `\n✅ Revoked permission ${options.revoke} from ${pluginName}\n`;
+      const required = (metadata.permissions || []).find(p => p.name === options.revoke)?.required;
+      if (required) {
+        output += `⚠️  ${options.revoke} is required, so ${pluginName} was disabled; enabling it asks for the permission again\n`;
+      }
+    }
+
+    const declared = metadata.permissions || [];
+    if (declared.length === 0) {
+      return output + `\n${pluginName} does not request any permissions\n`;
+    }
+
+    const grants = this.pluginManager.getPermissionManager().getGrants(pluginName);
+    output += `\n🔐 Permissions for ${pluginName}:\n\n`;
+
+    for (const permission of declared) {
+      let status = '⏳ Not decided';
+      if (grants.granted.includes(permission.name)) {
+        status = '✅ Granted';
+      } else if (grants.denied.includes(permission.name)) {
+        status = '❌ Declined';
+      }
+      output += `${status}  ${permission.name}${permission.required ? ' (required)' : ''}\n`;
+      output += `   ${permission.description}\n`;
+    }
+
+    output += `\nRevoke with: gemini plugins permissions ${pluginName} --revoke <permission>\n`;
+    return output;
+  }
+
+  /**
+   * Lists, reads or changes a plugin's config. Values are typed as text and
+   * parsed as the key's declared type; changing one reloads the plugin.
+   */
+  async config(pluginName: string, action: string = 'list', key?: string, value?: string): Promise<string> {
+    const resolved = this.pluginManager.getPluginConfig(pluginName);
+    if (!resolved) {
+      return `\n❌ Plugin not found: ${pluginName}\n`;
+    }
+
+    if (action === 'list') {
+      if (resolved.entries.length === 0) {
+        return `\n${pluginName} does not declare any config\n`;
+      }
+
+      let output = `\n⚙️  Config for ${pluginName}:\n\n`;
+      for (const entry of resolved.entries) {
+        output += `${this.formatConfigEntry(entry)}\n`;
+        if (entry.property?.description) {
+          output += `   ${entry.property.description}\n`;
+        }
+        output += entry.property
+          ? `   Type: ${entry.property.type}; override with ${entry.envName}\n`
+          : '   Not declared by the plugin\n';
+      }
+      resolved.errors.forEach(error => {
+        output += `\n⚠️  ${error.path} ${error.message}`;
+      });
+      output += `${resolved.errors.length > 0 ? '\n' : ''}\nChange with: gemini plugins config ${pluginName} set <key> <value>\n`;
+      return output;
+    }
+
+    if (!['get', 'set', 'unset'].includes(action)) {
+      return `\n❌ Unknown config action: ${action}\n   Valid actions: get, set, unset, list\n`;
+    }
+    if (!key || (action === 'set' && value === undefined)) {
+      return `\n❌ Usage: gemini plugins config ${pluginName} ${action} <key>${action === 'set' ? ' <value>' : ''}\n`;
+    }
+
+    if (action === 'get') {
+      const entry = resolved.entries.find(candidate => candidate.key === key);
+      return entry ? `\n${this.formatConfigEntry(entry)}\n` : `\n❌ ${pluginName} has no config key ${key}\n`;
+    }
+
+    let result;
+    try {
+      result = action === 'set'
+        ? await this.pluginManager.setPluginConfig(pluginName, key, value!)
+        : await this.pluginManager.unsetPluginConfig(pluginName, key);
+    } catch (error) {
+      return `\n❌ Failed to ${action} ${key} for ${pluginName}\n   Error: ${error instanceof Error ? error.message : String(error)}\n`;
+    }
+    if (!result) {
+      return `\n❌ ${key} is not set for ${pluginName}\n`;
+    }
+
+    const entry = this.pluginManager.getPluginConfig(pluginName)?.entries.find(candidate => candidate.key === key);
+    let output = action === 'set'
+      ? `\n✅ Set ${key} for ${pluginName}\n`
+      : `\n✅ Unset ${key} for ${pluginName}\n`;
+    if (entry?.source === 'env') {
+      output += `⚠️  ${entry.envName} is set and overrides this value\n`;
+    } else if (entry && action === 'unset') {
+      output += `   Now: ${this.formatConfigEntry(entry)}\n`;
+    }
+    if (!result.success) {
+      output += `⚠️  ${pluginName} failed to load: ${result.error}\n`;
+    }
+    return output;
+  }
+
+  /**
+   * Lists, sets or deletes a plugin's secrets. Values are read without
+   * echoing them and are never printed.
+   */
+  async secrets(action: string = 'list', pluginName?: string, name?: string): Promise<string> {
+    if (!['list', 'set', 'delete'].includes(action)) {
+      return `\n❌ Unknown secrets action: ${action}\n   Valid actions: list, set, delete\n`;
+    }
+    if (!pluginName || (action !== 'list' && !name)) {
+      return `\n❌ Usage: gemini plugins secrets ${action} <plugin>${action === 'list' ? '' : ' <name>'}\n`;
+    }
+
+    const secrets = this.pluginManager.getPluginSecrets(pluginName);
+    if (!secrets) {
+      return `\n❌ Plugin not found: ${pluginName}\n`;
+    }
+
+    if (action === 'list') {
+      if (secrets.length === 0) {
+        return `\n${pluginName} does not declare any secrets\n`;
+      }
+
+      let output = `\n🔑 Secrets for ${pluginName}:\n\n`;
+      for (const secret of secrets) {
+        output += `${secret.set ? '✅ Set    ' : '⏳ Not set'}  ${secret.name}\n`;
+        output += `   ${secret.description}\n`;
+      }
+      output += `\nSet with: gemini plugins secrets set ${pluginName} <name>\n`;
+      return output;
+    }
+
+    try {
+      if (action === 'delete') {
+        return this.pluginManager.deletePluginSecret(pluginName, name!)
+          ? `\n✅ Deleted secret ${name} of ${pluginName}\n`
+          : `\n❌ Secret ${name} is not set for ${pluginName}\n`;
+      }
+
+      if (!secrets.some(secret => secret.name === name)) {
+        return `\n❌ ${pluginName} does not declare a secret named ${name}\n`;
+      }
+      const value = await this.readSecretValue(pluginName, name!);
+      this.pluginManager.setPluginSecret(pluginName, name!, value);
+      return `\n✅ Set secret ${name} of ${pluginName}\n`;
+    } catch (error) {
+      return `\n❌ Failed to ${action} secret ${name} of ${pluginName}\n   Error: ${error instanceof Error ? error.message : String(error)}\n`;
+    }
+  }
+
+  async popular(limit: number = 10, options: { registry?: string } = {}): Promise<string> {
     console.log(`🔥 Fetching popular plugins...`);
 
-    // Use mock data for now
-    const plugins = this.marketplaceClient.getMockPlugins()
-      .sort((a, b) => b.downloads - a.downloads)
-      .slice(0, limit);
+    let client = this.marketplaceClient;
+    let plugins;
+    try {
+      client = options.registry ? client.forRegistry(options.registry) : client;
+      plugins = await client.getPopularPlugins(limit);
+    } catch (error) {
+      return this.formatMarketplaceError('Failed to fetch popular plugins', error);
+    }
+    const notices = this.formatMarketplaceNotices(client);
 
     let output = `\n🔥 Popular Plugins:\n\n`;
 
@@ -288,19 +965,28 @@ export class PluginCommands {
       output += `${i + 1}. ${type} \x1b[1m${plugin.name}\x1b[0m v${plugin.version}\n`;
       output += `   ${plugin.description}\n`;
       output += `   Rating: ${rating} (${plugin.rating}/5) | Downloads: ${plugin.downloads.toLocaleString()}\n`;
-      output += `   Tags: ${plugin.tags.join(', ')}\n\n`;
+      output += `   Tags: ${plugin.tags.join(', ')}\n`;
+      if (plugin.registry) {
+        output += `   Registry: ${plugin.registry}\n`;
+      }
+      output += '\n';
     }
 
-    return output;
+    return output + notices;
   }
 
-  async recent(limit: number = 10): Promise<string> {
+  async recent(limit: number = 10, options: { registry?: string } = {}): Promise<string> {
     console.log(`🆕 Fetching recent plugins...`);
 
-    // Use mock data for now
-    const plugins = this.marketplaceClient.getMockPlugins()
-      .sort((a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime())
-      .slice(0, limit);
+    let client = this.marketplaceClient;
+    let plugins;
+    try {
+      client = options.registry ? client.forRegistry(options.registry) : client;
+      plugins = await client.getRecentPlugins(limit);
+    } catch (error) {
+      return this.formatMarketplaceError('Failed to fetch recent plugins', error);
+    }
+    const notices = this.formatMarketplaceNotices(client);
 
     let output = `\n🆕 Recent Plugins:\n\n`;
 
@@ -312,12 +998,155 @@ export class PluginCommands {
       output += `${i + 1}. ${type} \x1b[1m${plugin.name}\x1b[0m v${plugin.version}\n`;
       output += `   ${plugin.description}\n`;
       output += `   Updated: ${date} | Downloads: ${plugin.downloads.toLocaleString()}\n`;
-      output += `   Tags: ${plugin.tags.join(', ')}\n\n`;
+      output += `   Tags: ${plugin.tags.join(', ')}\n`;
+      if (plugin.registry) {
+        output += `   Registry: ${plugin.registry}\n`;
+      }
+      output += '\n';
+    }
+
+    return output + notices;
+  }
+
+  private formatMarketplaceError(action: string, error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    let hint: string;
+
+    if (error instanceof MarketplaceNetworkError) {
+      hint = `Could not reach the marketplace${error.url ? ` at ${new URL(error.url).origin}` : ''}. Check your network connection or the marketplace baseUrl in .gemini/plugins/settings.json.`;
+    } else if (error instanceof MarketplaceTimeoutError) {
+      hint = `The marketplace did not respond within ${error.timeout / 1000}s. Try again, or raise marketplace.timeout in .gemini/plugins/settings.json.`;
+    } else if (error instanceof MarketplaceAuthError) {
+      hint = `The marketplace needs valid credentials (HTTP ${error.status}). Check marketplace.apiKey, or the registry's token, in .gemini/plugins/settings.json.`;
+    } else if (error instanceof MarketplaceRateLimitError) {
+      hint = error.retryAfter !== undefined
+        ? `The marketplace is rate limiting requests. Try again in ${Math.ceil(error.retryAfter / 1000)}s.`
+        : 'The marketplace is rate limiting requests. Wait a moment and try again.';
+    } else if (error instanceof MarketplaceServerError) {
+      hint = `The marketplace is having problems (HTTP ${error.status}). Try again later.`;
+    } else if (error instanceof MarketplaceConflictError) {
+      hint = 'This version is already published, and published versions are never replaced. Bump "version" in package.json and publish again.';
+    } else if (error instanceof MarketplaceNotFoundError) {
+      hint = 'The marketplace does not provide this listing. Check the marketplace baseUrl in .gemini/plugins/settings.json.';
+    } else {
+      hint = message;
+    }
+
+    return `\n❌ ${action}\n   ${hint}\n${hint === message ? '' : `   Error: ${message}\n`}`;
+  }
+
+  private formatMarketplaceNotices(client: MarketplaceClient): string {
+    let output = '';
+
+    const status = client.getCacheStatus();
+    if (status?.stale) {
+      output += `⚠️  The marketplace could not be reached; showing cached results from ${new Date(status.storedAt).toLocaleString()}. They may be stale.\n`;
+    }
+
+    for (const failure of client.getRegistryFailures()) {
+      output += `⚠️  Registry ${failure.registry} is missing from these results: ${failure.error.message}\n`;
     }
 
     return output;
   }
 
+  private createPermissionPrompt(assumeYes?: boolean): PermissionPrompt {
+    return async (pluginName: string, permissions: PluginPermission[]) => {
+      if (assumeYes) {
+        return permissions.map(permission => permission.name);
+      }
+
+      if (!process.stdin.isTTY) {
+        console.log(`⚠️  ${pluginName} requests permissions but no terminal is available to ask; re-run with --yes to grant them`);
+        return [];
+      }
+
+      const { granted } = await inquirer.prompt<{ granted: string[] }>([{
+        type: 'checkbox',
+        name: 'granted',
+        message: `${pluginName} requests the following permissions:`,
+        choices: permissions.map(permission => ({
+          name: `${permission.name}${permission.required ? ' (required)' : ''}: ${permission.description}`,
+          value: permission.name,
+          checked: permission.required
+        }))
+      }]);
+      return granted;
+    };
+  }
+
+  // Offers to install missing plugin dependencies; without a terminal the
+  // install output says how to install them instead
+  private createDependencyPrompt(): DependencyPrompt {
+    return async (pluginName: string, dependencies: string[]) => {
+      if (!process.stdin.isTTY) {
+        return false;
+      }
+
+      const { install } = await inquirer.prompt<{ install: boolean }>([{
+        type: 'confirm',
+        name: 'install',
+        message: `${pluginName} depends on plugins that are not installed: ${dependencies.join(', ')}. Install them now?`,
+        default: true
+      }]);
+      return install;
+    };
+  }
+
+  // Prompts without echoing; without a terminal, reads the value piped to stdin
+  private async readSecretValue(pluginName: string, name: string): Promise<string> {
+    if (!process.stdin.isTTY) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(Buffer.from(chunk));
+      }
+      return Buffer.concat(chunks).toString('utf-8').replace(/\r?\n$/, '');
+    }
+
+    const { value } = await inquirer.prompt<{ value: string }>([{
+      type: 'password',
+      name: 'value',
+      message: `Value for ${name} (${pluginName}):`
+    }]);
+    return value;
+  }
+
+  private formatDevEvent(pluginName: string, event: DevSessionEvent): string {
+    switch (event.type) {
+      case 'change': {
+        const shown = event.files.slice(0, 3).join(', ');
+        const more = event.files.length > 3 ? ` and ${event.files.length - 3} more` : '';
+        return `\n🔄 ${shown}${more} changed, rebuilding ${pluginName}...`;
+      }
+      case 'build-failed':
+        return `❌ ${event.error}\n   Still running the previous build`;
+      case 'reload-failed':
+        return `❌ Failed to reload plugin: ${pluginName}\n   Error: ${event.error}\n   Still running the previous build`;
+      case 'reloaded':
+        return [`✅ Reloaded ${pluginName} (build ${event.generation})`, ...event.warnings.map(warning => `⚠️  ${warning}`)].join('\n');
+      case 'watch-failed':
+        return `❌ Stopped watching ${pluginName} for changes\n   Error: ${event.error}\n   Restart "gemini plugins dev" to pick up changes again`;
+    }
+  }
+
+  private formatConfigEntry(entry: ConfigEntry): string {
+    if (!entry.source) {
+      return `${entry.key} (not set${entry.required ? ', required' : ''})`;
+    }
+    return `${entry.key} = ${JSON.stringify(entry.value)} (${entry.source})`;
+  }
+
+  private formatThemeProblems(entry: ThemeEntry, indent: string): string {
+    return [
+      ...entry.validation.errors.map(error => `${indent}❌ ${error}\n`),
+      ...entry.validation.warnings.map(warning => `${indent}⚠️  ${warning}\n`)
+    ].join('');
+  }
+
+  private formatSize(bytes: number): string {
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+  }
+
   private getTypeEmoji(type: PluginType): string {
     switch (type) {
       case PluginType.TOOL:
@@ -334,4 +1163,17 @@ export class PluginCommands {
         return '📦';
     }
   }
-} 
\ No newline at end of file
+
+  private getVerificationLabel(status: VerificationStatus): string {
+    switch (status) {
+      case 'signed':
+        return '🔏 Signed by a trusted key';
+      case 'hash-verified':
+        return '✅ Content hash verified';
+      case 'demo':
+        return '🧪 Demo plugin (not verified)';
+      default:
+        return '⚠️  Unverified (installed with --allow-unverified)';
+    }
+  }
+}
\ No newline at end of file
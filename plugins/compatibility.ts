@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as semver from 'semver';
+import { PluginMetadata } from './plugin-interface.js';
+
+/**
+ * Version reported for the host CLI when the embedding application does not
+ * pass its own through `PluginManagerOptions.cliVersion`.
+ */
+export const DEFAULT_CLI_VERSION = '0.1.0';
+
+export interface HostVersions {
+  cli: string;
+  node: string;
+}
+
+export interface CompatibilityResult {
+  compatible: boolean;
+  reasons: string[];
+}
+
+export function getHostVersions(cliVersion: string = DEFAULT_CLI_VERSION): HostVersions {
+  return { cli: cliVersion, node: process.versions.node };
+}
+
+export function checkCompatibility(metadata: PluginMetadata, host: HostVersions): CompatibilityResult {
+  const reasons: string[] = [];
+  const compatibility = metadata.compatibility || ({} as PluginMetadata['compatibility']);
+
+  const cliReason = checkRange('Gemini CLI', compatibility['gemini-cli'], host.cli);
+  if (cliReason) {
+    reasons.push(cliReason);
+  }
+
+  if (compatibility.node) {
+    const nodeReason = checkRange('Node.js', compatibility.node, host.node);
+    if (nodeReason) {
+      reasons.push(nodeReason);
+    }
+  }
+
+  return { compatible: reasons.length === 0, reasons };
+}
+
+function checkRange(label: string, range: string | undefined, version: string): string | null {
+  if (!range) {
+    return `no ${label} version range declared`;
+  }
+
+  if (semver.validRange(range) === null) {
+    return `invalid ${label} version range "${range}"`;
+  }
+
+  if (!semver.satisfies(version, range, { includePrerelease: true })) {
+    return `requires ${label} ${range}, but ${version} is running`;
+  }
+
+  return null;
+}
@@ -4,12 +4,75 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { PluginManager } from '../plugin-manager.js';
 import { PluginCommands } from '../commands/plugin-commands.js';
 import { MarketplaceClient } from '../marketplace/marketplace-client.js';
+import { PluginSearchResult, PluginType } from '../plugin-interface.js';
 import chalk from 'chalk';
 import ora from 'ora';
 
+// The listings the demo serves from its local index
+const DEMO_LISTINGS: PluginSearchResult[] = [
+  {
+    name: 'pip-analyzer',
+    version: '1.0.0',
+    description: 'AI-powered Python dependency analyzer',
+    author: 'gemini-cli-team',
+    downloads: 1250,
+    rating: 4.8,
+    tags: ['python', 'pip', 'dependencies', 'ai'],
+    lastUpdated: '2024-01-15T10:30:00Z',
+    type: PluginType.TOOL,
+  },
+  {
+    name: 'code-review-assistant',
+    version: '2.1.0',
+    description: 'Automated code review with AI insights',
+    author: 'dev-tools-org',
+    downloads: 890,
+    rating: 4.6,
+    tags: ['code-review', 'ai', 'quality', 'automation'],
+    lastUpdated: '2024-01-14T15:45:00Z',
+    type: PluginType.TOOL,
+  },
+  {
+    name: 'dark-theme-pro',
+    version: '1.2.0',
+    description: 'Professional dark theme for Gemini CLI',
+    author: 'theme-creator',
+    downloads: 2100,
+    rating: 4.9,
+    tags: ['theme', 'dark', 'ui', 'customization'],
+    lastUpdated: '2024-01-13T09:20:00Z',
+    type: PluginType.THEME,
+  },
+  {
+    name: 'git-workflow',
+    version: '1.5.0',
+    description: 'Enhanced Git workflow tools and automation',
+    author: 'git-tools-dev',
+    downloads: 750,
+    rating: 4.7,
+    tags: ['git', 'workflow', 'automation', 'version-control'],
+    lastUpdated: '2024-01-12T14:15:00Z',
+    type: PluginType.UTILITY,
+  },
+  {
+    name: 'docker-helper',
+    version: '1.1.0',
+    description: 'Docker container management and optimization',
+    author: 'container-expert',
+    downloads: 620,
+    rating: 4.5,
+    tags: ['docker', 'containers', 'devops', 'automation'],
+    lastUpdated: '2024-01-11T11:30:00Z',
+    type: PluginType.TOOL,
+  },
+];
+
 export class PluginDemo {
   private pluginManager: PluginManager;
   private pluginCommands: PluginCommands;
@@ -17,10 +80,15 @@ export class PluginDemo {
 
   constructor(workspaceRoot: string) {
     this.pluginManager = new PluginManager(workspaceRoot);
-    this.pluginCommands = new PluginCommands(this.pluginManager);
-    this.marketplaceClient = new MarketplaceClient({
-      baseUrl: 'https://api.gemini-cli-plugins.com'
-    });
+    this.marketplaceClient = new MarketplaceClient({ indexDir: this.createDemoIndex() });
+    this.pluginCommands = new PluginCommands(this.pluginManager, this.marketplaceClient);
+  }
+
+  // Serve the demo listings from a local index so the demo runs offline
+  private createDemoIndex(): string {
+    const indexDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-plugin-index-'));
+    fs.writeFileSync(path.join(indexDir, 'plugins.json'), JSON.stringify(DEMO_LISTINGS, null, 2));
+    return indexDir;
   }
 
   async runDemo(): Promise<void> {
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DependencyResolver, getPluginDependencies, parseDependencySpec } from './dependency-resolver.js';
+import { PluginMetadata, PluginType } from './plugin-interface.js';
+
+const manifest = (name: string, fields: Partial<PluginMetadata> = {}): PluginMetadata => ({
+  name,
+  version: '1.0.0',
+  description: `${name} plugin`,
+  author: 'Tests',
+  type: PluginType.UTILITY,
+  entryPoint: 'index.js',
+  compatibility: { 'gemini-cli': '>=0.1.0' },
+  ...fields
+});
+
+const installed = (...manifests: PluginMetadata[]) => new Map(manifests.map(metadata => [metadata.name, metadata]));
+
+describe('parseDependencySpec', () => {
+  it.each([
+    ['git-workflow', { name: 'git-workflow', range: '*' }],
+    ['git-workflow@^1.2.0', { name: 'git-workflow', range: '^1.2.0' }],
+    ['@acme/lint', { name: '@acme/lint', range: '*' }],
+    ['@acme/lint@2.x', { name: '@acme/lint', range: '2.x' }],
+    [' themes@ ', { name: 'themes', range: '*' }]
+  ])('parses %s', (spec, expected) => {
+    expect(parseDependencySpec(spec)).toEqual(expected);
+  });
+});
+
+describe('getPluginDependencies', () => {
+  it('reads array-form dependencies and peer dependencies', () => {
+    expect(getPluginDependencies(manifest('app', { dependencies: ['git@^1.0.0'], peerDependencies: ['theme'] }))).toEqual([
+      { name: 'git', range: '^1.0.0', peer: false },
+      { name: 'theme', range: '*', peer: true }
+    ]);
+  });
+
+  it('ignores an npm dependency map', () => {
+    expect(getPluginDependencies(manifest('app', { dependencies: { semver: '^7.0.0' } as unknown as string[] }))).toEqual([]);
+  });
+});
+
+describe('DependencyResolver', () => {
+  const resolver = new DependencyResolver();
+
+  describe('findUnmetDependencies', () => {
+    it('reports missing dependencies and installed versions outside the range', () => {
+      const app = manifest('app', { dependencies: ['git@^2.0.0', 'lint', 'format@>=1.0.0'] });
+
+      expect(resolver.findUnmetDependencies(app, installed(manifest('git'), manifest('format'))).map(dependency => dependency.name))
+        .toEqual(['git', 'lint']);
+    });
+
+    it('accepts any installed version for *, latest and prereleases in range', () => {
+      const app = manifest('app', { dependencies: ['git@latest', 'lint@^2.0.0'] });
+
+      expect(resolver.findUnmetDependencies(app, installed(manifest('git'), manifest('lint', { version: '2.1.0-beta.1' })))).toEqual([]);
+    });
+
+    it('treats an invalid range as unmet', () => {
+      const app = manifest('app', { dependencies: ['git@not a range'] });
+      expect(resolver.findUnmetDependencies(app, installed(manifest('git')))).toHaveLength(1);
+    });
+  });
+
+  describe('resolve', () => {
+    it('orders every plugin after its dependencies', () => {
+      const { order, problems } = resolver.resolve(installed(
+        manifest('app', { dependencies: ['lint', 'git'] }),
+        manifest('lint', { dependencies: ['core'], peerDependencies: ['git'] }),
+        manifest('git', { dependencies: ['core'] }),
+        manifest('core')
+      ));
+
+      expect(problems).toEqual([]);
+      expect(order).toEqual(['core', 'git', 'lint', 'app']);
+    });
+
+    it('orders independent plugins by name', () => {
+      expect(resolver.resolve(installed(manifest('b'), manifest('c'), manifest('a'))).order).toEqual(['a', 'b', 'c']);
+    });
+
+    it('leaves out a cycle and the plugins depending on it', () => {
+      const { order, problems } = resolver.resolve(installed(
+        manifest('a', { dependencies: ['b'] }),
+        manifest('b', { dependencies: ['c'] }),
+        manifest('c', { dependencies: ['a'] }),
+        manifest('app', { dependencies: ['a'] }),
+        manifest('standalone')
+      ));
+
+      expect(order).toEqual(['standalone']);
+      expect(problems).toEqual([
+        { plugin: 'a', message: 'Dependency cycle detected: a -> b -> c -> a' },
+        { plugin: 'b', message: 'Dependency cycle detected: a -> b -> c -> a' },
+        { plugin: 'c', message: 'Dependency cycle detected: a -> b -> c -> a' },
+        { plugin: 'app', message: 'Plugin app cannot be loaded because its dependency a failed to resolve' }
+      ]);
+    });
+
+    it('reports a plugin depending on itself', () => {
+      const { order, problems } = resolver.resolve(installed(manifest('self', { peerDependencies: ['self'] })));
+
+      expect(order).toEqual([]);
+      expect(problems).toEqual([{ plugin: 'self', message: 'Dependency cycle detected: self -> self' }]);
+    });
+
+    it('reports missing and mismatched dependencies and blocks their dependents', () => {
+      const { order, problems } = resolver.resolve(installed(
+        manifest('app', { dependencies: ['lint'] }),
+        manifest('lint', { dependencies: ['git@^2.0.0'], peerDependencies: ['theme@1.x'] }),
+        manifest('git', { version: '1.4.0' })
+      ));
+
+      expect(order).toEqual(['git']);
+      expect(problems).toEqual([
+        { plugin: 'lint', message: 'Plugin lint requires dependency git@^2.0.0, but 1.4.0 is installed' },
+        { plugin: 'lint', message: 'Plugin lint requires peer dependency theme@1.x, which is not installed' },
+        { plugin: 'app', message: 'Plugin app cannot be loaded because its dependency lint failed to resolve' }
+      ]);
+    });
+  });
+});
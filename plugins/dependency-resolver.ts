@@ -0,0 +1,173 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as semver from 'semver';
+import { PluginMetadata } from './plugin-interface.js';
+
+export interface PluginDependency {
+  name: string;
+  range: string;
+  peer: boolean;
+}
+
+export interface DependencyProblem {
+  plugin: string;
+  message: string;
+}
+
+export interface DependencyResolution {
+  order: string[];
+  problems: DependencyProblem[];
+}
+
+/**
+ * Splits a dependency spec such as `git-workflow@^1.2.0` or
+ * `@acme/lint@2.x` into a plugin name and a semver range. A bare name
+ * accepts any version.
+ */
+export function parseDependencySpec(spec: string): { name: string; range: string } {
+  const trimmed = spec.trim();
+  const atIndex = trimmed.indexOf('@', trimmed.startsWith('@') ? 1 : 0);
+  if (atIndex === -1) {
+    return { name: trimmed, range: '*' };
+  }
+  return { name: trimmed.slice(0, atIndex), range: trimmed.slice(atIndex + 1) || '*' };
+}
+
+/**
+ * Reads the plugin dependencies declared in a manifest. Only array-form
+ * entries name other plugins; an object-form `dependencies` field is an npm
+ * dependency map and is not considered here.
+ */
+export function getPluginDependencies(metadata: PluginMetadata): PluginDependency[] {
+  const dependencies: PluginDependency[] = [];
+
+  if (Array.isArray(metadata.dependencies)) {
+    for (const spec of metadata.dependencies) {
+      dependencies.push({ ...parseDependencySpec(spec), peer: false });
+    }
+  }
+
+  if (Array.isArray(metadata.peerDependencies)) {
+    for (const spec of metadata.peerDependencies) {
+      dependencies.push({ ...parseDependencySpec(spec), peer: true });
+    }
+  }
+
+  return dependencies;
+}
+
+export function formatDependency(dependency: PluginDependency): string {
+  return dependency.range === '*' ? dependency.name : `${dependency.name}@${dependency.range}`;
+}
+
+export class DependencyResolver {
+  /**
+   * Returns the dependencies of `metadata` that are not installed or whose
+   * installed version falls outside the requested range.
+   */
+  findUnmetDependencies(metadata: PluginMetadata, installed: Map<string, PluginMetadata>): PluginDependency[] {
+    return getPluginDependencies(metadata).filter(dependency => {
+      const target = installed.get(dependency.name);
+      return !target || !this.satisfies(target.version, dependency.range);
+    });
+  }
+
+  /**
+   * Orders installed plugins so that every plugin comes after the plugins it
+   * depends on. Plugins with missing or mismatched dependencies, plugins in a
+   * dependency cycle, and plugins depending on any of those are left out of
+   * the order and reported as problems.
+   */
+  resolve(installed: Map<string, PluginMetadata>): DependencyResolution {
+    const problems: DependencyProblem[] = [];
+    const blocked = new Set<string>();
+
+    for (const [name, metadata] of installed) {
+      for (const dependency of getPluginDependencies(metadata)) {
+        const message = this.describeUnmet(name, dependency, installed.get(dependency.name));
+        if (message) {
+          problems.push({ plugin: name, message });
+          blocked.add(name);
+        }
+      }
+    }
+
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (name: string): boolean => {
+      if (visited.has(name)) {
+        return !blocked.has(name);
+      }
+
+      const cycleStart = stack.indexOf(name);
+      if (cycleStart !== -1) {
+        const cycle = [...stack.slice(cycleStart), name];
+        for (const member of cycle) {
+          if (!blocked.has(member)) {
+            blocked.add(member);
+            problems.push({ plugin: member, message: `Dependency cycle detected: ${cycle.join(' -> ')}` });
+          }
+        }
+        return false;
+      }
+
+      stack.push(name);
+      const metadata = installed.get(name)!;
+      const dependencies = getPluginDependencies(metadata)
+        .filter(dependency => installed.has(dependency.name))
+        .map(dependency => dependency.name)
+        .sort();
+
+      for (const dependency of dependencies) {
+        if (!visit(dependency) && !blocked.has(name)) {
+          blocked.add(name);
+          problems.push({
+            plugin: name,
+            message: `Plugin ${name} cannot be loaded because its dependency ${dependency} failed to resolve`
+          });
+        }
+      }
+      stack.pop();
+
+      visited.add(name);
+      if (blocked.has(name)) {
+        return false;
+      }
+      order.push(name);
+      return true;
+    };
+
+    for (const name of Array.from(installed.keys()).sort()) {
+      visit(name);
+    }
+
+    return { order, problems };
+  }
+
+  private describeUnmet(plugin: string, dependency: PluginDependency, target?: PluginMetadata): string | null {
+    const kind = dependency.peer ? 'peer dependency' : 'dependency';
+
+    if (!target) {
+      return `Plugin ${plugin} requires ${kind} ${formatDependency(dependency)}, which is not installed`;
+    }
+
+    if (!this.satisfies(target.version, dependency.range)) {
+      return `Plugin ${plugin} requires ${kind} ${formatDependency(dependency)}, but ${target.version} is installed`;
+    }
+
+    return null;
+  }
+
+  private satisfies(version: string, range: string): boolean {
+    if (range === '*' || range === 'latest') {
+      return true;
+    }
+    return semver.validRange(range) !== null && semver.satisfies(version, range, { includePrerelease: true });
+  }
+}
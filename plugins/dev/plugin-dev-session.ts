@@ -0,0 +1,351 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { PluginInstallResult, PluginMetadata } from '../plugin-interface.js';
+import { PluginManager } from '../plugin-manager.js';
+import { PermissionPrompt } from '../permission-manager.js';
+import { validatePluginManifest } from '../manifest-schema.js';
+import { formatSchemaErrors } from '../schema-validator.js';
+
+const execAsync = promisify(exec);
+
+// Root entries that are neither watched nor copied into a build
+const IGNORED_ENTRIES = new Set(['node_modules', '.git']);
+const PACK_OUTPUT_PATTERN = /\.tgz(\.json)?$/;
+const DEFAULT_DEBOUNCE = 200;
+
+export type DevSessionEvent =
+  | { type: 'change'; files: string[] }
+  | { type: 'build-failed'; error: string }
+  | { type: 'reloaded'; generation: number; warnings: string[] }
+  | { type: 'reload-failed'; error: string }
+  // The project can no longer be watched, e.g. because it was deleted
+  | { type: 'watch-failed'; error: string };
+
+export interface DevSessionOptions {
+  // Reload without running the build script, e.g. for plain JavaScript plugins
+  skipBuild?: boolean;
+  // Milliseconds to wait for more changes before rebuilding
+  debounce?: number;
+  prompt?: PermissionPrompt;
+  onEvent?: (event: DevSessionEvent) => void;
+}
+
+type PackageJson = PluginMetadata & { scripts?: Record<string, string> };
+
+/**
+ * Runs a local plugin project inside the CLI and reloads it as its sources
+ * change. Each build is copied to .gemini/plugins/.dev/<name>/<n> and the
+ * plugin is linked to the newest copy. Node caches modules by path, so
+ * loading every build from a new directory is what makes a reload pick up
+ * the whole new module graph rather than the modules already imported.
+ *
+ * A build or reload that fails is reported through onEvent and the previous
+ * build stays loaded.
+ */
+export class PluginDevSession {
+  private manager: PluginManager;
+  private projectDir: string;
+  private options: DevSessionOptions;
+  private pluginName = '';
+  private generation = 0;
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+  private timer?: NodeJS.Timeout;
+  private changed = new Set<string>();
+  private reloading: Promise<void> | null = null;
+  private ignoredDir?: string;
+  // The build the plugin is linked to
+  private currentDir?: string;
+
+  constructor(manager: PluginManager, projectDir: string, options: DevSessionOptions = {}) {
+    this.manager = manager;
+    this.projectDir = path.resolve(projectDir);
+    this.options = options;
+  }
+
+  getPluginName(): string {
+    return this.pluginName;
+  }
+
+  /**
+   * Builds the project, links and enables the plugin, and starts watching.
+   */
+  async start(): Promise<PluginInstallResult> {
+    let metadata: PackageJson;
+    try {
+      metadata = this.readManifest();
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    this.pluginName = metadata.name;
+
+    // Build output changes on every rebuild and must not trigger another one
+    const outputDir = metadata.entryPoint.split(/[\\/]/)[0];
+    if (metadata.scripts?.build && outputDir !== metadata.entryPoint) {
+      this.ignoredDir = outputDir;
+    }
+
+    const build = await this.build();
+    if (build.error) {
+      return { success: false, error: build.error };
+    }
+
+    try {
+      this.manager.getInstaller().link(this.pluginName, build.dir!);
+    } catch (error) {
+      this.removeBuild(build.dir!);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    this.currentDir = build.dir;
+
+    const result = await this.manager.reloadPlugin(this.pluginName);
+    if (!result.success) {
+      return result;
+    }
+
+    // Loading an enabled plugin already ran onEnable
+    const enabled = this.manager.getEnabledPlugins().some(plugin => plugin.metadata.name === this.pluginName);
+    if (!enabled) {
+      try {
+        await this.manager.enablePlugin(this.pluginName, this.options.prompt);
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    try {
+      this.watch();
+    } catch (error) {
+      this.stop();
+      return { success: false, error: `Failed to watch ${this.projectDir}: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    return { ...result, plugin: this.manager.getPlugin(this.pluginName) };
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+  }
+
+  /**
+   * Rebuilds and reloads now, as a change would. Resolves once the reload
+   * has finished.
+   */
+  async reload(): Promise<void> {
+    this.flush();
+    await this.reloading;
+  }
+
+  private flush(): void {
+    // Changes made during a reload are picked up by another one afterwards
+    if (this.reloading) {
+      this.reloading.then(() => this.flush()).catch(error => this.emit({ type: 'reload-failed', error: describeError(error) }));
+      return;
+    }
+
+    const files = Array.from(this.changed).sort();
+    this.changed.clear();
+    this.reloading = this.rebuild(files).finally(() => {
+      this.reloading = null;
+    });
+  }
+
+  // Never rejects: this runs from timers, where a rejection would end the CLI
+  private async rebuild(files: string[]): Promise<void> {
+    if (files.length > 0) {
+      this.emit({ type: 'change', files });
+    }
+
+    const previousDir = this.currentDir!;
+    const build = await this.build();
+    if (build.error) {
+      this.emit({ type: 'build-failed', error: build.error });
+      return;
+    }
+
+    try {
+      this.manager.getInstaller().link(this.pluginName, build.dir!);
+      const result = await this.manager.reloadPlugin(this.pluginName);
+      if (result.success) {
+        this.currentDir = build.dir;
+        this.emit({ type: 'reloaded', generation: this.generation, warnings: result.warnings || [] });
+        this.removeBuild(previousDir);
+        return;
+      }
+      this.emit({ type: 'reload-failed', error: result.error || `Failed to reload plugin ${this.pluginName}` });
+    } catch (error) {
+      // e.g. the plugin's onDisable threw
+      this.emit({ type: 'reload-failed', error: describeError(error) });
+    }
+
+    try {
+      this.manager.getInstaller().link(this.pluginName, previousDir);
+      this.removeBuild(build.dir!);
+      await this.manager.reloadPlugin(this.pluginName);
+    } catch (error) {
+      this.emit({ type: 'reload-failed', error: `The previous build could not be restored: ${describeError(error)}` });
+    }
+  }
+
+  /**
+   * Watches the project recursively. Where Node cannot, as on Linux before
+   * Node 20, each directory gets its own watcher, and directories created
+   * later are added as they appear.
+   */
+  private watch(): void {
+    try {
+      this.addWatcher('', { recursive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        throw error;
+      }
+      this.watchDirectory('');
+    }
+  }
+
+  private watchDirectory(relativeDir: string): void {
+    if (this.watchers.has(relativeDir)) {
+      return;
+    }
+
+    this.addWatcher(relativeDir, {});
+    for (const entry of fs.readdirSync(path.join(this.projectDir, relativeDir), { withFileTypes: true })) {
+      const relativePath = path.join(relativeDir, entry.name);
+      if (entry.isDirectory() && !this.isIgnored(relativePath)) {
+        this.watchDirectory(relativePath);
+      }
+    }
+  }
+
+  private addWatcher(relativeDir: string, options: { recursive?: boolean }): void {
+    const watcher = fs.watch(path.join(this.projectDir, relativeDir), options, (_event, name) => {
+      if (!name) return;
+      const file = path.join(relativeDir, name.toString());
+      if (this.isIgnored(file)) return;
+
+      if (!options.recursive && this.isDirectory(file)) {
+        try {
+          this.watchDirectory(file);
+        } catch (error) {
+          this.emit({ type: 'watch-failed', error: describeError(error) });
+        }
+      }
+      this.changed.add(file);
+      clearTimeout(this.timer);
+      this.timer = setTimeout(() => this.flush(), this.options.debounce ?? DEFAULT_DEBOUNCE);
+    });
+
+    watcher.on('error', error => {
+      watcher.close();
+      this.watchers.delete(relativeDir);
+      // A removed subdirectory is an ordinary change; losing the project is not
+      if (relativeDir === '' || !fs.existsSync(this.projectDir)) {
+        this.stop();
+        this.emit({ type: 'watch-failed', error: describeError(error) });
+      }
+    });
+    this.watchers.set(relativeDir, watcher);
+  }
+
+  private isDirectory(file: string): boolean {
+    try {
+      return fs.statSync(path.join(this.projectDir, file)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private async build(): Promise<{ dir?: string; error?: string }> {
+    let metadata: PackageJson;
+    try {
+      if (this.readManifest().scripts?.build && !this.options.skipBuild) {
+        await this.runBuildScript();
+      }
+      // The build may have rewritten the manifest
+      metadata = this.readManifest();
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+    if (metadata.name !== this.pluginName) {
+      return { error: `The plugin name changed from ${this.pluginName} to ${metadata.name}; restart dev mode to develop it under the new name` };
+    }
+
+    const dir = this.getBuildDir(++this.generation);
+    try {
+      fs.rmSync(dir, { recursive: true, force: true });
+      fs.cpSync(this.projectDir, dir, {
+        recursive: true,
+        filter: source => path.relative(this.projectDir, source) === '' || !this.isSkippedRoot(path.relative(this.projectDir, source))
+      });
+      // Dependencies are shared with the project rather than copied
+      if (fs.existsSync(path.join(this.projectDir, 'node_modules'))) {
+        fs.symlinkSync(path.join(this.projectDir, 'node_modules'), path.join(dir, 'node_modules'), 'dir');
+      }
+    } catch (error) {
+      this.removeBuild(dir);
+      return { error: `Failed to copy the build: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    return { dir };
+  }
+
+  private async runBuildScript(): Promise<void> {
+    try {
+      await execAsync('npm run build', { cwd: this.projectDir });
+    } catch (error: any) {
+      // The compiler's own output says what is wrong; npm's wrapper does not
+      const output = [error.stdout, error.stderr].map(stream => stream?.toString().trim()).filter(Boolean).join('\n');
+      throw new Error(`Build failed:\n${output || error.message}`);
+    }
+  }
+
+  private readManifest(): PackageJson {
+    const manifestFile = path.join(this.projectDir, 'package.json');
+    if (!fs.existsSync(manifestFile)) {
+      throw new Error(`No package.json found in ${this.projectDir}`);
+    }
+
+    const metadata = JSON.parse(fs.readFileSync(manifestFile, 'utf-8'));
+    const problems = validatePluginManifest(metadata);
+    if (problems.length > 0) {
+      throw new Error(`Invalid plugin manifest: ${formatSchemaErrors(problems)}`);
+    }
+    return metadata;
+  }
+
+  private getBuildDir(generation: number): string {
+    return path.join(this.manager.getInstaller().getDevDir(this.pluginName), String(generation));
+  }
+
+  private removeBuild(dir: string): void {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  private isIgnored(file: string): boolean {
+    const root = file.split(/[\\/]/)[0];
+    return this.isSkippedRoot(file) || root === this.ignoredDir;
+  }
+
+  // Dot entries cover .git and a workspace .gemini directory inside the project
+  private isSkippedRoot(file: string): boolean {
+    const root = file.split(/[\\/]/)[0];
+    return IGNORED_ENTRIES.has(root) || root.startsWith('.') || PACK_OUTPUT_PATTERN.test(root);
+  }
+
+  private emit(event: DevSessionEvent): void {
+    this.options.onEvent?.(event);
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
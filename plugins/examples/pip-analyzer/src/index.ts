@@ -4,10 +4,16 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GeminiPlugin, PluginContext, PluginType } from '../../../plugin-interface';
+import { GeminiPlugin, ParsedCommandArgs, PluginCommandOption, PluginContext, PluginType } from '../../../plugin-interface';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 
+const PIP_ANALYZE_OPTIONS: PluginCommandOption[] = [
+  { name: 'outdated', type: 'boolean', description: 'Only report outdated packages' },
+  { name: 'security', type: 'boolean', description: 'Only report packages with known vulnerabilities' },
+  { name: 'file', alias: 'f', type: 'string', description: 'Path to requirements.txt or pyproject.toml' }
+];
+
 export default class PipAnalyzerPlugin implements GeminiPlugin {
   metadata = {
     name: 'pip-analyzer',
@@ -19,7 +25,6 @@ export default class PipAnalyzerPlugin implements GeminiPlugin {
     license: 'Apache-2.0',
     type: PluginType.TOOL,
     entryPoint: 'dist/index.js',
-    dependencies: ['semver', 'axios'],
     tags: ['python', 'pip', 'dependencies', 'ai', 'analysis'],
     compatibility: {
       'gemini-cli': '>=0.1.0',
@@ -46,7 +51,8 @@ export default class PipAnalyzerPlugin implements GeminiPlugin {
           '/pip-analyze',
           '/pip-analyze --outdated',
           '/pip-analyze --security'
-        ]
+        ],
+        options: PIP_ANALYZE_OPTIONS
       }
     ],
     tools: [
@@ -89,7 +95,17 @@ export default class PipAnalyzerPlugin implements GeminiPlugin {
         '/pip-analyze',
         '/pip-analyze --outdated',
         '/pip-analyze --security'
-      ]
+      ],
+      options: PIP_ANALYZE_OPTIONS
+    }, (args: ParsedCommandArgs) => {
+      const file = args.options.file as string | undefined;
+      if (args.options.security) {
+        return this.runTool('security-scan', file);
+      }
+      if (args.options.outdated) {
+        return this.runTool('check-updates', file);
+      }
+      return this.runTool('analyze', file);
     });
   }
 
@@ -113,7 +129,23 @@ export default class PipAnalyzerPlugin implements GeminiPlugin {
         },
         required: ['action']
       }
-    });
+    }, (args: { action: string; file?: string }) => this.runTool(args.action, args.file));
+  }
+
+  private async runTool(action: string, file?: string): Promise<any> {
+    const report = await this.analyzeDependencies(file);
+    const details: any[] = report.analysis.details;
+
+    switch (action) {
+      case 'check-updates':
+        return { file: report.file, outdated: details.filter(detail => detail.isOutdated) };
+      case 'security-scan':
+        return { file: report.file, vulnerable: details.filter(detail => detail.securityIssues.length > 0) };
+      case 'conflict-check':
+        return { file: report.file, conflicts: report.analysis.conflicts };
+      default:
+        return report;
+    }
   }
 
   // Plugin-specific methods
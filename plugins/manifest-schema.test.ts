@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { validatePluginManifest } from './manifest-schema.js';
+
+const manifest = (fields: Record<string, unknown> = {}) => ({
+  name: 'manifest-test',
+  version: '1.0.0',
+  description: 'A plugin with a manifest',
+  author: 'Tests',
+  type: 'utility',
+  entryPoint: 'dist/index.js',
+  compatibility: { 'gemini-cli': '>=0.1.0' },
+  ...fields
+});
+
+const command = (fields: Record<string, unknown> = {}) => ({ name: 'run', description: 'Runs it', ...fields });
+const MCP_SERVER = { name: 'server', type: 'mcp-server', config: { command: 'node', args: ['server.mjs'] } };
+
+describe('validatePluginManifest', () => {
+  it('accepts a complete manifest', () => {
+    expect(validatePluginManifest(manifest({
+      dependencies: ['git-workflow@^1.0.0', '@acme/lint'],
+      permissions: [{ name: 'process', description: 'Runs the server', required: true }],
+      commands: [command({
+        options: [{ name: 'count', alias: 'c', type: 'number', default: 1 }],
+        arguments: [{ name: 'target' }, { name: 'files', variadic: true }]
+      })],
+      tools: [{ name: 'run_it', displayName: 'Run it', description: 'Runs it' }],
+      extensions: [MCP_SERVER],
+      configSchema: { properties: { apiUrl: { type: 'string', default: 'https://example.com' } }, required: ['apiUrl'] }
+    }))).toEqual([]);
+  });
+
+  it('reports schema violations with their paths', () => {
+    expect(validatePluginManifest(manifest({ name: 'Bad Name', version: 'one', entryPoint: '' }))).toEqual([
+      expect.objectContaining({ path: '$.name' }),
+      expect.objectContaining({ path: '$.version' }),
+      expect.objectContaining({ path: '$.entryPoint' })
+    ]);
+    expect(validatePluginManifest('manifest')).toHaveLength(1);
+  });
+
+  describe('duplicate names', () => {
+    it.each(['permissions', 'secrets', 'commands', 'tools', 'themes', 'extensions'])('are reported in %s', list => {
+      const errors = validatePluginManifest(manifest({ [list]: [{ name: 'same' }, { name: 'other' }, { name: 'same' }] }));
+      expect(errors).toContainEqual({ path: `$.${list}[2].name`, message: `duplicates $.${list}[0].name "same"` });
+    });
+
+    it('are reported in command options', () => {
+      const errors = validatePluginManifest(manifest({
+        commands: [command({ options: [{ name: 'force', type: 'boolean' }, { name: 'force', type: 'string' }] })]
+      }));
+      expect(errors).toEqual([{ path: '$.commands[0].options[1].name', message: 'duplicates $.commands[0].options[0].name "force"' }]);
+    });
+
+    it('are allowed across lists', () => {
+      expect(validatePluginManifest(manifest({
+        commands: [command({ name: 'same' })],
+        tools: [{ name: 'same', displayName: 'Same', description: 'Same' }]
+      }))).toEqual([]);
+    });
+  });
+
+  describe('option defaults', () => {
+    it('must match the option type', () => {
+      const errors = validatePluginManifest(manifest({
+        commands: [command({
+          options: [
+            { name: 'count', type: 'number', default: '1' },
+            { name: 'force', type: 'boolean', default: 'yes' },
+            { name: 'region', type: 'string', default: 'eu' }
+          ]
+        })]
+      }));
+      expect(errors).toEqual([
+        { path: '$.commands[0].options[0].default', message: 'must be a number to match the option type' },
+        { path: '$.commands[0].options[1].default', message: 'must be a boolean to match the option type' }
+      ]);
+    });
+  });
+
+  describe('variadic arguments', () => {
+    it('are only allowed last', () => {
+      const errors = validatePluginManifest(manifest({
+        commands: [command({ arguments: [{ name: 'files', variadic: true }, { name: 'target' }] })]
+      }));
+      expect(errors).toEqual([{ path: '$.commands[0].arguments[0].variadic', message: 'is only allowed on the last argument' }]);
+    });
+  });
+
+  describe('mcp-server extensions', () => {
+    it('require the process permission', () => {
+      expect(validatePluginManifest(manifest({ extensions: [MCP_SERVER] }))).toEqual([
+        { path: '$.permissions', message: 'must include process to run mcp-server extensions' }
+      ]);
+      expect(validatePluginManifest(manifest({
+        permissions: [{ name: 'network', description: 'Calls the API', required: true }],
+        extensions: [MCP_SERVER]
+      }))).toContainEqual({ path: '$.permissions', message: 'must include process to run mcp-server extensions' });
+    });
+
+    it('do not need it for custom extensions', () => {
+      expect(validatePluginManifest(manifest({ extensions: [{ name: 'custom', type: 'custom', config: {} }] }))).toEqual([]);
+    });
+
+    it('need a command to start', () => {
+      const errors = validatePluginManifest(manifest({
+        permissions: [{ name: 'process', description: 'Runs the server', required: true }],
+        extensions: [{ ...MCP_SERVER, config: { args: [] } }]
+      }));
+      expect(errors).toEqual([expect.objectContaining({ path: '$.extensions[0].config.command' })]);
+    });
+  });
+
+  describe('configSchema', () => {
+    it('requires keys that can become environment variables', () => {
+      const errors = validatePluginManifest(manifest({
+        configSchema: { properties: { 'api url': { type: 'string' }, '1st': { type: 'number' }, api_url: { type: 'string' } } }
+      }));
+      expect(errors.map(error => error.path)).toEqual(['$.configSchema.properties.api url', '$.configSchema.properties.1st']);
+    });
+
+    it('checks defaults against their property schema', () => {
+      const errors = validatePluginManifest(manifest({
+        configSchema: {
+          properties: {
+            retries: { type: 'integer', default: 1.5 },
+            verbose: { type: 'boolean', default: false },
+            tags: { type: 'array', items: { type: 'string' }, default: ['a', 2] }
+          }
+        }
+      }));
+      expect(errors.map(error => error.path)).toEqual(['$.configSchema.properties.retries.default', '$.configSchema.properties.tags.default[1]']);
+    });
+
+    it('requires only declared properties', () => {
+      const errors = validatePluginManifest(manifest({
+        configSchema: { properties: { apiUrl: { type: 'string' } }, required: ['apiUrl', 'token'] }
+      }));
+      expect(errors).toEqual([{ path: '$.configSchema.required[1]', message: 'names "token", which is not in properties' }]);
+    });
+
+    it('requires a type for every property', () => {
+      const errors = validatePluginManifest(manifest({ configSchema: { properties: { apiUrl: { description: 'URL' } } } }));
+      expect(errors).toEqual([expect.objectContaining({ path: '$.configSchema.properties.apiUrl.type' })]);
+    });
+  });
+});
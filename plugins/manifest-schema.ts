@@ -0,0 +1,316 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PluginType } from './plugin-interface.js';
+import { SchemaValidationError, validateSchema } from './schema-validator.js';
+import { REQUIRED_THEME_TOKENS, THEME_COLOR_PATTERN } from './theme/theme-tokens.js';
+import { MCP_SERVER_PERMISSION } from './mcp/mcp-server-manager.js';
+
+// Permissions a plugin can request; see createPrivilegedApis
+export const PLUGIN_PERMISSIONS = ['file-system', 'network', 'process', 'environment'];
+
+const NON_EMPTY_STRING = { type: 'string', minLength: 1 };
+const STRING_LIST = { type: 'array', items: { type: 'string' } };
+
+// Plugin dependencies are "name@range" specs; an object is npm's dependency map
+const DEPENDENCIES = {
+  type: ['array', 'object'],
+  items: { type: 'string', pattern: '^(@[^/\\s]+/)?[^@\\s]+(@\\S+)?$' },
+  additionalProperties: { type: 'string' }
+};
+
+const PERMISSION_SCHEMA = {
+  type: 'object',
+  required: ['name', 'description', 'required'],
+  properties: {
+    name: { type: 'string', enum: PLUGIN_PERMISSIONS },
+    description: NON_EMPTY_STRING,
+    required: { type: 'boolean' }
+  }
+};
+
+const SECRET_SCHEMA = {
+  type: 'object',
+  required: ['name', 'description'],
+  properties: {
+    name: { type: 'string', pattern: '^[A-Za-z][A-Za-z0-9_.-]*$' },
+    description: NON_EMPTY_STRING
+  }
+};
+
+const COMMAND_SCHEMA = {
+  type: 'object',
+  required: ['name', 'description'],
+  properties: {
+    // Typed as /<name>, so no whitespace or slashes
+    name: { type: 'string', pattern: '^[^\\s/]+$' },
+    description: NON_EMPTY_STRING,
+    usage: { type: 'string' },
+    examples: STRING_LIST,
+    options: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'type'],
+        properties: {
+          name: { type: 'string', pattern: '^[A-Za-z0-9][A-Za-z0-9-]*$' },
+          alias: { type: 'string', pattern: '^[A-Za-z0-9]$' },
+          type: { type: 'string', enum: ['string', 'number', 'boolean'] },
+          description: { type: 'string' },
+          default: { type: ['string', 'number', 'boolean'] },
+          required: { type: 'boolean' }
+        }
+      }
+    },
+    arguments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: NON_EMPTY_STRING,
+          description: { type: 'string' },
+          required: { type: 'boolean' },
+          variadic: { type: 'boolean' }
+        }
+      }
+    }
+  }
+};
+
+const TOOL_SCHEMA = {
+  type: 'object',
+  required: ['name', 'displayName', 'description'],
+  properties: {
+    // Models call tools by name, which limits the characters allowed
+    name: { type: 'string', pattern: '^[A-Za-z0-9_-]{1,64}$' },
+    displayName: NON_EMPTY_STRING,
+    description: NON_EMPTY_STRING,
+    parameters: {
+      type: 'object',
+      properties: {
+        type: { const: 'object' },
+        properties: { type: 'object' },
+        required: STRING_LIST
+      }
+    }
+  }
+};
+
+const THEME_SCHEMA = {
+  type: 'object',
+  required: ['name', 'displayName', 'description', 'colors'],
+  properties: {
+    name: NON_EMPTY_STRING,
+    displayName: NON_EMPTY_STRING,
+    description: { type: 'string' },
+    // Unknown tokens are reported as warnings by validateTheme
+    colors: {
+      type: 'object',
+      required: REQUIRED_THEME_TOKENS,
+      additionalProperties: { type: 'string', pattern: THEME_COLOR_PATTERN }
+    }
+  }
+};
+
+const EXTENSION_SCHEMA = {
+  type: 'object',
+  required: ['name', 'type', 'config'],
+  properties: {
+    name: NON_EMPTY_STRING,
+    type: { type: 'string', enum: ['mcp-server', 'custom'] },
+    config: { type: 'object' }
+  }
+};
+
+// Keys become GEMINI_PLUGIN_<PLUGIN>_<KEY> environment variables, so they
+// are kept to letters, digits, underscores and dashes
+const CONFIG_KEY_PATTERN = '^[A-Za-z][A-Za-z0-9_-]*$';
+
+const CONFIG_SCHEMA = {
+  type: 'object',
+  required: ['properties'],
+  properties: {
+    properties: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        required: ['type'],
+        properties: {
+          type: { type: 'string', enum: ['string', 'number', 'integer', 'boolean', 'array', 'object'] },
+          description: { type: 'string' }
+        }
+      }
+    },
+    required: STRING_LIST
+  }
+};
+
+// Config of an mcp-server extension; see McpServerConfig
+export const MCP_SERVER_CONFIG_SCHEMA = {
+  type: 'object',
+  required: ['command'],
+  properties: {
+    command: NON_EMPTY_STRING,
+    args: STRING_LIST,
+    env: { type: 'object', additionalProperties: { type: 'string' } },
+    cwd: { type: 'string' }
+  }
+};
+
+/**
+ * JSON Schema for the plugin manifest, the PluginMetadata fields of a
+ * plugin's package.json. Other package.json fields are allowed.
+ */
+export const PLUGIN_MANIFEST_SCHEMA = {
+  type: 'object',
+  required: ['name', 'version', 'description', 'author', 'type', 'entryPoint', 'compatibility'],
+  properties: {
+    name: { type: 'string', pattern: '^(@[a-z0-9-~][a-z0-9-._~]*/)?[a-z0-9-~][a-z0-9-._~]*$' },
+    version: { type: 'string', format: 'semver' },
+    description: NON_EMPTY_STRING,
+    author: NON_EMPTY_STRING,
+    repository: { type: ['string', 'object'], properties: { url: { type: 'string' } } },
+    homepage: { type: 'string', format: 'uri' },
+    license: { type: 'string' },
+    type: { type: 'string', enum: Object.values(PluginType) },
+    entryPoint: NON_EMPTY_STRING,
+    dependencies: DEPENDENCIES,
+    peerDependencies: DEPENDENCIES,
+    tags: STRING_LIST,
+    compatibility: {
+      type: 'object',
+      required: ['gemini-cli'],
+      properties: {
+        'gemini-cli': { type: 'string', format: 'semver-range' },
+        node: { type: 'string', format: 'semver-range' }
+      }
+    },
+    permissions: { type: 'array', items: PERMISSION_SCHEMA },
+    secrets: { type: 'array', items: SECRET_SCHEMA },
+    commands: { type: 'array', items: COMMAND_SCHEMA },
+    tools: { type: 'array', items: TOOL_SCHEMA },
+    themes: { type: 'array', items: THEME_SCHEMA },
+    extensions: { type: 'array', items: EXTENSION_SCHEMA },
+    configSchema: CONFIG_SCHEMA
+  }
+};
+
+/**
+ * Validates a plugin manifest and returns every problem found, each with
+ * the JSON path it applies to. Beyond the schema, names must be unique
+ * within each capability list, option and config defaults must match their
+ * type, and only the last command argument may be variadic.
+ */
+export function validatePluginManifest(manifest: unknown): SchemaValidationError[] {
+  const errors = validateSchema(PLUGIN_MANIFEST_SCHEMA, manifest);
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    return errors;
+  }
+
+  const fields = manifest as Record<string, unknown>;
+  for (const list of ['permissions', 'secrets', 'commands', 'tools', 'themes', 'extensions']) {
+    errors.push(...findDuplicateNames(fields[list], `$.${list}`));
+  }
+
+  if (Array.isArray(fields.commands)) {
+    fields.commands.forEach((command, index) => {
+      errors.push(...checkCommand(command, `$.commands[${index}]`));
+    });
+  }
+
+  if (Array.isArray(fields.extensions)) {
+    fields.extensions.forEach((extension, index) => {
+      if (extension?.type === 'mcp-server' && typeof extension.config === 'object') {
+        errors.push(...validateSchema(MCP_SERVER_CONFIG_SCHEMA, extension.config, `$.extensions[${index}].config`));
+      }
+    });
+
+    // Servers are only started with the permission, so it must be asked for
+    const runsServers = fields.extensions.some(extension => extension?.type === 'mcp-server');
+    const permissions = Array.isArray(fields.permissions) ? fields.permissions : [];
+    if (runsServers && !permissions.some(permission => permission?.name === MCP_SERVER_PERMISSION)) {
+      errors.push({ path: '$.permissions', message: `must include ${MCP_SERVER_PERMISSION} to run mcp-server extensions` });
+    }
+  }
+
+  errors.push(...checkConfigSchema(fields.configSchema, '$.configSchema'));
+
+  return errors;
+}
+
+function findDuplicateNames(list: unknown, path: string): SchemaValidationError[] {
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  const errors: SchemaValidationError[] = [];
+  const seen = new Map<string, number>();
+  list.forEach((entry, index) => {
+    const name = entry?.name;
+    if (typeof name !== 'string') {
+      return;
+    }
+    if (seen.has(name)) {
+      errors.push({ path: `${path}[${index}].name`, message: `duplicates ${path}[${seen.get(name)}].name "${name}"` });
+    } else {
+      seen.set(name, index);
+    }
+  });
+  return errors;
+}
+
+function checkCommand(command: any, path: string): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  if (Array.isArray(command?.options)) {
+    command.options.forEach((option: any, index: number) => {
+      if (option?.default !== undefined && ['string', 'number', 'boolean'].includes(option.type) &&
+          typeof option.default !== option.type) {
+        errors.push({ path: `${path}.options[${index}].default`, message: `must be a ${option.type} to match the option type` });
+      }
+    });
+    errors.push(...findDuplicateNames(command.options, `${path}.options`));
+  }
+
+  if (Array.isArray(command?.arguments)) {
+    const last = command.arguments.length - 1;
+    command.arguments.forEach((argument: any, index: number) => {
+      if (argument?.variadic && index !== last) {
+        errors.push({ path: `${path}.arguments[${index}].variadic`, message: 'is only allowed on the last argument' });
+      }
+    });
+  }
+
+  return errors;
+}
+
+function checkConfigSchema(schema: any, path: string): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  const properties = schema?.properties;
+  if (typeof properties !== 'object' || properties === null || Array.isArray(properties)) {
+    return errors;
+  }
+
+  for (const [key, property] of Object.entries<any>(properties)) {
+    if (!new RegExp(CONFIG_KEY_PATTERN).test(key)) {
+      errors.push({ path: `${path}.properties.${key}`, message: `must be named to match pattern ${CONFIG_KEY_PATTERN}` });
+    }
+    if (property?.default !== undefined) {
+      errors.push(...validateSchema(property, property.default, `${path}.properties.${key}.default`));
+    }
+  }
+
+  if (Array.isArray(schema.required)) {
+    schema.required.forEach((key: unknown, index: number) => {
+      if (typeof key === 'string' && !(key in properties)) {
+        errors.push({ path: `${path}.required[${index}]`, message: `names "${key}", which is not in properties` });
+      }
+    });
+  }
+
+  return errors;
+}
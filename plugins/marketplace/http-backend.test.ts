@@ -0,0 +1,340 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpBackendConfig, HttpMarketplaceBackend } from './http-backend.js';
+import {
+  MarketplaceAuthError,
+  MarketplaceConflictError,
+  MarketplaceError,
+  MarketplaceNetworkError,
+  MarketplaceNotFoundError,
+  MarketplaceRateLimitError,
+  MarketplaceServerError,
+  MarketplaceTimeoutError
+} from './marketplace-errors.js';
+
+describe('HttpMarketplaceBackend', () => {
+  let requested: string[];
+
+  beforeEach(() => {
+    requested = [];
+    vi.stubGlobal('fetch', async (url: string) => {
+      requested.push(url);
+      return new Response(JSON.stringify({ plugins: [], downloadUrl: 'https://example.com/p.tgz' }), { status: 200 });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const backend = () => new HttpMarketplaceBackend({ baseUrl: 'https://registry.example.com/api', retries: 0 });
+
+  it('keeps scoped plugin names in one path segment', async () => {
+    await backend().getPluginInfo('@acme/search');
+    await backend().getPluginStats('@acme/search');
+    await backend().getDownloadUrl('@acme/search', '^1.0.0');
+
+    expect(requested).toEqual([
+      'https://registry.example.com/api/plugins/%40acme%2Fsearch',
+      'https://registry.example.com/api/plugins/%40acme%2Fsearch/stats',
+      'https://registry.example.com/api/plugins/%40acme%2Fsearch/download?version=%5E1.0.0'
+    ]);
+  });
+
+  it('encodes tags with spaces and query characters', async () => {
+    await backend().getByTag('code review?', 5);
+
+    expect(requested).toEqual(['https://registry.example.com/api/tags/code%20review%3F?limit=5']);
+  });
+
+  it('does not let a crafted name reach another endpoint', async () => {
+    await backend().getPluginInfo('../admin');
+
+    expect(requested).toEqual(['https://registry.example.com/api/plugins/..%2Fadmin']);
+  });
+});
+
+describe('HttpMarketplaceBackend failures', () => {
+  const BASE_URL = 'https://registry.example.com/api';
+
+  // Answers each request with the next response; an Error is thrown the way
+  // fetch() throws, with the real reason as its cause
+  const respond = (...responses: Array<Response | Error>) => {
+    const fetchStub = vi.fn(async () => {
+      const next = responses.shift();
+      if (!next) {
+        throw new Error('Unexpected request');
+      }
+      if (next instanceof Error) {
+        throw new TypeError('fetch failed', { cause: next });
+      }
+      return next;
+    });
+    vi.stubGlobal('fetch', fetchStub);
+    return fetchStub;
+  };
+
+  const status = (code: number, headers: Record<string, string> = {}) =>
+    new Response(code === 200 ? JSON.stringify({ plugins: [] }) : null, { status: code, headers });
+
+  const backend = (config: Partial<HttpBackendConfig> = {}) =>
+    new HttpMarketplaceBackend({ baseUrl: BASE_URL, retryDelay: 1, ...config });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('retries', () => {
+    it('retries server errors, rate limits and network errors on GET', async () => {
+      const fetchStub = respond(status(503), status(429), new Error('ECONNRESET'), status(200));
+
+      expect(await backend().search('lint')).toEqual([]);
+      expect(fetchStub).toHaveBeenCalledTimes(4);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+      const fetchStub = respond(status(500), status(502), status(503));
+
+      await expect(backend({ retries: 2 }).search('lint')).rejects.toMatchObject({ name: 'MarketplaceServerError', status: 503 });
+      expect(fetchStub).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry client errors', async () => {
+      const fetchStub = respond(status(400));
+
+      await expect(backend().search('lint')).rejects.toThrow('HTTP 400');
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry requests that are not GETs', async () => {
+      const fetchStub = respond(status(503));
+
+      await expect(backend().submitRating('lint', 5)).rejects.toBeInstanceOf(MarketplaceServerError);
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits as long as Retry-After asks', async () => {
+      respond(status(429, { 'Retry-After': '0' }), status(200));
+      expect(await backend({ retryDelay: 60000 }).search('lint')).toEqual([]);
+    });
+
+    it('reports a Retry-After beyond the longest wait instead of sleeping', async () => {
+      const fetchStub = respond(status(429, { 'Retry-After': '120' }));
+
+      await expect(backend().search('lint')).rejects.toMatchObject({ name: 'MarketplaceRateLimitError', retryAfter: 120000 });
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('backoff', () => {
+    it('doubles the delay per attempt with jitter in [d/2, d)', () => {
+      const getBackoff = (attempt: number) => backend({ retryDelay: 100 })['getBackoff'](attempt);
+
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      expect([0, 1, 2].map(getBackoff)).toEqual([50, 100, 200]);
+
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      expect([0, 1, 2].map(getBackoff)).toEqual([75, 150, 300]);
+    });
+
+    it('caps the delay at 30 seconds', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+      expect(backend({ retryDelay: 500 })['getBackoff'](20)).toBeLessThan(30000);
+      expect(backend({ retryDelay: 500 })['getBackoff'](20)).toBeGreaterThan(29999);
+    });
+  });
+
+  describe('Retry-After', () => {
+    const parseRetryAfter = (value: string | null) => backend()['parseRetryAfter'](value);
+
+    it('reads delta-seconds', () => {
+      expect(parseRetryAfter('5')).toBe(5000);
+      expect(parseRetryAfter(' 0 ')).toBe(0);
+    });
+
+    it('reads an HTTP date as the time left until then', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 01 Jan 2025 00:00:00 GMT'));
+
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30000);
+      expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT')).toBe(0);
+    });
+
+    it('ignores a missing or malformed header', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('error types', () => {
+    it.each([
+      [401, MarketplaceAuthError],
+      [403, MarketplaceAuthError],
+      [404, MarketplaceNotFoundError],
+      [409, MarketplaceConflictError],
+      [429, MarketplaceRateLimitError],
+      [500, MarketplaceServerError],
+      [503, MarketplaceServerError]
+    ])('maps HTTP %i to %o', async (code, errorClass) => {
+      respond(status(code));
+
+      const error = await backend({ retries: 0 }).search('lint').catch(caught => caught);
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toMatchObject({ message: `HTTP ${code}: `, url: expect.stringContaining(`${BASE_URL}/search?`) });
+    });
+
+    it('maps other statuses to the base error', async () => {
+      respond(status(418));
+
+      const error = await backend().search('lint').catch(caught => caught);
+      expect(error.constructor).toBe(MarketplaceError);
+    });
+
+    it('reports the cause of a network error', async () => {
+      respond(new Error('getaddrinfo ENOTFOUND registry.example.com'));
+
+      await expect(backend({ retries: 0 }).search('lint')).rejects.toThrow(
+        new MarketplaceNetworkError('getaddrinfo ENOTFOUND registry.example.com')
+      );
+    });
+
+    it('reports a request that exceeds the timeout', async () => {
+      vi.stubGlobal('fetch', (_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      }));
+
+      const error = await backend({ retries: 0, timeout: 10 }).search('lint').catch(caught => caught);
+      expect(error).toBeInstanceOf(MarketplaceTimeoutError);
+      expect(error).toMatchObject({ timeout: 10, message: 'Request timed out after 10ms' });
+    });
+
+    it('answers null for a plugin the registry does not have', async () => {
+      respond(status(404));
+      expect(await backend().getPluginInfo('missing')).toBeNull();
+    });
+
+    it('requires an API token to publish', async () => {
+      const fetchStub = respond();
+
+      await expect(backend().publish({
+        manifest: { name: 'lint', version: '1.0.0' },
+        tarball: Buffer.from('')
+      } as unknown as Parameters<HttpMarketplaceBackend['publish']>[0])).rejects.toBeInstanceOf(MarketplaceAuthError);
+      expect(fetchStub).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('HttpMarketplaceBackend caching', () => {
+  let cacheDir: string;
+  let requests: Array<{ url: string; headers: Record<string, string> }>;
+  let responses: Array<Response | Error>;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'http-backend-cache-'));
+    requests = [];
+    responses = [];
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      requests.push({ url, headers: init.headers as Record<string, string> });
+      const next = responses.shift();
+      if (!next || next instanceof Error) {
+        throw new TypeError('fetch failed', { cause: next || new Error('Unexpected request') });
+      }
+      return next;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const backend = () => new HttpMarketplaceBackend({
+    baseUrl: 'https://registry.example.com/api',
+    cacheDir,
+    cacheTtl: 1000,
+    retries: 0
+  });
+
+  const plugins = (...names: string[]) =>
+    new Response(JSON.stringify({ plugins: names.map(name => ({ name })) }), { status: 200, headers: { ETag: `"${names.join()}"` } });
+
+  it('serves a fresh response without a request', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(0);
+    responses.push(plugins('lint'));
+    await backend().getPopular(5);
+
+    const cached = backend();
+    expect(await cached.getPopular(5)).toEqual([{ name: 'lint' }]);
+    expect(requests).toHaveLength(1);
+    expect(cached.getCacheStatus()).toEqual({ stale: false, storedAt: new Date(0).toISOString() });
+  });
+
+  it('revalidates an expired response with its ETag and keeps it on 304', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    responses.push(plugins('lint'));
+    await backend().getPopular(5);
+
+    now.mockReturnValue(1000);
+    responses.push(new Response(null, { status: 304 }));
+    const revalidated = backend();
+    expect(await revalidated.getPopular(5)).toEqual([{ name: 'lint' }]);
+    expect(requests[1].headers['If-None-Match']).toBe('"lint"');
+    expect(revalidated.getCacheStatus()).toEqual({ stale: false, storedAt: new Date(1000).toISOString() });
+
+    // The 304 restarted the TTL
+    now.mockReturnValue(1999);
+    await backend().getPopular(5);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('replaces an expired response the registry changed', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    responses.push(plugins('lint'), plugins('lint', 'format'));
+    await backend().getPopular(5);
+
+    now.mockReturnValue(1000);
+    expect(await backend().getPopular(5)).toEqual([{ name: 'lint' }, { name: 'format' }]);
+    expect(backend().getCacheStatus()).toBeNull();
+  });
+
+  it('serves an expired response as stale when the registry is unreachable', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    responses.push(plugins('lint'));
+    await backend().getPopular(5);
+
+    now.mockReturnValue(5000);
+    responses.push(new Error('ECONNREFUSED'));
+    const offline = backend();
+    expect(await offline.getPopular(5)).toEqual([{ name: 'lint' }]);
+    expect(offline.getCacheStatus()).toEqual({ stale: true, storedAt: new Date(0).toISOString() });
+
+    responses.push(new Response(null, { status: 503 }));
+    expect(await offline.getPopular(5)).toEqual([{ name: 'lint' }]);
+    expect(offline.getCacheStatus()?.stale).toBe(true);
+  });
+
+  it('does not hide errors that are not transient behind the cache', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    responses.push(plugins('lint'));
+    await backend().getPopular(5);
+
+    now.mockReturnValue(5000);
+    responses.push(new Response(null, { status: 401 }));
+    await expect(backend().getPopular(5)).rejects.toBeInstanceOf(MarketplaceAuthError);
+  });
+
+  it('throws when the registry is unreachable and nothing is cached', async () => {
+    responses.push(new Error('ECONNREFUSED'));
+    await expect(backend().getPopular(5)).rejects.toBeInstanceOf(MarketplaceNetworkError);
+  });
+});
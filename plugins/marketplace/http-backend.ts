@@ -0,0 +1,307 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PluginMarketplaceInfo, PluginSearchResult } from '../plugin-interface.js';
+import { CacheStatus, MarketplaceBackend, MarketplaceSearchOptions, PluginStats, PublishRequest } from './marketplace-backend.js';
+import {
+  MarketplaceAuthError,
+  MarketplaceConflictError,
+  MarketplaceError,
+  MarketplaceNetworkError,
+  MarketplaceNotFoundError,
+  MarketplaceRateLimitError,
+  MarketplaceServerError,
+  MarketplaceTimeoutError
+} from './marketplace-errors.js';
+import { CachedResponse, ResponseCache } from './response-cache.js';
+
+export interface HttpBackendConfig {
+  baseUrl: string;
+  apiKey?: string;
+  timeout?: number;
+  // Directory for cached GET responses; caching is off without it
+  cacheDir?: string;
+  // Milliseconds a cached response is used without revalidation
+  cacheTtl?: number;
+  // Extra attempts for failed GETs, and the base delay between them
+  retries?: number;
+  retryDelay?: number;
+}
+
+export const DEFAULT_CACHE_TTL = 10 * 60 * 1000;
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_RETRY_DELAY = 500;
+
+// Longest we sleep between attempts; a longer Retry-After is reported instead
+const MAX_RETRY_DELAY = 30 * 1000;
+
+/**
+ * Marketplace served by the plugin registry REST API. GET responses are
+ * cached on disk: fresh entries are served without a request, expired ones
+ * are revalidated with their ETag, and when the registry cannot be reached
+ * the cached copy is served and reported as stale.
+ *
+ * Failures are thrown as MarketplaceError subclasses. GETs are idempotent,
+ * so network errors, timeouts, 429s and 5xx responses are retried with
+ * exponential backoff and jitter, honouring Retry-After on 429.
+ */
+export class HttpMarketplaceBackend implements MarketplaceBackend {
+  private config: HttpBackendConfig;
+  private cache?: ResponseCache;
+  private cacheStatus: CacheStatus | null = null;
+
+  constructor(config: HttpBackendConfig) {
+    // Settings may carry explicit undefineds, so defaults can't come from a spread
+    this.config = {
+      ...config,
+      timeout: config.timeout ?? 30000,
+      retries: config.retries ?? DEFAULT_RETRIES,
+      retryDelay: config.retryDelay ?? DEFAULT_RETRY_DELAY
+    };
+    if (this.config.cacheDir) {
+      this.cache = new ResponseCache(this.config.cacheDir, this.config.cacheTtl ?? DEFAULT_CACHE_TTL);
+    }
+  }
+
+  getCacheStatus(): CacheStatus | null {
+    return this.cacheStatus;
+  }
+
+  async search(query: string, options?: MarketplaceSearchOptions): Promise<PluginSearchResult[]> {
+    const params = new URLSearchParams({
+      q: query,
+      limit: (options?.limit || 20).toString(),
+      offset: (options?.offset || 0).toString(),
+      sortBy: options?.sortBy || 'relevance',
+      sortOrder: options?.sortOrder || (options?.sortBy === 'name' ? 'asc' : 'desc')
+    });
+
+    if (options?.tags) {
+      options.tags.forEach(tag => params.append('tags', tag));
+    }
+
+    if (options?.type) {
+      params.append('type', options.type);
+    }
+
+    const response = await this.request(`/search?${params.toString()}`);
+    return response.plugins || [];
+  }
+
+  async getPluginInfo(pluginName: string): Promise<PluginMarketplaceInfo | null> {
+    return await this.requestOrNull(`/plugins/${encodeURIComponent(pluginName)}`);
+  }
+
+  async getPopular(limit: number): Promise<PluginSearchResult[]> {
+    const response = await this.request(`/popular?limit=${limit}`);
+    return response.plugins || [];
+  }
+
+  async getRecent(limit: number): Promise<PluginSearchResult[]> {
+    const response = await this.request(`/recent?limit=${limit}`);
+    return response.plugins || [];
+  }
+
+  async getByTag(tag: string, limit: number): Promise<PluginSearchResult[]> {
+    const response = await this.request(`/tags/${encodeURIComponent(tag)}?limit=${limit}`);
+    return response.plugins || [];
+  }
+
+  async getPluginStats(pluginName: string): Promise<PluginStats | null> {
+    return await this.requestOrNull(`/plugins/${encodeURIComponent(pluginName)}/stats`);
+  }
+
+  async getDownloadUrl(pluginName: string, version?: string): Promise<string | null> {
+    const versionParam = version ? `?version=${encodeURIComponent(version)}` : '';
+    const response = await this.request(`/plugins/${encodeURIComponent(pluginName)}/download${versionParam}`);
+    return response.downloadUrl || null;
+  }
+
+  async submitRating(pluginName: string, rating: number, review?: string): Promise<void> {
+    await this.request(`/plugins/${encodeURIComponent(pluginName)}/rate`, {
+      method: 'POST',
+      body: JSON.stringify({ rating, review })
+    });
+  }
+
+  /**
+   * Uploads a packed plugin version. Publishing always needs an API token;
+   * the registry answers 409 for a version it already has.
+   */
+  async publish(request: PublishRequest): Promise<void> {
+    const { name, version } = request.manifest;
+    // Scoped names and odd versions must stay one path segment each
+    const endpoint = `/plugins/${encodeURIComponent(name)}/versions/${encodeURIComponent(version)}`;
+    if (!this.config.apiKey) {
+      throw new MarketplaceAuthError(401, 'Publishing requires an API token', `${this.config.baseUrl}${endpoint}`);
+    }
+
+    await this.request(endpoint, {
+      method: 'PUT',
+      body: JSON.stringify({
+        metadata: request.metadata,
+        manifest: request.manifest,
+        readme: request.readme,
+        tarball: request.tarball.toString('base64')
+      })
+    });
+  }
+
+  // A 404 for a single plugin is an answer, not a failure
+  private async requestOrNull(endpoint: string): Promise<any> {
+    try {
+      return await this.request(endpoint);
+    } catch (error) {
+      if (error instanceof MarketplaceNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async request(endpoint: string, options?: {
+    method?: string;
+    body?: string;
+  }): Promise<any> {
+    const url = `${this.config.baseUrl}${endpoint}`;
+    const method = options?.method || 'GET';
+    const cached = method === 'GET' ? this.cache?.get(url) : undefined;
+    this.cacheStatus = null;
+
+    if (cached && this.cache!.isFresh(cached)) {
+      return this.fromCache(cached, false);
+    }
+
+    let response: Response;
+    try {
+      response = await this.send(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
+          ...(cached?.etag && { 'If-None-Match': cached.etag })
+        },
+        body: options?.body
+      }, method === 'GET');
+    } catch (error) {
+      // Registry unreachable or failing: fall back to whatever we have
+      if (cached && this.isTransient(error)) {
+        return this.fromCache(cached, true);
+      }
+      throw error;
+    }
+
+    if (response.status === 304 && cached) {
+      return this.fromCache(this.cache!.touch(cached), false);
+    }
+
+    // Uploads may be acknowledged without a body
+    const text = await response.text();
+    const body = text ? JSON.parse(text) : null;
+    if (method === 'GET') {
+      this.cache?.set(url, body, response.headers.get('etag') || undefined);
+    }
+    return body;
+  }
+
+  private async send(url: string, init: RequestInit, retryable: boolean): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let error: MarketplaceError;
+      try {
+        const response = await this.fetchWithTimeout(url, init);
+        if (response.ok || response.status === 304) {
+          return response;
+        }
+        error = this.toHttpError(response, url);
+      } catch (fetchError) {
+        if (!(fetchError instanceof MarketplaceError)) {
+          throw fetchError;
+        }
+        error = fetchError;
+      }
+
+      if (!retryable || attempt >= this.config.retries! || !this.isTransient(error)) {
+        throw error;
+      }
+
+      const delay = error instanceof MarketplaceRateLimitError && error.retryAfter !== undefined
+        ? error.retryAfter
+        : this.getBackoff(attempt);
+      if (delay > MAX_RETRY_DELAY) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  private isTransient(error: unknown): boolean {
+    return error instanceof MarketplaceNetworkError ||
+      error instanceof MarketplaceTimeoutError ||
+      error instanceof MarketplaceRateLimitError ||
+      error instanceof MarketplaceServerError;
+  }
+
+  // Exponential backoff with jitter: a random delay in [d/2, d) for d = base * 2^attempt
+  private getBackoff(attempt: number): number {
+    const delay = Math.min(this.config.retryDelay! * 2 ** attempt, MAX_RETRY_DELAY);
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
+  private toHttpError(response: Response, url: string): MarketplaceError {
+    const message = `HTTP ${response.status}: ${response.statusText}`;
+    if (response.status === 401 || response.status === 403) {
+      return new MarketplaceAuthError(response.status, message, url);
+    }
+    if (response.status === 404) {
+      return new MarketplaceNotFoundError(message, url);
+    }
+    if (response.status === 409) {
+      return new MarketplaceConflictError(message, url);
+    }
+    if (response.status === 429) {
+      return new MarketplaceRateLimitError(message, this.parseRetryAfter(response.headers.get('retry-after')), url);
+    }
+    if (response.status >= 500) {
+      return new MarketplaceServerError(response.status, message, url);
+    }
+    return new MarketplaceError(message, url);
+  }
+
+  // Retry-After is either delta-seconds or an HTTP date
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value, 10) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private fromCache(entry: CachedResponse, stale: boolean): any {
+    this.cacheStatus = { stale, storedAt: new Date(entry.storedAt).toISOString() };
+    return entry.body;
+  }
+
+  private async fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new MarketplaceTimeoutError(this.config.timeout!, url);
+      }
+      // fetch() reports "fetch failed"; the cause says what actually went wrong
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      throw new MarketplaceNetworkError(cause instanceof Error ? cause.message : String(cause), url);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalMarketplaceBackend } from './local-backend.js';
+import { MarketplaceConflictError, MarketplaceError } from './marketplace-errors.js';
+import { PublishRequest } from './marketplace-backend.js';
+import { PluginType } from '../plugin-interface.js';
+import { packPlugin } from '../plugin-packer.js';
+
+const record = (name: string, fields: Record<string, unknown> = {}) => ({
+  name,
+  version: '1.0.0',
+  description: `${name} plugin`,
+  author: 'Tests',
+  ...fields
+});
+
+describe('LocalMarketplaceBackend index', () => {
+  let indexDir: string;
+
+  beforeEach(() => {
+    indexDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-backend-index-'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(indexDir, { recursive: true, force: true });
+  });
+
+  it('reads single records, arrays and ndjson lines', async () => {
+    fs.writeFileSync(path.join(indexDir, 'single.json'), JSON.stringify(record('single')));
+    fs.writeFileSync(path.join(indexDir, 'array.json'), JSON.stringify([record('first'), record('second')]));
+    fs.writeFileSync(path.join(indexDir, 'lines.ndjson'), `${JSON.stringify(record('line'))}\n\n`);
+    fs.writeFileSync(path.join(indexDir, 'notes.txt'), JSON.stringify(record('ignored')));
+
+    const names = (await new LocalMarketplaceBackend(indexDir).search('', { limit: 10 })).map(result => result.name);
+    expect(names.sort()).toEqual(['first', 'line', 'second', 'single']);
+  });
+
+  it('fills in listing fields a catalog leaves out', async () => {
+    fs.writeFileSync(path.join(indexDir, 'index.json'), JSON.stringify(record('bare')));
+
+    expect(await new LocalMarketplaceBackend(indexDir).search('bare')).toMatchObject([
+      { name: 'bare', tags: [], downloads: 0, rating: 0, type: PluginType.UTILITY }
+    ]);
+  });
+
+  it('keeps the highest version of a plugin', async () => {
+    fs.writeFileSync(path.join(indexDir, 'a.json'), JSON.stringify(record('tool', { version: '1.10.0' })));
+    fs.writeFileSync(path.join(indexDir, 'b.ndjson'), [
+      JSON.stringify(record('tool', { version: '1.9.0' })),
+      JSON.stringify(record('tool', { version: '1.2.0' }))
+    ].join('\n'));
+
+    expect((await new LocalMarketplaceBackend(indexDir).getPluginInfo('tool'))?.version).toBe('1.10.0');
+  });
+
+  it('skips unreadable and invalid records', async () => {
+    fs.writeFileSync(path.join(indexDir, 'broken.json'), '{ not json');
+    fs.writeFileSync(path.join(indexDir, 'lines.ndjson'), [
+      JSON.stringify(record('good')),
+      '{ not json',
+      JSON.stringify({ name: 'no-version', description: 'missing version' })
+    ].join('\n'));
+
+    const backend = new LocalMarketplaceBackend(indexDir);
+    expect((await backend.search('', { limit: 10 })).map(result => result.name)).toEqual(['good']);
+    expect(await backend.getPluginInfo('no-version')).toBeNull();
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips records whose listing fields have the wrong type', async () => {
+    fs.writeFileSync(path.join(indexDir, 'index.json'), JSON.stringify([
+      record('string-tags', { tags: 'git' }),
+      record('number-tags', { tags: [1] }),
+      record('string-downloads', { downloads: '100' }),
+      record('null-rating', { rating: null }),
+      record('typed', { tags: ['git'], downloads: 100, rating: 4.5 })
+    ]));
+
+    const backend = new LocalMarketplaceBackend(indexDir);
+    expect((await backend.search('', { limit: 10 })).map(result => result.name)).toEqual(['typed']);
+    expect((await backend.search('', { tags: ['git'] })).map(result => result.name)).toEqual(['typed']);
+    expect(console.warn).toHaveBeenCalledTimes(4);
+  });
+
+  it('filters searches by query, type and tags', async () => {
+    fs.writeFileSync(path.join(indexDir, 'index.json'), JSON.stringify([
+      record('git-helper', { type: PluginType.TOOL, tags: ['git', 'vcs'] }),
+      record('git-theme', { type: PluginType.THEME, tags: ['git'] }),
+      record('docker-helper', { type: PluginType.TOOL, tags: ['containers'] })
+    ]));
+    const backend = new LocalMarketplaceBackend(indexDir);
+    const search = async (query: string, options = {}) => (await backend.search(query, options)).map(result => result.name).sort();
+
+    expect(await search('git')).toEqual(['git-helper', 'git-theme']);
+    expect(await search('', { type: PluginType.TOOL })).toEqual(['docker-helper', 'git-helper']);
+    expect(await search('', { tags: ['git', 'vcs'] })).toEqual(['git-helper']);
+    expect((await backend.getByTag('git', 10)).map(result => result.name).sort()).toEqual(['git-helper', 'git-theme']);
+  });
+
+  it('reports a missing index directory', async () => {
+    const backend = new LocalMarketplaceBackend(path.join(indexDir, 'missing'));
+
+    await expect(backend.search('anything')).rejects.toThrow(MarketplaceError);
+    await expect(backend.getPluginInfo('anything')).rejects.toThrow('Marketplace index directory not found');
+  });
+});
+
+describe('LocalMarketplaceBackend publish', () => {
+  let tempDir: string;
+  let indexDir: string;
+  let projectDir: string;
+
+  const pack = async (version = '1.0.0'): Promise<PublishRequest> => {
+    fs.writeFileSync(path.join(projectDir, 'package.json'), JSON.stringify({
+      name: '@acme/publish-test',
+      version,
+      description: 'A plugin to publish',
+      author: 'Tests',
+      type: 'tool',
+      entryPoint: 'index.js',
+      tags: ['testing'],
+      compatibility: { 'gemini-cli': '>=0.1.0' }
+    }));
+    const result = await packPlugin(projectDir, { skipBuild: true, outDir: path.join(tempDir, 'out') });
+    const { metadata, manifest, readme, tarballPath } = result.packed!;
+    return { metadata, manifest, readme, tarball: fs.readFileSync(tarballPath) };
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-backend-publish-'));
+    indexDir = path.join(tempDir, 'index');
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(indexDir);
+    fs.mkdirSync(projectDir);
+    fs.writeFileSync(path.join(projectDir, 'index.js'), 'export default class {}');
+    fs.writeFileSync(path.join(projectDir, 'README.md'), '# Publish test');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists a packed and published plugin with its tarball', async () => {
+    const request = await pack();
+    await new LocalMarketplaceBackend(indexDir).publish(request);
+
+    // A fresh backend reads what was published from disk
+    const backend = new LocalMarketplaceBackend(indexDir);
+    const info = await backend.getPluginInfo('@acme/publish-test');
+    expect(info).toMatchObject({
+      name: '@acme/publish-test',
+      version: '1.0.0',
+      readme: '# Publish test',
+      dist: { checksum: request.manifest.checksum, contentHash: request.manifest.contentHash }
+    });
+
+    const tarball = fs.readFileSync(path.join(indexDir, info!.dist!.tarball));
+    expect(`sha512-${crypto.createHash('sha512').update(tarball).digest('base64')}`).toBe(request.manifest.checksum);
+    expect((await backend.search('publish')).map(result => result.name)).toEqual(['@acme/publish-test']);
+  });
+
+  it('serves the newest published version', async () => {
+    const backend = new LocalMarketplaceBackend(indexDir);
+    await backend.publish(await pack('1.0.0'));
+    await backend.publish(await pack('1.1.0'));
+
+    expect((await backend.getPluginInfo('@acme/publish-test'))?.version).toBe('1.1.0');
+  });
+
+  it('refuses to publish a version twice', async () => {
+    const backend = new LocalMarketplaceBackend(indexDir);
+    await backend.publish(await pack());
+
+    await expect(backend.publish(await pack())).rejects.toBeInstanceOf(MarketplaceConflictError);
+  });
+
+  it.each([['../../escaped.tgz'], ['/tmp/escaped.tgz'], ['..']])('refuses a tarball name outside packages/: %s', async tarball => {
+    const request = await pack();
+    request.manifest = { ...request.manifest, tarball };
+
+    await expect(new LocalMarketplaceBackend(indexDir).publish(request)).rejects.toThrow('must stay inside packages/');
+    expect(fs.existsSync(path.join(tempDir, 'escaped.tgz'))).toBe(false);
+    expect(fs.existsSync(path.join(indexDir, 'published.ndjson'))).toBe(false);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as semver from 'semver';
+import { PluginMarketplaceInfo, PluginSearchResult, PluginType } from '../plugin-interface.js';
+import { MarketplaceBackend, MarketplaceSearchOptions, PluginStats, PublishRequest, sortListings } from './marketplace-backend.js';
+import { MarketplaceConflictError, MarketplaceError } from './marketplace-errors.js';
+import { orderSearchResults } from './search-ranking.js';
+import { isInsideDir } from '../plugin-packer.js';
+
+// Where `plugins publish` adds records and tarballs
+const PUBLISHED_INDEX = 'published.ndjson';
+const PACKAGES_DIR = 'packages';
+
+/**
+ * Marketplace read from a directory of PluginMarketplaceInfo records, e.g.
+ * an internal catalog on a file share. `*.json` files hold one record or an
+ * array of records; `*.ndjson` files hold one record per line. When several
+ * records share a name, the highest version wins.
+ *
+ * Published plugins are appended to published.ndjson with their tarballs
+ * under packages/. There is no token check: write access to the directory
+ * is what allows publishing to it.
+ */
+export class LocalMarketplaceBackend implements MarketplaceBackend {
+  private indexDir: string;
+  private records: Map<string, PluginMarketplaceInfo> | null = null;
+  // Every name@version in the index, not just the latest of each plugin
+  private versions = new Set<string>();
+
+  constructor(indexDir: string) {
+    this.indexDir = indexDir;
+  }
+
+  async search(query: string, options: MarketplaceSearchOptions = {}): Promise<PluginSearchResult[]> {
+    const filtered = this.getRecords()
+      .filter(plugin => !options.type || this.getType(plugin) === options.type)
+      .filter(plugin => !options.tags || options.tags.every(tag => plugin.tags.includes(tag)));
+
+    const sorted = orderSearchResults(query, filtered, options);
+    const offset = options.offset || 0;
+    return sorted.slice(offset, offset + (options.limit || 20)).map(plugin => this.toSearchResult(plugin));
+  }
+
+  async getPluginInfo(pluginName: string): Promise<PluginMarketplaceInfo | null> {
+    this.load();
+    return this.records!.get(pluginName) || null;
+  }
+
+  async getPopular(limit: number): Promise<PluginSearchResult[]> {
+    return sortListings(this.getRecords(), 'downloads', 'desc')
+      .slice(0, limit)
+      .map(plugin => this.toSearchResult(plugin));
+  }
+
+  async getRecent(limit: number): Promise<PluginSearchResult[]> {
+    return sortListings(this.getRecords(), 'updated', 'desc')
+      .slice(0, limit)
+      .map(plugin => this.toSearchResult(plugin));
+  }
+
+  async getByTag(tag: string, limit: number): Promise<PluginSearchResult[]> {
+    return this.getRecords()
+      .filter(plugin => plugin.tags.includes(tag))
+      .slice(0, limit)
+      .map(plugin => this.toSearchResult(plugin));
+  }
+
+  async getPluginStats(pluginName: string): Promise<PluginStats | null> {
+    const plugin = await this.getPluginInfo(pluginName);
+    if (!plugin) {
+      return null;
+    }
+    return { downloads: plugin.downloads, rating: plugin.rating, reviewCount: 0, lastUpdated: plugin.lastUpdated };
+  }
+
+  async publish(request: PublishRequest): Promise<void> {
+    const { metadata, manifest } = request;
+    this.load();
+    if (this.versions.has(`${manifest.name}@${manifest.version}`)) {
+      throw new MarketplaceConflictError(`${manifest.name}@${manifest.version} is already published`);
+    }
+
+    // The manifest comes from the publisher, so it may not pick where to write
+    if (typeof manifest.tarball !== 'string' || !isInsideDir(path.join(this.indexDir, PACKAGES_DIR), manifest.tarball)) {
+      throw new MarketplaceError(`Invalid tarball name ${JSON.stringify(manifest.tarball)}: it must stay inside ${PACKAGES_DIR}/`);
+    }
+
+    const tarball = path.join(PACKAGES_DIR, manifest.tarball);
+    fs.mkdirSync(path.join(this.indexDir, PACKAGES_DIR), { recursive: true });
+    try {
+      // wx refuses to replace a tarball left by a publish racing this one
+      fs.writeFileSync(path.join(this.indexDir, tarball), request.tarball, { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new MarketplaceConflictError(`${manifest.name}@${manifest.version} is already published`);
+      }
+      throw error;
+    }
+
+    const record: PluginMarketplaceInfo = {
+      name: manifest.name,
+      version: manifest.version,
+      description: metadata.description,
+      author: metadata.author,
+      type: metadata.type,
+      repository: metadata.repository || '',
+      homepage: metadata.homepage,
+      license: metadata.license || '',
+      downloads: 0,
+      rating: 0,
+      tags: metadata.tags || [],
+      lastUpdated: new Date().toISOString(),
+      readme: request.readme,
+      dependencies: metadata.dependencies || [],
+      compatibility: {
+        'gemini-cli': metadata.compatibility['gemini-cli'],
+        node: metadata.compatibility.node || '*'
+      },
+      dist: {
+        tarball: tarball.split(path.sep).join('/'),
+        checksum: manifest.checksum,
+        contentHash: manifest.contentHash
+      }
+    };
+    fs.appendFileSync(path.join(this.indexDir, PUBLISHED_INDEX), JSON.stringify(record) + '\n');
+    this.records = null;
+  }
+
+  private getRecords(): PluginMarketplaceInfo[] {
+    this.load();
+    return Array.from(this.records!.values());
+  }
+
+  private load(): void {
+    if (this.records) {
+      return;
+    }
+
+    if (!fs.existsSync(this.indexDir)) {
+      throw new MarketplaceError(`Marketplace index directory not found: ${this.indexDir}`);
+    }
+
+    const records = new Map<string, PluginMarketplaceInfo>();
+    this.versions.clear();
+    const files = fs.readdirSync(this.indexDir).filter(file => file.endsWith('.json') || file.endsWith('.ndjson')).sort();
+
+    for (const file of files) {
+      for (const record of this.readIndexFile(path.join(this.indexDir, file))) {
+        this.versions.add(`${record.name}@${record.version}`);
+        const existing = records.get(record.name);
+        if (!existing || this.isNewer(record.version, existing.version)) {
+          records.set(record.name, record);
+        }
+      }
+    }
+
+    this.records = records;
+  }
+
+  private readIndexFile(file: string): PluginMarketplaceInfo[] {
+    const content = fs.readFileSync(file, 'utf-8');
+    const entries: Array<{ record: unknown; location: string }> = [];
+
+    if (file.endsWith('.ndjson')) {
+      // A bad line only loses that record
+      content.split('\n').forEach((line, index) => {
+        if (!line.trim()) {
+          return;
+        }
+        try {
+          entries.push({ record: JSON.parse(line), location: `${file}:${index + 1}` });
+        } catch (error) {
+          console.warn(`Skipping unreadable marketplace record in ${file}:${index + 1}:`, error instanceof Error ? error.message : String(error));
+        }
+      });
+    } else {
+      try {
+        const parsed = JSON.parse(content);
+        for (const record of Array.isArray(parsed) ? parsed : [parsed]) {
+          entries.push({ record, location: file });
+        }
+      } catch (error) {
+        console.warn(`Skipping unreadable marketplace index ${file}:`, error instanceof Error ? error.message : String(error));
+        return [];
+      }
+    }
+
+    const records: PluginMarketplaceInfo[] = [];
+    for (const { record, location } of entries) {
+      if (this.isValidRecord(record)) {
+        // Listing fields a hand-written catalog may leave out
+        records.push({
+          ...record,
+          tags: record.tags || [],
+          downloads: record.downloads || 0,
+          rating: record.rating || 0
+        });
+      } else {
+        console.warn(`Skipping invalid marketplace record in ${location}: name, version and description are required; tags must be strings, downloads and rating numbers`);
+      }
+    }
+    return records;
+  }
+
+  private isValidRecord(record: unknown): record is PluginMarketplaceInfo {
+    if (typeof record !== 'object' || record === null) {
+      return false;
+    }
+    const fields = record as Record<string, unknown>;
+    // Optional listing fields are defaulted when missing but must have the
+    // right type when present, since search and filters rely on them
+    return typeof fields.name === 'string' &&
+      typeof fields.version === 'string' &&
+      typeof fields.description === 'string' &&
+      (fields.tags === undefined || (Array.isArray(fields.tags) && fields.tags.every(tag => typeof tag === 'string'))) &&
+      (fields.downloads === undefined || Number.isFinite(fields.downloads)) &&
+      (fields.rating === undefined || Number.isFinite(fields.rating));
+  }
+
+  private isNewer(candidate: string, current: string): boolean {
+    return semver.valid(candidate) !== null && semver.valid(current) !== null
+      ? semver.gt(candidate, current)
+      : candidate > current;
+  }
+
+  private getType(plugin: PluginMarketplaceInfo): PluginType {
+    return plugin.type || PluginType.UTILITY;
+  }
+
+  private toSearchResult(plugin: PluginMarketplaceInfo): PluginSearchResult {
+    return {
+      name: plugin.name,
+      version: plugin.version,
+      description: plugin.description,
+      author: plugin.author,
+      downloads: plugin.downloads,
+      rating: plugin.rating,
+      tags: plugin.tags,
+      lastUpdated: plugin.lastUpdated,
+      type: this.getType(plugin)
+    };
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PluginMarketplaceInfo, PluginMetadata, PluginSearchResult } from '../plugin-interface.js';
+import { PackManifest } from '../plugin-packer.js';
+
+export interface MarketplaceSearchOptions {
+  limit?: number;
+  offset?: number;
+  tags?: string[];
+  type?: string;
+  // Searches default to relevance; listings without a query to downloads
+  sortBy?: 'relevance' | 'downloads' | 'rating' | 'updated' | 'name';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface PluginStats {
+  downloads: number;
+  rating: number;
+  reviewCount: number;
+  lastUpdated: string;
+}
+
+/**
+ * Describes a response served from the local cache. `stale` means the
+ * registry could not be reached and the cached copy is past its TTL.
+ */
+export interface CacheStatus {
+  stale: boolean;
+  storedAt: string;
+}
+
+// A registry that failed while others answered a merged lookup
+export interface RegistryFailure {
+  registry: string;
+  error: Error;
+}
+
+// A packed plugin version uploaded by `gemini plugins publish`
+export interface PublishRequest {
+  metadata: PluginMetadata;
+  manifest: PackManifest;
+  readme: string;
+  tarball: Buffer;
+}
+
+/**
+ * Source of marketplace listings. Implementations throw on failure; the
+ * MarketplaceClient decides how failures are reported.
+ */
+export interface MarketplaceBackend {
+  search(query: string, options?: MarketplaceSearchOptions): Promise<PluginSearchResult[]>;
+  getPluginInfo(pluginName: string): Promise<PluginMarketplaceInfo | null>;
+  getPopular(limit: number): Promise<PluginSearchResult[]>;
+  getRecent(limit: number): Promise<PluginSearchResult[]>;
+  getByTag(tag: string, limit: number): Promise<PluginSearchResult[]>;
+  getPluginStats(pluginName: string): Promise<PluginStats | null>;
+  // Only meaningful for hosted marketplaces
+  getDownloadUrl?(pluginName: string, version?: string): Promise<string | null>;
+  submitRating?(pluginName: string, rating: number, review?: string): Promise<void>;
+  // Adds a plugin version; throws MarketplaceConflictError if it already exists
+  publish?(request: PublishRequest): Promise<void>;
+  // Cache status of the most recent response, or null if it came from the network
+  getCacheStatus?(): CacheStatus | null;
+  // Registries that failed during the most recent lookup
+  getRegistryFailures?(): RegistryFailure[];
+}
+
+type SortableListing = Pick<PluginSearchResult, 'name' | 'downloads' | 'rating' | 'lastUpdated'>;
+
+export function sortListings<T extends SortableListing>(
+  plugins: T[],
+  sortBy: Exclude<MarketplaceSearchOptions['sortBy'], 'relevance' | undefined>,
+  sortOrder: 'asc' | 'desc'
+): T[] {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return [...plugins].sort((a, b) => {
+    switch (sortBy) {
+      case 'name':
+        return direction * a.name.localeCompare(b.name);
+      case 'rating':
+        return direction * (a.rating - b.rating);
+      case 'updated':
+        return direction * (new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime());
+      default:
+        return direction * (a.downloads - b.downloads);
+    }
+  });
+}
@@ -4,226 +4,175 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { PluginSearchResult, PluginMarketplaceInfo, PluginType } from '../plugin-interface.js';
+import { PluginSearchResult, PluginMarketplaceInfo } from '../plugin-interface.js';
+import {
+  CacheStatus,
+  MarketplaceBackend,
+  MarketplaceSearchOptions,
+  PluginStats,
+  PublishRequest,
+  RegistryFailure
+} from './marketplace-backend.js';
+import { HttpMarketplaceBackend } from './http-backend.js';
+import { LocalMarketplaceBackend } from './local-backend.js';
+import { MultiRegistryBackend } from './multi-registry-backend.js';
+import { MarketplaceError, toMarketplaceError } from './marketplace-errors.js';
+import { DEFAULT_REGISTRY, RegistryConfig } from './registries.js';
+
+export const DEFAULT_MARKETPLACE_URL = 'https://api.gemini-cli-plugins.com';
 
 export interface MarketplaceConfig {
-  baseUrl: string;
+  baseUrl?: string;
+  // Directory of JSON/NDJSON marketplace records; used instead of baseUrl
+  indexDir?: string;
   apiKey?: string;
   timeout?: number;
+  // Directory for cached registry responses and their TTL in milliseconds
+  cacheDir?: string;
+  cacheTtl?: number;
+  // Retries for failed registry reads and the base backoff delay in milliseconds
+  retries?: number;
+  retryDelay?: number;
+  // Several registries searched together; replaces baseUrl, indexDir and apiKey
+  registries?: RegistryConfig[];
+}
+
+export function createMarketplaceBackend(config: MarketplaceConfig): MarketplaceBackend {
+  if (config.registries && config.registries.length > 0) {
+    return new MultiRegistryBackend(config.registries.map(registry => ({
+      ...registry,
+      backend: createMarketplaceBackend({
+        ...config,
+        registries: undefined,
+        baseUrl: registry.baseUrl,
+        indexDir: registry.indexDir,
+        apiKey: registry.token
+      })
+    })));
+  }
+
+  if (config.indexDir) {
+    return new LocalMarketplaceBackend(config.indexDir);
+  }
+  return new HttpMarketplaceBackend({
+    baseUrl: config.baseUrl || DEFAULT_MARKETPLACE_URL,
+    apiKey: config.apiKey,
+    timeout: config.timeout,
+    cacheDir: config.cacheDir,
+    cacheTtl: config.cacheTtl,
+    retries: config.retries,
+    retryDelay: config.retryDelay
+  });
 }
 
 export class MarketplaceClient {
-  private config: MarketplaceConfig;
-
-  constructor(config: MarketplaceConfig) {
-    this.config = {
-      timeout: 30000,
-      ...config
-    };
-  }
-
-  async searchPlugins(query: string, options?: {
-    limit?: number;
-    offset?: number;
-    tags?: string[];
-    type?: string;
-    sortBy?: 'downloads' | 'rating' | 'updated' | 'name';
-    sortOrder?: 'asc' | 'desc';
-  }): Promise<PluginSearchResult[]> {
-    try {
-      const params = new URLSearchParams({
-        q: query,
-        limit: (options?.limit || 20).toString(),
-        offset: (options?.offset || 0).toString(),
-        sortBy: options?.sortBy || 'downloads',
-        sortOrder: options?.sortOrder || 'desc'
-      });
-
-      if (options?.tags) {
-        options.tags.forEach(tag => params.append('tags', tag));
-      }
-
-      if (options?.type) {
-        params.append('type', options.type);
-      }
-
-      const response = await this.makeRequest(`/search?${params.toString()}`);
-      return response.plugins || [];
-    } catch (error) {
-      console.error('Failed to search plugins:', error);
-      return [];
+  private backend: MarketplaceBackend;
+
+  constructor(config: MarketplaceConfig | MarketplaceBackend = {}) {
+    this.backend = 'search' in config ? config : createMarketplaceBackend(config);
+  }
+
+  getBackend(): MarketplaceBackend {
+    return this.backend;
+  }
+
+  /**
+   * Returns a client that only queries the named registry. Without
+   * configured registries, only the default registry exists.
+   */
+  forRegistry(name: string): MarketplaceClient {
+    if (this.backend instanceof MultiRegistryBackend) {
+      return new MarketplaceClient(this.backend.only(name));
     }
+    if (name !== DEFAULT_REGISTRY) {
+      throw new MarketplaceError(`Unknown registry "${name}". No registries are configured in .gemini/plugins/settings.json`);
+    }
+    return this;
   }
 
-  async getPluginInfo(pluginName: string): Promise<PluginMarketplaceInfo | null> {
-    try {
-      const response = await this.makeRequest(`/plugins/${pluginName}`);
-      return response;
-    } catch (error) {
-      console.error(`Failed to get plugin info for ${pluginName}:`, error);
-      return null;
+  /**
+   * Picks the registry an npm plugin is installed from, see
+   * MultiRegistryBackend.resolveRegistry. Returns undefined when no
+   * registries are configured and npm's own configuration applies.
+   */
+  async resolveRegistry(pluginName: string, requested?: string): Promise<RegistryConfig | undefined> {
+    if (this.backend instanceof MultiRegistryBackend) {
+      const backend = this.backend;
+      const { backend: _, ...registry } = await this.call(() => backend.resolveRegistry(pluginName, requested));
+      return registry;
+    }
+    if (requested && requested !== DEFAULT_REGISTRY) {
+      throw new MarketplaceError(`Unknown registry "${requested}". No registries are configured in .gemini/plugins/settings.json`);
     }
+    return undefined;
+  }
+
+  // Registries that failed while others answered the most recent lookup
+  getRegistryFailures(): RegistryFailure[] {
+    return this.backend.getRegistryFailures?.() ?? [];
+  }
+
+  /**
+   * Cache status of the most recent lookup, so callers can tell the user
+   * when results came from a stale cache because the registry was
+   * unreachable.
+   */
+  getCacheStatus(): CacheStatus | null {
+    return this.backend.getCacheStatus?.() ?? null;
+  }
+
+  // Every lookup throws a MarketplaceError on failure, so an empty result
+  // always means the marketplace had nothing to return
+  async searchPlugins(query: string, options?: MarketplaceSearchOptions): Promise<PluginSearchResult[]> {
+    return this.call(() => this.backend.search(query, options));
+  }
+
+  async getPluginInfo(pluginName: string): Promise<PluginMarketplaceInfo | null> {
+    return this.call(() => this.backend.getPluginInfo(pluginName));
   }
 
   async getPopularPlugins(limit: number = 10): Promise<PluginSearchResult[]> {
-    try {
-      const response = await this.makeRequest(`/popular?limit=${limit}`);
-      return response.plugins || [];
-    } catch (error) {
-      console.error('Failed to get popular plugins:', error);
-      return [];
-    }
+    return this.call(() => this.backend.getPopular(limit));
   }
 
   async getRecentPlugins(limit: number = 10): Promise<PluginSearchResult[]> {
-    try {
-      const response = await this.makeRequest(`/recent?limit=${limit}`);
-      return response.plugins || [];
-    } catch (error) {
-      console.error('Failed to get recent plugins:', error);
-      return [];
-    }
+    return this.call(() => this.backend.getRecent(limit));
   }
 
   async getPluginsByTag(tag: string, limit: number = 20): Promise<PluginSearchResult[]> {
-    try {
-      const response = await this.makeRequest(`/tags/${tag}?limit=${limit}`);
-      return response.plugins || [];
-    } catch (error) {
-      console.error(`Failed to get plugins by tag ${tag}:`, error);
-      return [];
-    }
+    return this.call(() => this.backend.getByTag(tag, limit));
   }
 
   async getPluginDownloadUrl(pluginName: string, version?: string): Promise<string | null> {
-    try {
-      const versionParam = version ? `?version=${version}` : '';
-      const response = await this.makeRequest(`/plugins/${pluginName}/download${versionParam}`);
-      return response.downloadUrl || null;
-    } catch (error) {
-      console.error(`Failed to get download URL for ${pluginName}:`, error);
+    if (!this.backend.getDownloadUrl) {
       return null;
     }
+    return this.call(() => this.backend.getDownloadUrl!(pluginName, version));
   }
 
-  async submitPluginRating(pluginName: string, rating: number, review?: string): Promise<boolean> {
-    try {
-      await this.makeRequest(`/plugins/${pluginName}/rate`, {
-        method: 'POST',
-        body: JSON.stringify({ rating, review })
-      });
-      return true;
-    } catch (error) {
-      console.error(`Failed to submit rating for ${pluginName}:`, error);
-      return false;
+  async submitPluginRating(pluginName: string, rating: number, review?: string): Promise<void> {
+    if (!this.backend.submitRating) {
+      throw new MarketplaceError('This marketplace does not accept ratings');
     }
+    await this.call(() => this.backend.submitRating!(pluginName, rating, review));
   }
 
-  async getPluginStats(pluginName: string): Promise<{
-    downloads: number;
-    rating: number;
-    reviewCount: number;
-    lastUpdated: string;
-  } | null> {
-    try {
-      const response = await this.makeRequest(`/plugins/${pluginName}/stats`);
-      return response;
-    } catch (error) {
-      console.error(`Failed to get stats for ${pluginName}:`, error);
-      return null;
+  async publishPlugin(request: PublishRequest): Promise<void> {
+    if (!this.backend.publish) {
+      throw new MarketplaceError('This marketplace does not accept uploads');
     }
+    await this.call(() => this.backend.publish!(request));
   }
 
-  private async makeRequest(endpoint: string, options?: {
-    method?: string;
-    body?: string;
-  }): Promise<any> {
-    const url = `${this.config.baseUrl}${endpoint}`;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+  async getPluginStats(pluginName: string): Promise<PluginStats | null> {
+    return this.call(() => this.backend.getPluginStats(pluginName));
+  }
 
+  private async call<T>(operation: () => Promise<T>): Promise<T> {
     try {
-      const response = await fetch(url, {
-        method: options?.method || 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` })
-        },
-        body: options?.body,
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      return await response.json();
+      return await operation();
     } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
+      throw toMarketplaceError(error);
     }
   }
-
-  // Mock data for development/testing
-  getMockPlugins(): PluginSearchResult[] {
-    return [
-      {
-        name: 'pip-analyzer',
-        version: '1.0.0',
-        description: 'AI-powered Python dependency analyzer',
-        author: 'gemini-cli-team',
-        downloads: 1250,
-        rating: 4.8,
-        tags: ['python', 'pip', 'dependencies', 'ai'],
-        lastUpdated: '2024-01-15T10:30:00Z',
-        type: PluginType.TOOL,
-      },
-      {
-        name: 'code-review-assistant',
-        version: '2.1.0',
-        description: 'Automated code review with AI insights',
-        author: 'dev-tools-org',
-        downloads: 890,
-        rating: 4.6,
-        tags: ['code-review', 'ai', 'quality', 'automation'],
-        lastUpdated: '2024-01-14T15:45:00Z',
-        type: PluginType.TOOL,
-      },
-      {
-        name: 'dark-theme-pro',
-        version: '1.2.0',
-        description: 'Professional dark theme for Gemini CLI',
-        author: 'theme-creator',
-        downloads: 2100,
-        rating: 4.9,
-        tags: ['theme', 'dark', 'ui', 'customization'],
-        lastUpdated: '2024-01-13T09:20:00Z',
-        type: PluginType.THEME,
-      },
-      {
-        name: 'git-workflow',
-        version: '1.5.0',
-        description: 'Enhanced Git workflow tools and automation',
-        author: 'git-tools-dev',
-        downloads: 750,
-        rating: 4.7,
-        tags: ['git', 'workflow', 'automation', 'version-control'],
-        lastUpdated: '2024-01-12T14:15:00Z',
-        type: PluginType.UTILITY,
-      },
-      {
-        name: 'docker-helper',
-        version: '1.1.0',
-        description: 'Docker container management and optimization',
-        author: 'container-expert',
-        downloads: 620,
-        rating: 4.5,
-        tags: ['docker', 'containers', 'devops', 'automation'],
-        lastUpdated: '2024-01-11T11:30:00Z',
-        type: PluginType.TOOL,
-      },
-    ];
-  }
 } 
\ No newline at end of file
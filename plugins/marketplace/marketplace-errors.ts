@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Base class for marketplace failures. Backends throw subclasses so callers
+ * can tell "no results" apart from an unreachable or misconfigured registry.
+ */
+export class MarketplaceError extends Error {
+  readonly url?: string;
+
+  constructor(message: string, url?: string) {
+    super(message);
+    this.name = 'MarketplaceError';
+    this.url = url;
+  }
+}
+
+// The registry could not be reached at all (DNS, refused connection, TLS...)
+export class MarketplaceNetworkError extends MarketplaceError {
+  constructor(message: string, url?: string) {
+    super(message, url);
+    this.name = 'MarketplaceNetworkError';
+  }
+}
+
+export class MarketplaceTimeoutError extends MarketplaceError {
+  readonly timeout: number;
+
+  constructor(timeout: number, url?: string) {
+    super(`Request timed out after ${timeout}ms`, url);
+    this.name = 'MarketplaceTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+// HTTP 401/403: missing, expired or insufficient API key
+export class MarketplaceAuthError extends MarketplaceError {
+  readonly status: number;
+
+  constructor(status: number, message: string, url?: string) {
+    super(message, url);
+    this.name = 'MarketplaceAuthError';
+    this.status = status;
+  }
+}
+
+export class MarketplaceNotFoundError extends MarketplaceError {
+  constructor(message: string, url?: string) {
+    super(message, url);
+    this.name = 'MarketplaceNotFoundError';
+  }
+}
+
+export class MarketplaceRateLimitError extends MarketplaceError {
+  // Milliseconds the registry asked us to wait, if it said
+  readonly retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number, url?: string) {
+    super(message, url);
+    this.name = 'MarketplaceRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// HTTP 5xx
+export class MarketplaceServerError extends MarketplaceError {
+  readonly status: number;
+
+  constructor(status: number, message: string, url?: string) {
+    super(message, url);
+    this.name = 'MarketplaceServerError';
+    this.status = status;
+  }
+}
+
+// HTTP 409: the version being published already exists
+export class MarketplaceConflictError extends MarketplaceError {
+  constructor(message: string, url?: string) {
+    super(message, url);
+    this.name = 'MarketplaceConflictError';
+  }
+}
+
+/**
+ * Wraps anything thrown by a backend in a MarketplaceError, keeping typed
+ * errors as they are.
+ */
+export function toMarketplaceError(error: unknown): MarketplaceError {
+  if (error instanceof MarketplaceError) {
+    return error;
+  }
+  return new MarketplaceError(error instanceof Error ? error.message : String(error));
+}
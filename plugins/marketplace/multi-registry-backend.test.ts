@@ -0,0 +1,120 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PluginSearchResult, PluginType } from '../plugin-interface.js';
+import { MarketplaceBackend, MarketplaceSearchOptions } from './marketplace-backend.js';
+import { MarketplaceError } from './marketplace-errors.js';
+import { MultiRegistryBackend, RegistryEntry } from './multi-registry-backend.js';
+
+const listing = (name: string, fields: Partial<PluginSearchResult> = {}): PluginSearchResult => ({
+  name,
+  version: '1.0.0',
+  description: `${name} plugin`,
+  author: 'Tests',
+  downloads: 0,
+  rating: 0,
+  tags: [],
+  lastUpdated: '2025-01-01T00:00:00.000Z',
+  type: PluginType.TOOL,
+  ...fields
+});
+
+// A registry whose search returns fixed results in a fixed order, as a
+// server with its own ranking would
+const registry = (name: string, results: PluginSearchResult[] | Error, fields: Partial<RegistryEntry> = {}): RegistryEntry => ({
+  name,
+  backend: {
+    search: async () => {
+      if (results instanceof Error) {
+        throw results;
+      }
+      return results;
+    }
+  } as unknown as MarketplaceBackend,
+  ...fields
+});
+
+const names = (results: PluginSearchResult[]) => results.map(result => result.name);
+
+describe('MultiRegistryBackend search', () => {
+  it('keeps hits the local matcher would not find', async () => {
+    // e.g. a server matching "formatter" against a plugin's README
+    const backend = new MultiRegistryBackend([
+      registry('public', [listing('prettier-plugin'), listing('formatter-tools')])
+    ]);
+
+    expect(names(await backend.search('formatter'))).toEqual(['prettier-plugin', 'formatter-tools']);
+  });
+
+  it('keeps the order of each registry while merging by score', async () => {
+    const backend = new MultiRegistryBackend([
+      registry('public', [listing('lint-runner', { downloads: 1000 }), listing('linter'), listing('unrelated')]),
+      registry('internal', [listing('lint'), listing('code-lint')], { priority: 10 })
+    ]);
+
+    const results = await backend.search('lint');
+    expect(names(results)).toEqual(['lint', 'lint-runner', 'code-lint', 'linter', 'unrelated']);
+    expect(results.map(result => result.registry)).toEqual(['internal', 'public', 'internal', 'public', 'public']);
+  });
+
+  it('returns the merged relevance order reversed for ascending searches', async () => {
+    const requested: MarketplaceSearchOptions[] = [];
+    const backend = new MultiRegistryBackend([
+      registry('public', [listing('lint-runner', { downloads: 1000 }), listing('linter')]),
+      registry('internal', [listing('lint'), listing('code-lint')], { priority: 10 })
+    ].map(entry => ({
+      ...entry,
+      backend: { search: (query: string, options: MarketplaceSearchOptions) => {
+        requested.push(options);
+        return entry.backend.search(query, options);
+      } } as unknown as MarketplaceBackend
+    })));
+
+    const ascending = await backend.search('lint', { sortOrder: 'asc' });
+    expect(names(ascending)).toEqual(['linter', 'code-lint', 'lint-runner', 'lint']);
+    // Registries always rank best first, which the merge relies on
+    expect(requested.map(options => options.sortOrder)).toEqual(['desc', 'desc']);
+  });
+
+  it('lists a plugin once, from the higher priority registry', async () => {
+    const backend = new MultiRegistryBackend([
+      registry('public', [listing('shared', { version: '1.0.0' })]),
+      registry('internal', [listing('shared', { version: '2.0.0' })], { priority: 10 })
+    ]);
+
+    expect(await backend.search('shared')).toMatchObject([{ name: 'shared', version: '2.0.0', registry: 'internal' }]);
+  });
+
+  it('sorts merged results by the requested field', async () => {
+    const backend = new MultiRegistryBackend([
+      registry('public', [listing('a', { downloads: 5 }), listing('b', { downloads: 1 })]),
+      registry('internal', [listing('c', { downloads: 3 })])
+    ]);
+
+    expect(names(await backend.search('', { sortBy: 'downloads' }))).toEqual(['a', 'c', 'b']);
+    expect(names(await backend.search('', { sortBy: 'name' }))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('pages through the merged results', async () => {
+    const backend = new MultiRegistryBackend([
+      registry('public', [listing('one'), listing('two'), listing('three')])
+    ]);
+
+    expect(names(await backend.search('', { offset: 1, limit: 1 }))).toEqual(['two']);
+  });
+
+  it('reports a failing registry and only throws when all fail', async () => {
+    const backend = new MultiRegistryBackend([
+      registry('public', [listing('found')]),
+      registry('internal', new MarketplaceError('offline'))
+    ]);
+
+    expect(names(await backend.search('found'))).toEqual(['found']);
+    expect(backend.getRegistryFailures().map(failure => failure.registry)).toEqual(['internal']);
+    await expect(backend.only('internal').search('found')).rejects.toThrow('offline');
+  });
+});
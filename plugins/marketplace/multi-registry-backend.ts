@@ -0,0 +1,233 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PluginMarketplaceInfo, PluginSearchResult } from '../plugin-interface.js';
+import {
+  CacheStatus,
+  MarketplaceBackend,
+  MarketplaceSearchOptions,
+  PluginStats,
+  PublishRequest,
+  RegistryFailure,
+  sortListings
+} from './marketplace-backend.js';
+import { MarketplaceError, toMarketplaceError } from './marketplace-errors.js';
+import { RegistryConfig, findScopedRegistry, sortByPriority } from './registries.js';
+import { mergeRankedListings } from './search-ranking.js';
+
+export interface RegistryEntry extends RegistryConfig {
+  backend: MarketplaceBackend;
+}
+
+/**
+ * Marketplace spanning several registries. Listings are fetched from every
+ * registry, labelled with the registry they came from and merged; when two
+ * registries list the same plugin, the higher priority one wins. Scoped
+ * plugins are only ever taken from the registry that owns their scope, so
+ * a public registry cannot shadow an internal package.
+ *
+ * A lookup only fails when every registry fails; partial failures are
+ * reported through getRegistryFailures().
+ */
+export class MultiRegistryBackend implements MarketplaceBackend {
+  private registries: RegistryEntry[];
+  // Registries queried; all of them unless restricted with only()
+  private queried: RegistryEntry[];
+  private failures: RegistryFailure[] = [];
+
+  constructor(registries: RegistryEntry[], only?: string) {
+    this.registries = sortByPriority(registries);
+    this.queried = only ? [this.getRegistry(only)] : this.registries;
+  }
+
+  getRegistries(): RegistryEntry[] {
+    return this.registries;
+  }
+
+  /**
+   * Returns a backend that only queries the named registry. Scopes still
+   * apply, so the registry's listings for scopes owned elsewhere are hidden.
+   */
+  only(name: string): MultiRegistryBackend {
+    return new MultiRegistryBackend(this.registries, name);
+  }
+
+  getRegistry(name: string): RegistryEntry {
+    const registry = this.registries.find(candidate => candidate.name === name);
+    if (!registry) {
+      throw new MarketplaceError(`Unknown registry "${name}". Configured registries: ${this.registries.map(r => r.name).join(', ')}`);
+    }
+    return registry;
+  }
+
+  getRegistryFailures(): RegistryFailure[] {
+    return this.failures;
+  }
+
+  /**
+   * Picks the registry a plugin is installed from: the requested one, the
+   * one owning the plugin's scope, or the highest priority registry that
+   * lists it. Falls back to the highest priority registry.
+   */
+  async resolveRegistry(pluginName: string, requested?: string): Promise<RegistryEntry> {
+    if (requested) {
+      return this.getRegistry(requested);
+    }
+
+    const scoped = findScopedRegistry(this.registries, pluginName);
+    if (scoped || this.queried.length === 1) {
+      return scoped || this.queried[0];
+    }
+
+    for (const registry of this.getCandidates(pluginName)) {
+      try {
+        if (await registry.backend.getPluginInfo(pluginName)) {
+          return registry;
+        }
+      } catch {
+        // An unreachable registry cannot claim the plugin
+      }
+    }
+    return this.queried[0];
+  }
+
+  async search(query: string, options: MarketplaceSearchOptions = {}): Promise<PluginSearchResult[]> {
+    const offset = options.offset || 0;
+    const limit = options.limit || 20;
+    const sortBy = options.sortBy || 'relevance';
+    const sortOrder = options.sortOrder || (sortBy === 'name' ? 'asc' : 'desc');
+    // Relevance is merged best first whatever the order asked for
+    const lists = await this.collectLists(backend => backend.search(query, {
+      ...options,
+      ...(sortBy === 'relevance' && { sortOrder: 'desc' }),
+      offset: 0,
+      limit: offset + limit
+    }));
+
+    // Each registry already matched and ordered its results, so they are
+    // merged without being filtered again
+    if (sortBy !== 'relevance') {
+      return sortListings(lists.flat(), sortBy, sortOrder).slice(offset, offset + limit);
+    }
+    const merged = mergeRankedListings(query, lists);
+    return (sortOrder === 'asc' ? merged.reverse() : merged).slice(offset, offset + limit);
+  }
+
+  async getPluginInfo(pluginName: string): Promise<PluginMarketplaceInfo | null> {
+    return this.first(pluginName, backend => backend.getPluginInfo(pluginName));
+  }
+
+  async getPopular(limit: number): Promise<PluginSearchResult[]> {
+    const results = await this.collect(backend => backend.getPopular(limit));
+    return sortListings(results, 'downloads', 'desc').slice(0, limit);
+  }
+
+  async getRecent(limit: number): Promise<PluginSearchResult[]> {
+    const results = await this.collect(backend => backend.getRecent(limit));
+    return sortListings(results, 'updated', 'desc').slice(0, limit);
+  }
+
+  async getByTag(tag: string, limit: number): Promise<PluginSearchResult[]> {
+    const results = await this.collect(backend => backend.getByTag(tag, limit));
+    return sortListings(results, 'downloads', 'desc').slice(0, limit);
+  }
+
+  async getPluginStats(pluginName: string): Promise<PluginStats | null> {
+    return this.first(pluginName, backend => backend.getPluginStats(pluginName));
+  }
+
+  async getDownloadUrl(pluginName: string, version?: string): Promise<string | null> {
+    const registry = await this.resolveRegistry(pluginName);
+    return registry.backend.getDownloadUrl ? registry.backend.getDownloadUrl(pluginName, version) : null;
+  }
+
+  async submitRating(pluginName: string, rating: number, review?: string): Promise<void> {
+    const registry = await this.resolveRegistry(pluginName);
+    if (!registry.backend.submitRating) {
+      throw new MarketplaceError(`Registry ${registry.name} does not accept ratings`);
+    }
+    await registry.backend.submitRating(pluginName, rating, review);
+  }
+
+  // New versions go where the plugin already lives, see resolveRegistry()
+  async publish(request: PublishRequest): Promise<void> {
+    const registry = await this.resolveRegistry(request.metadata.name);
+    if (!registry.backend.publish) {
+      throw new MarketplaceError(`Registry ${registry.name} does not accept uploads`);
+    }
+    await registry.backend.publish(request);
+  }
+
+  // Stale if any registry answered from a stale cache
+  getCacheStatus(): CacheStatus | null {
+    const statuses = this.queried
+      .map(registry => registry.backend.getCacheStatus?.() ?? null)
+      .filter((status): status is CacheStatus => status !== null);
+    return statuses.find(status => status.stale) || statuses[0] || null;
+  }
+
+  private getCandidates(pluginName: string): RegistryEntry[] {
+    const scoped = findScopedRegistry(this.registries, pluginName);
+    return scoped ? this.queried.filter(registry => registry === scoped) : this.queried;
+  }
+
+  private async collect(lookup: (backend: MarketplaceBackend) => Promise<PluginSearchResult[]>): Promise<PluginSearchResult[]> {
+    return (await this.collectLists(lookup)).flat();
+  }
+
+  // One list per registry, in the order the registry returned it
+  private async collectLists(lookup: (backend: MarketplaceBackend) => Promise<PluginSearchResult[]>): Promise<PluginSearchResult[][]> {
+    this.failures = [];
+    const settled = await Promise.allSettled(this.queried.map(registry => lookup(registry.backend)));
+
+    const seen = new Set<string>();
+    const lists: PluginSearchResult[][] = [];
+    settled.forEach((outcome, index) => {
+      const registry = this.queried[index];
+      if (outcome.status === 'rejected') {
+        this.failures.push({ registry: registry.name, error: toMarketplaceError(outcome.reason) });
+        return;
+      }
+
+      const list: PluginSearchResult[] = [];
+      for (const plugin of outcome.value) {
+        // Registries are in priority order, so the first listing wins
+        if (seen.has(plugin.name) || !this.getCandidates(plugin.name).includes(registry)) {
+          continue;
+        }
+        seen.add(plugin.name);
+        list.push({ ...plugin, registry: registry.name });
+      }
+      lists.push(list);
+    });
+
+    if (this.failures.length === this.queried.length) {
+      throw this.failures[0].error;
+    }
+    return lists;
+  }
+
+  private async first<T extends object>(pluginName: string, lookup: (backend: MarketplaceBackend) => Promise<T | null>): Promise<(T & { registry: string }) | null> {
+    this.failures = [];
+    const candidates = this.getCandidates(pluginName);
+
+    for (const registry of candidates) {
+      try {
+        const result = await lookup(registry.backend);
+        if (result) {
+          return { ...result, registry: registry.name };
+        }
+      } catch (error) {
+        this.failures.push({ registry: registry.name, error: toMarketplaceError(error) });
+      }
+    }
+
+    if (candidates.length > 0 && this.failures.length === candidates.length) {
+      throw this.failures[0].error;
+    }
+    return null;
+  }
+}
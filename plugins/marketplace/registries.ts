@@ -0,0 +1,54 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Name of the registry used when settings only configure a single marketplace
+export const DEFAULT_REGISTRY = 'default';
+
+export interface RegistryConfig {
+  name: string;
+  // Marketplace API, or a directory index as for MarketplaceConfig
+  baseUrl?: string;
+  indexDir?: string;
+  // npm registry the plugins are installed from; npm's own configuration
+  // is used when unset
+  npmRegistry?: string;
+  // Bearer token for the marketplace API, also used as the npm auth token
+  token?: string;
+  // Higher priorities are searched first and win when registries list the
+  // same plugin. Defaults to 0.
+  priority?: number;
+  // Package scopes served only by this registry, e.g. "@ourco/*"
+  scopes?: string[];
+}
+
+/**
+ * Returns the npm scope of a package name, e.g. "@ourco" for "@ourco/lint".
+ */
+export function getPackageScope(pluginName: string): string | undefined {
+  return pluginName.startsWith('@') && pluginName.includes('/') ? pluginName.split('/')[0] : undefined;
+}
+
+/**
+ * Finds the registry a scoped package must come from. Scopes may be written
+ * as "@ourco" or "@ourco/*".
+ */
+export function findScopedRegistry<T extends RegistryConfig>(registries: T[], pluginName: string): T | undefined {
+  const scope = getPackageScope(pluginName);
+  if (!scope) {
+    return undefined;
+  }
+  return registries.find(registry =>
+    (registry.scopes || []).some(pattern => pattern.replace(/\/\*?$/, '') === scope)
+  );
+}
+
+/**
+ * Orders registries by descending priority, keeping configuration order
+ * for equal priorities.
+ */
+export function sortByPriority<T extends RegistryConfig>(registries: T[]): T[] {
+  return [...registries].sort((a, b) => (b.priority || 0) - (a.priority || 0));
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResponseCache } from './response-cache.js';
+
+const URL = 'https://registry.example.com/api/popular?limit=5';
+
+describe('ResponseCache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('stores a body with its ETag per URL', () => {
+    const cache = new ResponseCache(cacheDir, 1000);
+    cache.set(URL, { plugins: ['lint'] }, '"v1"');
+
+    expect(new ResponseCache(cacheDir, 1000).get(URL)).toMatchObject({ url: URL, etag: '"v1"', body: { plugins: ['lint'] } });
+    expect(cache.get(`${URL}0`)).toBeUndefined();
+  });
+
+  it('is fresh until the TTL passes', () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = new ResponseCache(cacheDir, 500);
+    cache.set(URL, {});
+    const entry = cache.get(URL)!;
+
+    now.mockReturnValue(1499);
+    expect(cache.isFresh(entry)).toBe(true);
+    now.mockReturnValue(1500);
+    expect(cache.isFresh(entry)).toBe(false);
+  });
+
+  it('restarts the TTL when an entry is revalidated', () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = new ResponseCache(cacheDir, 500);
+    cache.set(URL, { plugins: [] }, '"v1"');
+
+    now.mockReturnValue(2000);
+    cache.touch(cache.get(URL)!);
+    expect(cache.get(URL)).toMatchObject({ etag: '"v1"', storedAt: 2000 });
+    expect(cache.isFresh(cache.get(URL)!)).toBe(true);
+  });
+
+  it('treats a corrupt entry as a miss', () => {
+    const cache = new ResponseCache(cacheDir, 1000);
+    cache.set(URL, {});
+    for (const file of fs.readdirSync(cacheDir)) {
+      fs.writeFileSync(path.join(cacheDir, file), '{');
+    }
+
+    expect(cache.get(URL)).toBeUndefined();
+  });
+});
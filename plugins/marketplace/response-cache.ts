@@ -0,0 +1,77 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+
+export interface CachedResponse {
+  url: string;
+  etag?: string;
+  body: unknown;
+  // Epoch milliseconds of the last time the registry confirmed this body
+  storedAt: number;
+}
+
+/**
+ * On-disk cache of registry responses, one JSON file per URL.
+ */
+export class ResponseCache {
+  private cacheDir: string;
+  private ttl: number;
+
+  constructor(cacheDir: string, ttl: number) {
+    this.cacheDir = cacheDir;
+    this.ttl = ttl;
+  }
+
+  get(url: string): CachedResponse | undefined {
+    const file = this.getFile(url);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+
+    try {
+      const entry: CachedResponse = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      return entry.url === url ? entry : undefined;
+    } catch {
+      // A corrupt entry is treated as a miss and overwritten on the next store
+      return undefined;
+    }
+  }
+
+  isFresh(entry: CachedResponse): boolean {
+    return Date.now() - entry.storedAt < this.ttl;
+  }
+
+  set(url: string, body: unknown, etag?: string): void {
+    this.write({ url, etag, body, storedAt: Date.now() });
+  }
+
+  // Records that the registry revalidated an entry (HTTP 304)
+  touch(entry: CachedResponse): CachedResponse {
+    const touched = { ...entry, storedAt: Date.now() };
+    this.write(touched);
+    return touched;
+  }
+
+  clear(): void {
+    fs.rmSync(this.cacheDir, { recursive: true, force: true });
+  }
+
+  private write(entry: CachedResponse): void {
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.writeFileSync(this.getFile(entry.url), JSON.stringify(entry));
+    } catch (error) {
+      console.warn('Failed to write marketplace cache:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private getFile(url: string): string {
+    return path.join(this.cacheDir, `${crypto.createHash('sha256').update(url).digest('hex')}.json`);
+  }
+}
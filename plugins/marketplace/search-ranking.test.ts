@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { mergeRankedListings, orderSearchResults, rankListings, scoreListing } from './search-ranking.js';
+
+const listing = (name: string, fields: { description?: string; tags?: string[]; downloads?: number; rating?: number; lastUpdated?: string } = {}) => ({
+  name,
+  description: fields.description ?? 'A plugin',
+  tags: fields.tags ?? [],
+  downloads: fields.downloads ?? 0,
+  rating: fields.rating ?? 0,
+  lastUpdated: fields.lastUpdated ?? '2025-01-01T00:00:00.000Z'
+});
+
+const names = (plugins: Array<{ name: string }>) => plugins.map(plugin => plugin.name);
+
+describe('scoreListing', () => {
+  it('weighs exact names over prefixes over substrings', () => {
+    const exact = scoreListing('lint', listing('lint'));
+    const prefix = scoreListing('lint', listing('linter'));
+    const contains = scoreListing('lint', listing('eslintx'));
+
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(contains);
+    expect(contains).toBeGreaterThan(0);
+  });
+
+  it('matches each part of scoped and hyphenated names as a prefix', () => {
+    expect(scoreListing('lint', listing('@ourco/es-lint'))).toBe(scoreListing('lint', listing('linter')));
+  });
+
+  it('ranks a name hit above a tag hit above a description hit', () => {
+    const name = scoreListing('docker', listing('docker-helper'));
+    const tag = scoreListing('docker', listing('containers', { tags: ['docker'] }));
+    const description = scoreListing('docker', listing('containers', { description: 'Runs docker builds' }));
+
+    expect(name).toBeGreaterThan(tag);
+    expect(tag).toBeGreaterThan(description);
+    expect(description).toBeGreaterThan(0);
+  });
+
+  it('tolerates a one-letter typo in names and tags from four characters', () => {
+    expect(scoreListing('dokcer', listing('docker-helper'))).toBeGreaterThan(0);
+    expect(scoreListing('dockr', listing('docker-helper'))).toBeGreaterThan(0);
+    expect(scoreListing('gti', listing('git-tools'))).toBe(0);
+    expect(scoreListing('pyhton', listing('analyzer', { tags: ['python'] }))).toBeGreaterThan(0);
+  });
+
+  it('tolerates two typos from eight characters', () => {
+    expect(scoreListing('formattre', listing('formatter'))).toBeGreaterThan(0);
+    expect(scoreListing('formaxxer', listing('formatter'))).toBeGreaterThan(0);
+    expect(scoreListing('fxrmaxxer', listing('formatter'))).toBe(0);
+    expect(scoreListing('lixx', listing('lint'))).toBe(0);
+  });
+
+  it('ranks a typo below an exact name match', () => {
+    expect(scoreListing('docker', listing('docker'))).toBeGreaterThan(scoreListing('dokcer', listing('docker')));
+  });
+
+  it('requires every term to match', () => {
+    const plugin = listing('git-helper', { description: 'Commit and branch helpers' });
+
+    expect(scoreListing('git branch', plugin)).toBeGreaterThan(scoreListing('git', plugin));
+    expect(scoreListing('git docker', plugin)).toBe(0);
+  });
+
+  it('boosts matches by downloads and rating', () => {
+    expect(scoreListing('lint', listing('linter', { downloads: 10000 }))).toBeGreaterThan(scoreListing('lint', listing('linter')));
+    expect(scoreListing('lint', listing('linter', { rating: 5 }))).toBeGreaterThan(scoreListing('lint', listing('linter')));
+    expect(scoreListing('lint', listing('docker', { downloads: 10000 }))).toBe(0);
+  });
+});
+
+describe('rankListings', () => {
+  it('orders by score and drops listings that do not match', () => {
+    const ranked = rankListings('lint', [listing('docker'), listing('linter'), listing('lint')]);
+    expect(names(ranked)).toEqual(['lint', 'linter']);
+  });
+
+  it('keeps the original order of ties', () => {
+    expect(names(rankListings('lint', [listing('lint-a'), listing('lint-b')]))).toEqual(['lint-a', 'lint-b']);
+    expect(names(rankListings('lint', [listing('lint-b'), listing('lint-a')]))).toEqual(['lint-b', 'lint-a']);
+  });
+
+  it('breaks ties between equal matches by popularity', () => {
+    const ranked = rankListings('lint', [listing('lint-a'), listing('lint-b', { downloads: 500 })]);
+    expect(names(ranked)).toEqual(['lint-b', 'lint-a']);
+  });
+});
+
+describe('orderSearchResults', () => {
+  const plugins = [
+    listing('linter', { downloads: 10, lastUpdated: '2025-03-01T00:00:00.000Z' }),
+    listing('lint', { downloads: 5, lastUpdated: '2025-01-01T00:00:00.000Z' }),
+    listing('docker', { downloads: 100, lastUpdated: '2025-02-01T00:00:00.000Z' })
+  ];
+
+  it('orders by relevance by default', () => {
+    expect(names(orderSearchResults('lint', plugins))).toEqual(['lint', 'linter']);
+    expect(names(orderSearchResults('lint', plugins, { sortOrder: 'asc' }))).toEqual(['linter', 'lint']);
+  });
+
+  it('orders an empty query by popularity', () => {
+    expect(names(orderSearchResults('', plugins))).toEqual(['docker', 'linter', 'lint']);
+  });
+
+  it('still filters by the query when sorting by another field', () => {
+    expect(names(orderSearchResults('lint', plugins, { sortBy: 'updated' }))).toEqual(['linter', 'lint']);
+    expect(names(orderSearchResults('', plugins, { sortBy: 'name' }))).toEqual(['docker', 'lint', 'linter']);
+    expect(names(orderSearchResults('', plugins, { sortBy: 'downloads', sortOrder: 'asc' }))).toEqual(['lint', 'linter', 'docker']);
+  });
+});
+
+describe('mergeRankedListings', () => {
+  it('takes the best head while keeping each list in order', () => {
+    const merged = mergeRankedListings('lint', [
+      [listing('linter'), listing('lint')],
+      [listing('lint-runner'), listing('unrelated')]
+    ]);
+    expect(names(merged)).toEqual(['linter', 'lint', 'lint-runner', 'unrelated']);
+  });
+
+  it('gives ties to the earlier list', () => {
+    expect(names(mergeRankedListings('lint', [[listing('lint-b')], [listing('lint-a')]]))).toEqual(['lint-b', 'lint-a']);
+  });
+});
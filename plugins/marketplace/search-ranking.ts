@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PluginSearchResult } from '../plugin-interface.js';
+import { MarketplaceSearchOptions, sortListings } from './marketplace-backend.js';
+
+type RankableListing = Pick<PluginSearchResult, 'name' | 'description' | 'tags' | 'downloads' | 'rating'>;
+
+// Points for the best way a single query term matches a listing
+const NAME_EXACT = 100;
+const NAME_PREFIX = 60;
+const NAME_CONTAINS = 40;
+const NAME_FUZZY = 30;
+const TAG_EXACT = 25;
+const TAG_FUZZY = 12;
+const DESCRIPTION_WORD = 10;
+const DESCRIPTION_CONTAINS = 5;
+
+/**
+ * Scores how well a listing matches a query, or returns 0 when it does not
+ * match. Every whitespace-separated term must match the name, a tag or the
+ * description; names and tags tolerate small typos. Matching listings get
+ * a popularity boost from downloads and rating, which on its own orders
+ * results for an empty query.
+ */
+export function scoreListing(query: string, plugin: RankableListing): number {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  let score = 0;
+
+  for (const term of terms) {
+    const termScore = scoreTerm(term, plugin);
+    if (termScore === 0) {
+      return 0;
+    }
+    score += termScore;
+  }
+
+  // An empty query matches everything
+  return Math.max(score, 1) + Math.log10(plugin.downloads + 1) * 2 + plugin.rating;
+}
+
+/**
+ * Returns the listings matching a query, best match first. Ties keep their
+ * original order.
+ */
+export function rankListings<T extends RankableListing>(query: string, plugins: T[]): T[] {
+  return plugins
+    .map(plugin => ({ plugin, score: scoreListing(query, plugin) }))
+    .filter(ranked => ranked.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(ranked => ranked.plugin);
+}
+
+/**
+ * Keeps the listings matching a query and orders them as requested: by
+ * relevance unless another sortBy is given. Names sort ascending by
+ * default, everything else descending.
+ */
+export function orderSearchResults<T extends RankableListing & Pick<PluginSearchResult, 'lastUpdated'>>(
+  query: string,
+  plugins: T[],
+  options: Pick<MarketplaceSearchOptions, 'sortBy' | 'sortOrder'> = {}
+): T[] {
+  const sortBy = options.sortBy || 'relevance';
+  const sortOrder = options.sortOrder || (sortBy === 'name' ? 'asc' : 'desc');
+
+  if (sortBy === 'relevance') {
+    const ranked = rankListings(query, plugins);
+    return sortOrder === 'asc' ? ranked.reverse() : ranked;
+  }
+  return sortListings(plugins.filter(plugin => scoreListing(query, plugin) > 0), sortBy, sortOrder);
+}
+
+/**
+ * Merges result lists that were each matched and ordered best first by
+ * their own registry. Every list keeps its order: the next result is the
+ * list head that scores best, with ties going to the earlier list. Nothing
+ * is dropped, so hits the local matcher does not recognise, e.g. from a
+ * server's full-text search, still appear.
+ */
+export function mergeRankedListings<T extends RankableListing>(query: string, lists: T[][]): T[] {
+  const scored = lists.map(list => list.map(plugin => scoreListing(query, plugin)));
+  const positions = lists.map(() => 0);
+  const merged: T[] = [];
+
+  for (;;) {
+    let best = -1;
+    lists.forEach((list, index) => {
+      if (positions[index] < list.length &&
+        (best === -1 || scored[index][positions[index]] > scored[best][positions[best]])) {
+        best = index;
+      }
+    });
+    if (best === -1) {
+      return merged;
+    }
+    merged.push(lists[best][positions[best]++]);
+  }
+}
+
+function scoreTerm(term: string, plugin: RankableListing): number {
+  const name = plugin.name.toLowerCase();
+  // Scoped and hyphenated names match on each part, e.g. "lint" in "@ourco/es-lint"
+  const nameParts = name.split(/[@/\-_.]+/).filter(Boolean);
+  const tags = plugin.tags.map(tag => tag.toLowerCase());
+  const description = plugin.description.toLowerCase();
+
+  let best = 0;
+  if (name === term) {
+    best = NAME_EXACT;
+  } else if (name.startsWith(term) || nameParts.some(part => part.startsWith(term))) {
+    best = NAME_PREFIX;
+  } else if (name.includes(term)) {
+    best = NAME_CONTAINS;
+  } else if (nameParts.some(part => isTypo(term, part))) {
+    best = NAME_FUZZY;
+  }
+
+  if (tags.includes(term)) {
+    best = Math.max(best, TAG_EXACT);
+  } else if (tags.some(tag => isTypo(term, tag))) {
+    best = Math.max(best, TAG_FUZZY);
+  }
+
+  if (description.split(/\W+/).includes(term)) {
+    best = Math.max(best, DESCRIPTION_WORD);
+  } else if (description.includes(term)) {
+    best = Math.max(best, DESCRIPTION_CONTAINS);
+  }
+
+  return best;
+}
+
+// One edit is tolerated from four characters, two from eight
+function isTypo(term: string, word: string): boolean {
+  const allowed = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  return allowed > 0 && Math.abs(term.length - word.length) <= allowed && editDistance(term, word) <= allowed;
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and transpositions of adjacent characters each count as one edit.
+ */
+function editDistance(a: string, b: string): number {
+  const distances: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return distances[a.length][b.length];
+}
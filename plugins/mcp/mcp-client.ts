@@ -0,0 +1,270 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChildProcess, spawn } from 'node:child_process';
+import { Socket } from 'node:net';
+import * as path from 'node:path';
+import * as readline from 'node:readline';
+import { McpServerConfig } from '../plugin-interface.js';
+
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+// Variables a server gets from the CLI's environment; everything else has to
+// be declared in its config so secrets in the CLI's environment stay there
+const INHERITED_ENV = process.platform === 'win32'
+  ? ['APPDATA', 'HOMEDRIVE', 'HOMEPATH', 'LOCALAPPDATA', 'PATH', 'PATHEXT', 'SYSTEMDRIVE', 'SYSTEMROOT', 'TEMP', 'TMP', 'USERNAME', 'USERPROFILE']
+  : ['HOME', 'LOGNAME', 'PATH', 'SHELL', 'TERM', 'TMPDIR', 'USER'];
+
+// Stderr lines kept to explain why a server exited
+const STDERR_TAIL = 10;
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+}
+
+export interface McpClientOptions {
+  // Directory relative `cwd` in the config resolves against
+  baseDir: string;
+  clientVersion: string;
+  // Milliseconds a request may take before it fails
+  requestTimeout?: number;
+  onStderr?(line: string): void;
+  // Called once when the server exits or fails without stop() being called
+  onExit?(error: Error): void;
+}
+
+type PendingRequest = { resolve(value: any): void; reject(error: Error): void; timer: NodeJS.Timeout };
+
+/**
+ * Client for an MCP server that speaks newline-delimited JSON-RPC 2.0 over
+ * its stdin and stdout. The server process does not keep the CLI alive;
+ * in-flight requests do so through their timeout timers.
+ */
+export class McpStdioClient {
+  private name: string;
+  private config: McpServerConfig;
+  private options: McpClientOptions;
+  private child: ChildProcess | null = null;
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextId = 1;
+  private stderrTail: string[] = [];
+  private exitError: Error | null = null;
+  private exited: Promise<void> = Promise.resolve();
+  private stopping = false;
+
+  constructor(name: string, config: McpServerConfig, options: McpClientOptions) {
+    this.name = name;
+    this.config = config;
+    this.options = options;
+  }
+
+  get pid(): number | undefined {
+    return this.child?.pid;
+  }
+
+  /**
+   * Spawns the server and completes the initialize handshake. Rejects, with
+   * the server stopped, if either fails.
+   */
+  async start(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args || [], {
+      cwd: path.resolve(this.options.baseDir, this.config.cwd || '.'),
+      env: { ...getInheritedEnv(), ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      windowsHide: true
+    });
+    this.child = child;
+    // A command that cannot be spawned emits error instead of exit
+    this.exited = new Promise(resolve => {
+      child.once('close', () => resolve());
+      child.once('error', () => resolve());
+    });
+
+    readline.createInterface({ input: child.stdout! }).on('line', line => this.handleLine(line));
+    readline.createInterface({ input: child.stderr! }).on('line', line => {
+      this.stderrTail = [...this.stderrTail.slice(1 - STDERR_TAIL), line];
+      this.options.onStderr?.(line);
+    });
+
+    child.once('error', error => this.fail(new Error(`MCP server ${this.name} failed to start: ${error.message}`)));
+    child.once('exit', (code, signal) => {
+      const reason = signal ? `was killed by ${signal}` : `exited with code ${code}`;
+      const lastLine = this.stderrTail[this.stderrTail.length - 1];
+      this.fail(new Error(`MCP server ${this.name} ${reason}${lastLine ? `: ${lastLine}` : ''}`));
+    });
+    // Writes after the server exited fail with EPIPE; the exit reports it
+    child.stdin!.on('error', () => {});
+
+    child.unref();
+    for (const stream of [child.stdin, child.stdout, child.stderr]) {
+      (stream as unknown as Socket).unref?.();
+    }
+
+    try {
+      await this.request('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'gemini-cli', version: this.options.clientVersion }
+      });
+      this.notify('notifications/initialized');
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : {});
+      tools.push(...(result?.tools || []));
+      cursor = result?.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Calls a tool and returns its structured content, or its text content
+   * joined by newlines. Results the server flags with isError throw.
+   */
+  async callTool(name: string, args: Record<string, any>): Promise<any> {
+    const result = await this.request('tools/call', { name, arguments: args });
+    const content: any[] = Array.isArray(result?.content) ? result.content : [];
+    const text = content.every(item => item?.type === 'text')
+      ? content.map(item => item.text).join('\n')
+      : undefined;
+
+    if (result?.isError) {
+      throw new Error(text || `MCP tool ${name} reported an error`);
+    }
+    if (result?.structuredContent !== undefined) {
+      return result.structuredContent;
+    }
+    return text ?? content;
+  }
+
+  /**
+   * Closes the server's stdin, which stdio servers treat as the signal to
+   * exit, then escalates to SIGTERM and SIGKILL if it does not.
+   */
+  async stop(timeout: number = 2000): Promise<void> {
+    const child = this.child;
+    if (!child || this.stopping) {
+      return this.exited;
+    }
+    this.stopping = true;
+    this.rejectPending(new Error(`MCP server ${this.name} was stopped`));
+
+    if (child.exitCode === null && child.signalCode === null) {
+      child.stdin!.end();
+      for (const signal of ['SIGTERM', 'SIGKILL'] as const) {
+        if (await this.waitForExit(timeout)) break;
+        child.kill(signal);
+      }
+    }
+    await this.exited;
+  }
+
+  private waitForExit(timeout: number): Promise<boolean> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(false), timeout);
+      this.exited.then(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+
+  private request(method: string, params: Record<string, any>): Promise<any> {
+    if (this.exitError) {
+      return Promise.reject(this.exitError);
+    }
+
+    const id = this.nextId++;
+    const timeout = this.options.requestTimeout ?? 30000;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP server ${this.name} did not answer ${method} within ${timeout}ms`));
+      }, timeout);
+
+      this.pending.set(id, { resolve, reject, timer });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  private notify(method: string, params?: Record<string, any>): void {
+    this.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  private send(message: unknown): void {
+    this.child?.stdin?.write(JSON.stringify(message) + '\n');
+  }
+
+  private handleLine(line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      // Servers that log to stdout break the protocol; show it like stderr
+      this.options.onStderr?.(line);
+      return;
+    }
+
+    // Requests from the server: answer pings and refuse the rest
+    if (typeof message?.method === 'string') {
+      if (message.id !== undefined) {
+        this.send(message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+      }
+      return;
+    }
+
+    const call = this.pending.get(message?.id);
+    if (!call) return;
+    this.pending.delete(message.id);
+    clearTimeout(call.timer);
+    if (message.error) {
+      call.reject(new Error(message.error.message || `MCP server ${this.name} returned error ${message.error.code}`));
+    } else {
+      call.resolve(message.result);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.exitError) {
+      return;
+    }
+    this.exitError = error;
+    this.rejectPending(error);
+    if (!this.stopping) {
+      this.options.onExit?.(error);
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    for (const call of this.pending.values()) {
+      clearTimeout(call.timer);
+      call.reject(error);
+    }
+    this.pending.clear();
+  }
+}
+
+function getInheritedEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of INHERITED_ENV) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  return env;
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import { createRequire } from 'node:module';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { McpServerConfig, PluginExtension, PluginType } from '../plugin-interface.js';
+import { PluginRegistry } from '../plugin-registry.js';
+import { scaffoldPlugin } from '../scaffold/plugin-scaffolder.js';
+import { McpStdioClient } from './mcp-client.js';
+import { McpServerManager } from './mcp-server-manager.js';
+
+let tempDir: string;
+let pluginDir: string;
+let extensions: PluginExtension[];
+
+// A freshly scaffolded mcp-server plugin, built the way its build script
+// would, so the tests run against the echo server plugin authors start from
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-'));
+  pluginDir = scaffoldPlugin('echo-server', tempDir, { type: PluginType.MCP_SERVER }).directory!;
+  fs.symlinkSync(fileURLToPath(new URL('../node_modules', import.meta.url)), path.join(pluginDir, 'node_modules'), 'dir');
+  const tsc = createRequire(import.meta.url).resolve('typescript/bin/tsc');
+  execFileSync(process.execPath, [tsc, '-p', pluginDir], { stdio: 'pipe' });
+  extensions = JSON.parse(fs.readFileSync(path.join(pluginDir, 'package.json'), 'utf-8')).extensions;
+}, 60000);
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('McpStdioClient', () => {
+  let client: McpStdioClient;
+
+  afterEach(async () => {
+    await client.stop();
+  });
+
+  it('completes the handshake and lists and calls the echo tool', async () => {
+    client = new McpStdioClient('echo', extensions[0].config as McpServerConfig, {
+      baseDir: pluginDir,
+      clientVersion: '0.0.0-test',
+      requestTimeout: 5000
+    });
+    await client.start();
+
+    expect((await client.listTools()).map(tool => tool.name)).toEqual(['echo']);
+    expect(await client.callTool('echo', { text: 'hello' })).toBe('hello');
+    await expect(client.callTool('missing', {})).rejects.toThrow('Unknown tool: missing');
+  });
+
+  it('fails to start when the server is not there', async () => {
+    client = new McpStdioClient('missing', { command: 'node', args: ['dist/missing.mjs'] }, {
+      baseDir: pluginDir,
+      clientVersion: '0.0.0-test',
+      requestTimeout: 5000
+    });
+
+    await expect(client.start()).rejects.toThrow(/MCP server missing exited with code 1/);
+  });
+});
+
+describe('McpServerManager', () => {
+  let registry: PluginRegistry;
+  let manager: McpServerManager;
+
+  const start = async () => {
+    registry = new PluginRegistry();
+    manager = new McpServerManager(registry, { clientVersion: '0.0.0-test', requestTimeout: 5000, onLog: () => {} });
+    await manager.startServers('echo-server', extensions, pluginDir);
+  };
+
+  afterEach(async () => {
+    await manager.stopAll();
+  });
+
+  it('registers the server tools under the plugin', async () => {
+    await start();
+
+    expect(manager.getStatus('echo-server')).toMatchObject([{ name: 'echo-server', state: 'running', tools: ['echo'], restarts: 0 }]);
+    expect(registry.getOwner('tool', 'echo')).toBe('echo-server');
+    expect(await registry.invokeTool('echo', { text: 'hello' })).toEqual({ success: true, result: 'hello' });
+  });
+
+  it('restarts a server that crashed', async () => {
+    await start();
+    const [{ pid }] = manager.getStatus('echo-server');
+    process.kill(pid!, 'SIGKILL');
+
+    await vi.waitFor(() => expect(manager.getStatus('echo-server')[0].state).toBe('restarting'));
+    expect(manager.getStatus('echo-server')[0].lastError).toContain('was killed by SIGKILL');
+    expect(registry.getTool('echo')).toBeUndefined();
+
+    await vi.waitFor(() => expect(manager.getStatus('echo-server')[0].state).toBe('running'), { timeout: 5000 });
+    const status = manager.getStatus('echo-server')[0];
+    expect(status).toMatchObject({ restarts: 1, tools: ['echo'] });
+    expect(status.pid).not.toBe(pid);
+    expect(await registry.invokeTool('echo', { text: 'again' })).toEqual({ success: true, result: 'again' });
+  });
+
+  it('unregisters the tools when the servers are stopped', async () => {
+    await start();
+    await manager.stopServers('echo-server');
+
+    expect(manager.getStatus('echo-server')).toEqual([]);
+    expect(registry.getTool('echo')).toBeUndefined();
+  });
+});
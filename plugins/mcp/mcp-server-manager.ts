@@ -0,0 +1,246 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { McpServerConfig, PluginExtension } from '../plugin-interface.js';
+import { PluginRegistry } from '../plugin-registry.js';
+import { McpStdioClient, McpTool } from './mcp-client.js';
+
+/**
+ * Where a managed server is in its life:
+ * - starting: spawned, handshake not done yet
+ * - running: initialized, with its tools registered
+ * - restarting: crashed or failed to start and waiting for its next attempt
+ * - failed: gave up after too many restarts in a row
+ * - stopped: its plugin was disabled or unloaded
+ */
+export type McpServerState = 'starting' | 'running' | 'restarting' | 'failed' | 'stopped';
+
+export interface McpServerStatus {
+  name: string;
+  state: McpServerState;
+  pid?: number;
+  // Names the server's tools were registered under
+  tools: string[];
+  restarts: number;
+  lastError?: string;
+}
+
+export interface McpServerManagerOptions {
+  clientVersion: string;
+  // Milliseconds the handshake or a tool call may take
+  requestTimeout?: number;
+  // Restarts in a row before a crashing server is given up on
+  maxRestarts?: number;
+  onLog?(pluginName: string, message: string): void;
+  onStderr?(pluginName: string, serverName: string, line: string): void;
+}
+
+interface ManagedServer {
+  pluginName: string;
+  config: McpServerConfig;
+  baseDir: string;
+  status: McpServerStatus;
+  client: McpStdioClient | null;
+  // Tool names as the server reports them
+  serverTools: string[];
+  // Restarts since the server last stayed up for STABLE_AFTER
+  attempts: number;
+  restartTimer?: NodeJS.Timeout;
+  stableTimer?: NodeJS.Timeout;
+}
+
+// Permission a plugin needs before its servers are started
+export const MCP_SERVER_PERMISSION = 'process';
+
+// Restart delays double from the first to the last
+const FIRST_RESTART_DELAY = 1000;
+const MAX_RESTART_DELAY = 30000;
+// A server that stays up this long has its restart count in a row reset
+const STABLE_AFTER = 30000;
+
+/**
+ * Runs the mcp-server extensions of enabled plugins as child processes and
+ * exposes their tools through the tool registry under the plugin's name.
+ * Servers that exit are restarted with exponential backoff.
+ */
+export class McpServerManager {
+  private registry: PluginRegistry;
+  private options: McpServerManagerOptions;
+  private servers: Map<string, ManagedServer[]> = new Map();
+
+  constructor(registry: PluginRegistry, options: McpServerManagerOptions) {
+    this.registry = registry;
+    this.options = options;
+  }
+
+  /**
+   * Starts a plugin's mcp-server extensions and waits for each to finish its
+   * first attempt. Servers that fail are retried in the background, so this
+   * never rejects. Servers of the plugin that were given up on are tried
+   * again; running ones are left alone.
+   */
+  async startServers(pluginName: string, extensions: PluginExtension[], baseDir: string): Promise<void> {
+    const existing = this.servers.get(pluginName);
+    if (existing) {
+      await Promise.all(existing
+        .filter(server => server.status.state === 'failed')
+        .map(server => {
+          server.attempts = 0;
+          server.status.state = 'starting';
+          return this.launch(server);
+        }));
+      return;
+    }
+
+    const servers: ManagedServer[] = extensions
+      .filter(extension => extension.type === 'mcp-server')
+      .map(extension => ({
+        pluginName,
+        config: extension.config as McpServerConfig,
+        baseDir,
+        status: { name: extension.name, state: 'starting', tools: [], restarts: 0 },
+        client: null,
+        serverTools: [],
+        attempts: 0
+      }));
+    if (servers.length === 0) {
+      return;
+    }
+
+    this.servers.set(pluginName, servers);
+    await Promise.all(servers.map(server => this.launch(server)));
+  }
+
+  async stopServers(pluginName: string): Promise<void> {
+    const servers = this.servers.get(pluginName) || [];
+    this.servers.delete(pluginName);
+
+    await Promise.all(servers.map(async server => {
+      clearTimeout(server.restartTimer);
+      clearTimeout(server.stableTimer);
+      const client = server.client;
+      server.client = null;
+      this.unregisterTools(server);
+      server.status = { ...server.status, state: 'stopped', pid: undefined };
+      await client?.stop();
+    }));
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all(Array.from(this.servers.keys()).map(pluginName => this.stopServers(pluginName)));
+  }
+
+  getStatus(pluginName: string): McpServerStatus[] {
+    return (this.servers.get(pluginName) || []).map(server => ({ ...server.status, tools: [...server.status.tools] }));
+  }
+
+  private async launch(server: ManagedServer): Promise<void> {
+    const name = server.status.name;
+    const client: McpStdioClient = new McpStdioClient(name, server.config, {
+      baseDir: server.baseDir,
+      clientVersion: this.options.clientVersion,
+      requestTimeout: this.options.requestTimeout,
+      onStderr: line => this.options.onStderr?.(server.pluginName, name, line),
+      onExit: error => {
+        if (server.client === client && server.status.state === 'running') {
+          this.unregisterTools(server);
+          this.scheduleRestart(server, error);
+        }
+      }
+    });
+    server.client = client;
+
+    let tools: McpTool[];
+    try {
+      await client.start();
+      tools = await client.listTools();
+    } catch (error) {
+      if (server.client === client) {
+        await client.stop();
+        this.scheduleRestart(server, error instanceof Error ? error : new Error(String(error)));
+      }
+      return;
+    }
+
+    // Stopped while it was starting
+    if (server.client !== client) {
+      await client.stop();
+      return;
+    }
+
+    this.registerTools(server, tools);
+    server.status = { ...server.status, state: 'running', pid: client.pid, lastError: undefined };
+    server.stableTimer = setTimeout(() => {
+      server.attempts = 0;
+    }, STABLE_AFTER);
+    server.stableTimer.unref();
+  }
+
+  private scheduleRestart(server: ManagedServer, error: Error): void {
+    clearTimeout(server.stableTimer);
+    server.client = null;
+    server.status = { ...server.status, pid: undefined, lastError: error.message };
+
+    const maxRestarts = this.options.maxRestarts ?? 5;
+    if (server.attempts >= maxRestarts) {
+      server.status.state = 'failed';
+      this.options.onLog?.(server.pluginName, `${error.message}; gave up after ${maxRestarts} restarts`);
+      return;
+    }
+
+    const delay = Math.min(FIRST_RESTART_DELAY * 2 ** server.attempts, MAX_RESTART_DELAY);
+    server.attempts++;
+    server.status.state = 'restarting';
+    this.options.onLog?.(server.pluginName, `${error.message}; restarting in ${delay / 1000}s`);
+
+    // A crashed server must not keep the CLI alive waiting to restart it
+    server.restartTimer = setTimeout(() => {
+      server.status.restarts++;
+      this.launch(server);
+    }, delay);
+    server.restartTimer.unref();
+  }
+
+  private registerTools(server: ManagedServer, tools: McpTool[]): void {
+    const registry = this.registry.getToolRegistry(server.pluginName);
+    const registered: string[] = [];
+
+    for (const tool of tools) {
+      registry.registerTool({
+        name: tool.name,
+        displayName: tool.name,
+        description: tool.description || `${tool.name} from the ${server.status.name} MCP server`,
+        parameters: tool.inputSchema
+      }, args => {
+        if (!server.client || server.status.state !== 'running') {
+          throw new Error(`MCP server ${server.status.name} is not running`);
+        }
+        return server.client.callTool(tool.name, args);
+      });
+
+      // Conflicting names follow the registry's policy like any other tool
+      const namespaced = `${server.pluginName}:${tool.name}`;
+      if (this.registry.getOwner('tool', tool.name) === server.pluginName) {
+        registered.push(tool.name);
+      } else if (this.registry.getOwner('tool', namespaced) === server.pluginName) {
+        registered.push(namespaced);
+      } else {
+        this.options.onLog?.(server.pluginName, `tool "${tool.name}" of MCP server ${server.status.name} is already provided by another plugin and was not registered`);
+        continue;
+      }
+      server.serverTools.push(tool.name);
+    }
+
+    server.status.tools = registered;
+  }
+
+  private unregisterTools(server: ManagedServer): void {
+    const registry = this.registry.getToolRegistry(server.pluginName);
+    server.serverTools.forEach(name => registry.unregisterTool(name));
+    server.serverTools = [];
+    server.status = { ...server.status, tools: [] };
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PermissionManager, createPrivilegedApis } from './permission-manager.js';
+import { PluginMetadata, PluginPermission, PluginType } from './plugin-interface.js';
+
+const manifest = (permissions: PluginPermission[]): PluginMetadata => ({
+  name: 'permission-test',
+  version: '1.0.0',
+  description: 'A plugin asking for permissions',
+  author: 'Tests',
+  type: PluginType.UTILITY,
+  entryPoint: 'index.js',
+  compatibility: { 'gemini-cli': '>=0.1.0' },
+  permissions
+});
+
+const NETWORK: PluginPermission = { name: 'network', description: 'Call the API', required: true };
+const FILES: PluginPermission = { name: 'file-system', description: 'Cache results', required: false };
+
+describe('PermissionManager', () => {
+  let pluginRoot: string;
+
+  beforeEach(() => {
+    pluginRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'permission-manager-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(pluginRoot, { recursive: true, force: true });
+  });
+
+  it('persists granted permissions', async () => {
+    const consent = await new PermissionManager(pluginRoot).requestConsent(manifest([NETWORK, FILES]), async () => ['network', 'file-system']);
+    expect(consent).toEqual({ granted: ['network', 'file-system'], declined: [], missingRequired: [] });
+
+    const permissions = new PermissionManager(pluginRoot);
+    expect(permissions.hasPermission('permission-test', 'network')).toBe(true);
+    expect(permissions.getGrants('permission-test')).toEqual({ granted: ['network', 'file-system'], denied: [] });
+  });
+
+  it('only prompts for permissions that were not answered yet', async () => {
+    const permissions = new PermissionManager(pluginRoot);
+    await permissions.requestConsent(manifest([NETWORK]), async () => ['network']);
+
+    const prompt = vi.fn(async () => []);
+    await permissions.requestConsent(manifest([NETWORK, FILES]), prompt);
+    expect(prompt).toHaveBeenCalledWith('permission-test', [FILES]);
+  });
+
+  it('remembers a declined optional permission', async () => {
+    const permissions = new PermissionManager(pluginRoot);
+    const consent = await permissions.requestConsent(manifest([FILES]), async () => []);
+    expect(consent).toEqual({ granted: [], declined: ['file-system'], missingRequired: [] });
+
+    const prompt = vi.fn(async () => []);
+    await permissions.requestConsent(manifest([FILES]), prompt);
+    expect(prompt).not.toHaveBeenCalled();
+    expect(permissions.getGrants('permission-test').denied).toEqual(['file-system']);
+  });
+
+  it('asks again for a declined required permission', async () => {
+    const permissions = new PermissionManager(pluginRoot);
+    const consent = await permissions.requestConsent(manifest([NETWORK]), async () => []);
+    expect(consent.missingRequired).toEqual(['network']);
+    expect(permissions.getPendingPermissions(manifest([NETWORK]))).toEqual([NETWORK]);
+
+    expect((await permissions.requestConsent(manifest([NETWORK]), async () => ['network'])).missingRequired).toEqual([]);
+  });
+
+  it('declines everything without a prompt', async () => {
+    const consent = await new PermissionManager(pluginRoot).requestConsent(manifest([NETWORK, FILES]));
+    expect(consent).toEqual({ granted: [], declined: ['network', 'file-system'], missingRequired: ['network'] });
+  });
+
+  it('revokes a granted permission', async () => {
+    const permissions = new PermissionManager(pluginRoot);
+    await permissions.requestConsent(manifest([NETWORK]), async () => ['network']);
+
+    expect(permissions.revoke('permission-test', 'network')).toBe(true);
+    expect(permissions.hasPermission('permission-test', 'network')).toBe(false);
+    expect(permissions.getMissingRequired(manifest([NETWORK]))).toEqual(['network']);
+    expect(permissions.revoke('permission-test', 'network')).toBe(false);
+  });
+
+  it('forgets every answer when a plugin is cleared', async () => {
+    const permissions = new PermissionManager(pluginRoot);
+    await permissions.requestConsent(manifest([NETWORK, FILES]), async () => ['network']);
+    permissions.clear('permission-test');
+
+    expect(permissions.getGrants('permission-test')).toEqual({ granted: [], denied: [] });
+  });
+});
+
+describe('createPrivilegedApis', () => {
+  it('exposes no API without a grant', () => {
+    expect(createPrivilegedApis([])).toEqual({});
+  });
+
+  it('exposes each API only with its permission', () => {
+    expect(Object.keys(createPrivilegedApis(['network']))).toEqual(['fetch']);
+    expect(Object.keys(createPrivilegedApis(['file-system']))).toEqual(['fs']);
+    expect(Object.keys(createPrivilegedApis(['process']))).toEqual(['exec']);
+    expect(Object.keys(createPrivilegedApis(['environment']))).toEqual(['env']);
+  });
+
+  it('gives the environment as a copy', () => {
+    const { env } = createPrivilegedApis(['environment']);
+    env!.PERMISSION_TEST = 'changed';
+    expect(process.env.PERMISSION_TEST).toBeUndefined();
+  });
+
+  it('runs commands without a shell and reports their exit code', async () => {
+    const { exec } = createPrivilegedApis(['process']);
+
+    expect(await exec!(process.execPath, ['-e', 'process.stdout.write("out; echo injected")'])).toEqual({
+      stdout: 'out; echo injected',
+      stderr: '',
+      exitCode: 0
+    });
+    expect((await exec!(process.execPath, ['-e', 'process.exit(3)'])).exitCode).toBe(3);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as fsPromises from 'node:fs/promises';
+import * as path from 'node:path';
+import { execFile } from 'node:child_process';
+import { PluginContext, PluginMetadata, PluginPermission } from './plugin-interface.js';
+
+/**
+ * Asks the user which of the listed permissions to grant and resolves to the
+ * names of the granted ones.
+ */
+export type PermissionPrompt = (pluginName: string, permissions: PluginPermission[]) => Promise<string[]>;
+
+export interface PermissionGrants {
+  granted: string[];
+  denied: string[];
+}
+
+export interface ConsentResult {
+  granted: string[];
+  declined: string[];
+  missingRequired: string[];
+}
+
+export type PrivilegedApis = Pick<PluginContext, 'fs' | 'fetch' | 'exec' | 'env'>;
+
+export class PermissionManager {
+  private permissionsFile: string;
+
+  constructor(pluginRoot: string) {
+    this.permissionsFile = path.join(pluginRoot, 'permissions.json');
+  }
+
+  getGrants(pluginName: string): PermissionGrants {
+    return this.loadGrants()[pluginName] || { granted: [], denied: [] };
+  }
+
+  hasPermission(pluginName: string, permission: string): boolean {
+    return this.getGrants(pluginName).granted.includes(permission);
+  }
+
+  /**
+   * Returns declared permissions the user has neither granted nor declined,
+   * e.g. permissions added by a plugin update.
+   */
+  getPendingPermissions(metadata: PluginMetadata): PluginPermission[] {
+    const grants = this.getGrants(metadata.name);
+    return (metadata.permissions || []).filter(permission =>
+      !grants.granted.includes(permission.name) && !grants.denied.includes(permission.name)
+    );
+  }
+
+  getMissingRequired(metadata: PluginMetadata): string[] {
+    const grants = this.getGrants(metadata.name);
+    return (metadata.permissions || [])
+      .filter(permission => permission.required && !grants.granted.includes(permission.name))
+      .map(permission => permission.name);
+  }
+
+  /**
+   * Prompts for every pending permission and persists the answers. Declined
+   * optional permissions are remembered so the user is not asked again;
+   * declined required permissions are reported in `missingRequired`.
+   */
+  async requestConsent(metadata: PluginMetadata, prompt?: PermissionPrompt): Promise<ConsentResult> {
+    const pending = this.getPendingPermissions(metadata);
+    const granted = pending.length > 0 && prompt ? await prompt(metadata.name, pending) : [];
+
+    const grants = this.loadGrants();
+    const current = grants[metadata.name] || { granted: [], denied: [] };
+    const declined: string[] = [];
+
+    for (const permission of pending) {
+      if (granted.includes(permission.name)) {
+        current.granted.push(permission.name);
+      } else {
+        declined.push(permission.name);
+        // Required permissions stay pending so the next install or enable asks again
+        if (!permission.required) {
+          current.denied.push(permission.name);
+        }
+      }
+    }
+
+    grants[metadata.name] = current;
+    this.saveGrants(grants);
+
+    return { granted, declined, missingRequired: this.getMissingRequired(metadata) };
+  }
+
+  revoke(pluginName: string, permission: string): boolean {
+    const grants = this.loadGrants();
+    const current = grants[pluginName];
+    if (!current || !current.granted.includes(permission)) {
+      return false;
+    }
+
+    current.granted = current.granted.filter(name => name !== permission);
+    this.saveGrants(grants);
+    return true;
+  }
+
+  clear(pluginName: string): void {
+    const grants = this.loadGrants();
+    if (grants[pluginName]) {
+      delete grants[pluginName];
+      this.saveGrants(grants);
+    }
+  }
+
+  createPrivilegedApis(pluginName: string): PrivilegedApis {
+    return createPrivilegedApis(this.getGrants(pluginName).granted);
+  }
+
+  private loadGrants(): Record<string, PermissionGrants> {
+    if (fs.existsSync(this.permissionsFile)) {
+      try {
+        return JSON.parse(fs.readFileSync(this.permissionsFile, 'utf-8')).plugins || {};
+      } catch (error) {
+        console.warn('Failed to load plugin permissions:', error);
+      }
+    }
+    return {};
+  }
+
+  private saveGrants(grants: Record<string, PermissionGrants>): void {
+    fs.writeFileSync(this.permissionsFile, JSON.stringify({ plugins: grants }, null, 2));
+  }
+}
+
+/**
+ * Builds the privileged context APIs a plugin may use. Each API is only
+ * present when the matching permission has been granted.
+ */
+export function createPrivilegedApis(granted: string[]): PrivilegedApis {
+  const apis: PrivilegedApis = {};
+
+  if (granted.includes('file-system')) {
+    apis.fs = fsPromises;
+  }
+
+  if (granted.includes('network')) {
+    apis.fetch = fetch;
+  }
+
+  if (granted.includes('process')) {
+    apis.exec = (command, args = [], options = {}) => new Promise(resolve => {
+      execFile(command, args, { cwd: options.cwd, timeout: options.timeout }, (error, stdout, stderr) => {
+        const exitCode = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+        resolve({ stdout: String(stdout), stderr: String(stderr), exitCode });
+      });
+    });
+  }
+
+  if (granted.includes('environment')) {
+    apis.env = { ...process.env };
+  }
+
+  return apis;
+}
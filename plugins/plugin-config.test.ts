@@ -0,0 +1,164 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PluginConfigSchema, PluginMetadata, PluginType } from './plugin-interface.js';
+import { PluginConfigStore, getConfigEnvName, parseConfigValue } from './plugin-config.js';
+
+const SCHEMA: PluginConfigSchema = {
+  properties: {
+    apiUrl: { type: 'string', format: 'uri', default: 'https://api.example.com' },
+    maxResults: { type: 'integer', minimum: 1, default: 10 },
+    verbose: { type: 'boolean', default: false },
+    tags: { type: 'array', items: { type: 'string' } },
+    region: { type: 'string', enum: ['eu', 'us'] }
+  },
+  required: ['region']
+};
+
+const manifest = (): PluginMetadata => ({
+  name: '@acme/search',
+  version: '1.0.0',
+  description: 'Search plugin',
+  author: 'Tests',
+  type: PluginType.TOOL,
+  entryPoint: 'index.js',
+  compatibility: { 'gemini-cli': '>=0.1.0' },
+  configSchema: SCHEMA
+});
+
+describe('getConfigEnvName', () => {
+  it.each([
+    ['@acme/search', 'maxResults', 'GEMINI_PLUGIN_ACME_SEARCH_MAX_RESULTS'],
+    ['git-workflow', 'api_url', 'GEMINI_PLUGIN_GIT_WORKFLOW_API_URL'],
+    ['pip', 'HTTPProxy', 'GEMINI_PLUGIN_PIP_HTTPPROXY']
+  ])('names the override of %s %s', (pluginName, key, envName) => {
+    expect(getConfigEnvName(pluginName, key)).toBe(envName);
+  });
+});
+
+describe('parseConfigValue', () => {
+  it.each([
+    ['42', { type: 'string' }, '42'],
+    ['42', { type: 'number' }, 42],
+    ['-1.5', { type: 'integer' }, -1.5],
+    ['YES', { type: 'boolean' }, true],
+    ['0', { type: 'boolean' }, false],
+    ['["a","b"]', { type: 'array' }, ['a', 'b']],
+    ['{"a":1}', { type: 'object' }, { a: 1 }],
+    ['true', undefined, true],
+    ['not json', undefined, 'not json']
+  ] as const)('parses %s as %o', (raw, property, expected) => {
+    expect(parseConfigValue(raw, property)).toEqual(expected);
+  });
+
+  it.each([
+    ['ten', { type: 'number' }, 'must be a number, got "ten"'],
+    [' ', { type: 'integer' }, 'must be a number, got " "'],
+    ['maybe', { type: 'boolean' }, 'must be true or false, got "maybe"'],
+    ['[a', { type: 'array' }, 'must be a JSON array, got "[a"']
+  ] as const)('rejects %s for %o', (raw, property, message) => {
+    expect(() => parseConfigValue(raw, property)).toThrow(message);
+  });
+});
+
+describe('PluginConfigStore', () => {
+  let pluginRoot: string;
+  let pluginDir: string;
+
+  beforeEach(() => {
+    pluginRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-config-'));
+    pluginDir = path.join(pluginRoot, '@acme', 'search');
+    fs.mkdirSync(pluginDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(pluginRoot, { recursive: true, force: true });
+  });
+
+  it('stores user values per plugin and removes them', () => {
+    const store = new PluginConfigStore(pluginRoot, {});
+    store.set('@acme/search', 'region', 'eu');
+    store.set('other', 'region', 'us');
+
+    expect(new PluginConfigStore(pluginRoot, {}).getStored('@acme/search')).toEqual({ region: 'eu' });
+    expect(store.unset('@acme/search', 'region')).toBe(true);
+    expect(store.unset('@acme/search', 'region')).toBe(false);
+    store.clear('other');
+    expect(JSON.parse(fs.readFileSync(path.join(pluginRoot, 'config.json'), 'utf-8'))).toEqual({});
+  });
+
+  it('layers defaults, the plugin config file, user values and environment overrides', () => {
+    fs.writeFileSync(path.join(pluginDir, 'config.json'), JSON.stringify({ maxResults: 20, verbose: true }));
+    const store = new PluginConfigStore(pluginRoot, {
+      GEMINI_PLUGIN_ACME_SEARCH_MAX_RESULTS: '50',
+      GEMINI_PLUGIN_ACME_SEARCH_TAGS: '["docs"]'
+    });
+    store.set('@acme/search', 'region', 'eu');
+    store.set('@acme/search', 'maxResults', 30);
+
+    const { values, entries, errors } = store.resolve(manifest(), pluginDir);
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ apiUrl: 'https://api.example.com', maxResults: 50, verbose: true, tags: ['docs'], region: 'eu' });
+    expect(entries.map(entry => [entry.key, entry.source])).toEqual([
+      ['apiUrl', 'default'],
+      ['maxResults', 'env'],
+      ['region', 'user'],
+      ['tags', 'env'],
+      ['verbose', 'plugin']
+    ]);
+    expect(entries.find(entry => entry.key === 'region')).toMatchObject({
+      required: true,
+      envName: 'GEMINI_PLUGIN_ACME_SEARCH_REGION'
+    });
+  });
+
+  it('reports an environment override that does not parse as its type and keeps the value below it', () => {
+    const store = new PluginConfigStore(pluginRoot, {
+      GEMINI_PLUGIN_ACME_SEARCH_VERBOSE: 'maybe',
+      GEMINI_PLUGIN_ACME_SEARCH_REGION: 'eu'
+    });
+
+    const { values, errors } = store.resolve(manifest(), pluginDir);
+    expect(errors).toEqual([{ path: 'GEMINI_PLUGIN_ACME_SEARCH_VERBOSE', message: 'must be true or false, got "maybe"' }]);
+    expect(values).toMatchObject({ verbose: false, region: 'eu' });
+  });
+
+  it('ignores environment variables for undeclared keys', () => {
+    const store = new PluginConfigStore(pluginRoot, { GEMINI_PLUGIN_ACME_SEARCH_TOKEN: 'secret', GEMINI_PLUGIN_ACME_SEARCH_REGION: 'us' });
+
+    expect(store.resolve(manifest(), pluginDir).values).not.toHaveProperty('token');
+  });
+
+  it('validates the resolved values against the config schema', () => {
+    const store = new PluginConfigStore(pluginRoot, { GEMINI_PLUGIN_ACME_SEARCH_MAX_RESULTS: '0' });
+    store.set('@acme/search', 'apiUrl', 'not a url');
+    store.set('@acme/search', 'tags', ['docs', 3]);
+
+    expect(store.resolve(manifest(), pluginDir).errors.map(error => error.path)).toEqual([
+      'config.region',
+      'config.apiUrl',
+      'config.maxResults',
+      'config.tags[1]'
+    ]);
+
+    store.set('@acme/search', 'region', 'asia');
+    expect(store.resolve(manifest(), pluginDir).errors).toContainEqual({ path: 'config.region', message: 'must be one of: "eu", "us"' });
+  });
+
+  it('keeps undeclared user values without a schema to check them', () => {
+    const store = new PluginConfigStore(pluginRoot, {});
+    store.set('@acme/search', 'anything', { nested: true });
+
+    expect(store.resolve({ ...manifest(), configSchema: undefined }, pluginDir)).toMatchObject({
+      values: { anything: { nested: true } },
+      errors: []
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { PluginConfigProperty, PluginConfigSchema, PluginMetadata } from './plugin-interface.js';
+import { SchemaValidationError, validateSchema } from './schema-validator.js';
+
+/**
+ * Where a config value comes from, from lowest to highest precedence:
+ * - default: the configSchema default
+ * - plugin: a config.json shipped inside the plugin directory
+ * - user: set with `gemini plugins config <name> set`
+ * - env: a GEMINI_PLUGIN_<PLUGIN>_<KEY> environment variable
+ */
+export type ConfigValueSource = 'default' | 'plugin' | 'user' | 'env';
+
+export interface ConfigEntry {
+  key: string;
+  value?: unknown;
+  // Unset when the key has neither a value nor a default
+  source?: ConfigValueSource;
+  // Undefined for keys the plugin does not declare
+  property?: PluginConfigProperty;
+  required: boolean;
+  envName: string;
+}
+
+export interface ResolvedPluginConfig {
+  values: Record<string, unknown>;
+  entries: ConfigEntry[];
+  errors: SchemaValidationError[];
+}
+
+/**
+ * User config for every plugin, kept in .gemini/plugins/config.json keyed by
+ * plugin name so reinstalls and updates, which replace the plugin
+ * directory, do not lose it.
+ */
+export class PluginConfigStore {
+  private configFile: string;
+  private env: NodeJS.ProcessEnv;
+
+  constructor(pluginRoot: string, env: NodeJS.ProcessEnv = process.env) {
+    this.configFile = path.join(pluginRoot, 'config.json');
+    this.env = env;
+  }
+
+  getStored(pluginName: string): Record<string, unknown> {
+    return this.loadConfig()[pluginName] || {};
+  }
+
+  set(pluginName: string, key: string, value: unknown): void {
+    const config = this.loadConfig();
+    config[pluginName] = { ...config[pluginName], [key]: value };
+    this.saveConfig(config);
+  }
+
+  unset(pluginName: string, key: string): boolean {
+    const config = this.loadConfig();
+    if (!config[pluginName] || !(key in config[pluginName])) {
+      return false;
+    }
+
+    delete config[pluginName][key];
+    if (Object.keys(config[pluginName]).length === 0) {
+      delete config[pluginName];
+    }
+    this.saveConfig(config);
+    return true;
+  }
+
+  clear(pluginName: string): void {
+    const config = this.loadConfig();
+    if (config[pluginName]) {
+      delete config[pluginName];
+      this.saveConfig(config);
+    }
+  }
+
+  /**
+   * Layers a plugin's config from every source and validates the result
+   * against its configSchema. Environment overrides only exist for declared
+   * keys; one that cannot be parsed as its key's type is an error.
+   */
+  resolve(metadata: PluginMetadata, pluginDir: string): ResolvedPluginConfig {
+    const pluginName = metadata.name;
+    const properties = metadata.configSchema?.properties || {};
+    const entries = new Map<string, ConfigEntry>();
+    const errors: SchemaValidationError[] = [];
+
+    const apply = (values: Record<string, unknown>, source: ConfigValueSource) => {
+      for (const [key, value] of Object.entries(values)) {
+        if (value === undefined) continue;
+        const entry = entries.get(key) || { key, required: false, envName: getConfigEnvName(pluginName, key) };
+        entries.set(key, { ...entry, value, source });
+      }
+    };
+
+    for (const [key, property] of Object.entries(properties)) {
+      const required = metadata.configSchema?.required?.includes(key) ?? false;
+      entries.set(key, { key, property, required, envName: getConfigEnvName(pluginName, key) });
+    }
+    apply(Object.fromEntries(Object.entries(properties).map(([key, property]) => [key, property.default])), 'default');
+    apply(readPluginConfigFile(path.join(pluginDir, 'config.json'), pluginName), 'plugin');
+    apply(this.getStored(pluginName), 'user');
+
+    const overrides: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(properties)) {
+      const envName = getConfigEnvName(pluginName, key);
+      const raw = this.env[envName];
+      if (raw === undefined) continue;
+      try {
+        overrides[key] = parseConfigValue(raw, property);
+      } catch (error) {
+        errors.push({ path: envName, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    apply(overrides, 'env');
+
+    const values: Record<string, unknown> = {};
+    for (const entry of entries.values()) {
+      if (entry.source) {
+        values[entry.key] = entry.value;
+      }
+    }
+    errors.push(...validateSchema(toJsonSchema(metadata.configSchema), values, 'config'));
+
+    return {
+      values,
+      entries: Array.from(entries.values()).sort((a, b) => a.key.localeCompare(b.key)),
+      errors
+    };
+  }
+
+  private loadConfig(): Record<string, Record<string, unknown>> {
+    if (!fs.existsSync(this.configFile)) {
+      return {};
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.configFile, 'utf-8'));
+    } catch (error) {
+      console.warn('Failed to load plugin config:', error);
+      return {};
+    }
+  }
+
+  private saveConfig(config: Record<string, Record<string, unknown>>): void {
+    fs.writeFileSync(this.configFile, JSON.stringify(config, null, 2));
+  }
+}
+
+/**
+ * Environment variable that overrides a config key, e.g. maxResults of
+ * @acme/search becomes GEMINI_PLUGIN_ACME_SEARCH_MAX_RESULTS.
+ */
+export function getConfigEnvName(pluginName: string, key: string): string {
+  const toEnv = (value: string) => value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+  return `GEMINI_PLUGIN_${toEnv(pluginName)}_${toEnv(key)}`;
+}
+
+/**
+ * Parses a value typed on the command line or in an environment variable as
+ * its key's type. Without a declared type, JSON is parsed and anything else
+ * is kept as a string.
+ */
+export function parseConfigValue(raw: string, property?: PluginConfigProperty): unknown {
+  switch (property?.type) {
+    case 'string':
+      return raw;
+    case 'number':
+    case 'integer': {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw new Error(`must be a number, got "${raw}"`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (['true', '1', 'yes'].includes(raw.toLowerCase())) return true;
+      if (['false', '0', 'no'].includes(raw.toLowerCase())) return false;
+      throw new Error(`must be true or false, got "${raw}"`);
+    case 'array':
+    case 'object':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new Error(`must be a JSON ${property.type}, got "${raw}"`);
+      }
+    default:
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw;
+      }
+  }
+}
+
+function toJsonSchema(schema: PluginConfigSchema | undefined): Record<string, any> | undefined {
+  return schema && { type: 'object', properties: schema.properties, required: schema.required };
+}
+
+function readPluginConfigFile(configFile: string, pluginName: string): Record<string, unknown> {
+  if (!fs.existsSync(configFile)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+  } catch (error) {
+    console.warn(`Failed to load config for plugin ${pluginName}:`, error);
+    return {};
+  }
+}
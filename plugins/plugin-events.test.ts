@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PluginEventBus } from './plugin-events.js';
+
+const PROMPT = { prompt: 'hello' };
+
+describe('PluginEventBus', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('delivers events to every subscriber until it unsubscribes', async () => {
+    const bus = new PluginEventBus();
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribe = bus.forPlugin('a').on('prompt:before', first);
+    bus.forPlugin('b').on('prompt:before', second);
+
+    expect(await bus.emit('prompt:before', PROMPT)).toEqual([]);
+    unsubscribe();
+    await bus.emit('prompt:before', PROMPT);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+  });
+
+  it('delivers once subscriptions a single time', async () => {
+    const bus = new PluginEventBus();
+    const handler = vi.fn();
+    bus.forPlugin('a').once('session:end', handler);
+
+    await bus.emit('session:end', { sessionId: '1' });
+    await bus.emit('session:end', { sessionId: '2' });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(bus.getSubscribedEvents('a')).toEqual([]);
+  });
+
+  it('gives each handler its own copy of the payload', async () => {
+    const bus = new PluginEventBus();
+    const payload = { prompt: 'original' };
+    const seen: string[] = [];
+    bus.forPlugin('a').on('prompt:before', event => { event.prompt = 'changed'; });
+    bus.forPlugin('b').on('prompt:before', event => { seen.push(event.prompt); });
+
+    await bus.emit('prompt:before', payload);
+
+    expect(seen).toEqual(['original']);
+    expect(payload.prompt).toBe('original');
+  });
+
+  it('skips subscribers of disabled plugins and drops an unloaded plugin', async () => {
+    const bus = new PluginEventBus({ isEnabled: pluginName => pluginName !== 'disabled' });
+    const disabled = vi.fn();
+    const enabled = vi.fn();
+    bus.forPlugin('disabled').on('prompt:before', disabled);
+    bus.forPlugin('enabled').on('prompt:before', enabled);
+    bus.forPlugin('enabled').on('session:end', enabled);
+
+    await bus.emit('prompt:before', PROMPT);
+    expect(disabled).not.toHaveBeenCalled();
+    expect(enabled).toHaveBeenCalledTimes(1);
+    expect(bus.getSubscribedEvents('enabled')).toEqual(['prompt:before', 'session:end']);
+
+    bus.unsubscribePlugin('enabled');
+    expect(bus.getSubscribedEvents('enabled')).toEqual([]);
+  });
+
+  describe('failing handlers', () => {
+    it('are reported without affecting other handlers or the emitter', async () => {
+      const onHandlerError = vi.fn();
+      const bus = new PluginEventBus({ onHandlerError });
+      const healthy = vi.fn();
+      bus.forPlugin('throws').on('prompt:before', () => { throw new Error('sync failure'); });
+      bus.forPlugin('rejects').on('prompt:before', async () => { throw 'async failure'; });
+      bus.forPlugin('healthy').on('prompt:before', healthy);
+
+      const failures = await bus.emit('prompt:before', PROMPT);
+
+      expect(healthy).toHaveBeenCalledTimes(1);
+      expect(failures).toEqual([
+        { plugin: 'throws', event: 'prompt:before', error: 'Handler for prompt:before failed: sync failure' },
+        { plugin: 'rejects', event: 'prompt:before', error: 'Handler for prompt:before failed: async failure' }
+      ]);
+      expect(onHandlerError).toHaveBeenCalledWith('throws', 'prompt:before', expect.objectContaining({ message: 'Handler for prompt:before failed: sync failure' }));
+      expect(onHandlerError).toHaveBeenCalledTimes(2);
+    });
+
+    it('time out without holding up the others', async () => {
+      vi.useFakeTimers();
+      const bus = new PluginEventBus({ handlerTimeout: 1000 });
+      const healthy = vi.fn();
+      bus.forPlugin('hangs').on('prompt:before', () => new Promise<void>(() => {}));
+      bus.forPlugin('slow').on('prompt:before', () => new Promise<void>(resolve => setTimeout(resolve, 500)));
+      bus.forPlugin('healthy').on('prompt:before', healthy);
+
+      let failures;
+      const emitted = bus.emit('prompt:before', PROMPT).then(result => { failures = result; });
+      await vi.advanceTimersByTimeAsync(999);
+      expect(failures).toBeUndefined();
+      expect(healthy).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await emitted;
+      expect(failures).toEqual([
+        { plugin: 'hangs', event: 'prompt:before', error: 'Handler for prompt:before did not finish within 1000ms' }
+      ]);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+});
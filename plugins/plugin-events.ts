@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PluginEventHandler, PluginEventMap, PluginEventName, PluginEvents } from './plugin-interface.js';
+
+export interface PluginEventBusOptions {
+  // Milliseconds the bus waits for a handler before giving up on it
+  handlerTimeout?: number;
+  // Subscribers of plugins this rejects are skipped, e.g. disabled plugins
+  isEnabled?(pluginName: string): boolean;
+  onHandlerError?(pluginName: string, event: PluginEventName, error: Error): void;
+}
+
+export interface EventHandlerFailure {
+  plugin: string;
+  event: PluginEventName;
+  error: string;
+}
+
+interface Subscription {
+  pluginName: string;
+  event: PluginEventName;
+  handler: PluginEventHandler<any>;
+  once: boolean;
+}
+
+const DEFAULT_HANDLER_TIMEOUT = 5000;
+
+/**
+ * Delivers CLI events to plugin subscribers. Each plugin subscribes through
+ * its own view of the bus, so its subscriptions can be dropped in one go
+ * when it is disabled or unloaded. A failing or slow handler is reported
+ * and never reaches the code that emitted the event.
+ */
+export class PluginEventBus {
+  private subscriptions: Subscription[] = [];
+  private options: PluginEventBusOptions;
+
+  constructor(options: PluginEventBusOptions = {}) {
+    this.options = options;
+  }
+
+  forPlugin(pluginName: string): PluginEvents {
+    return {
+      on: (event, handler) => this.subscribe({ pluginName, event, handler, once: false }),
+      once: (event, handler) => this.subscribe({ pluginName, event, handler, once: true }),
+      off: (event, handler) => {
+        this.subscriptions = this.subscriptions.filter(subscription =>
+          subscription.pluginName !== pluginName || subscription.event !== event || subscription.handler !== handler);
+      }
+    };
+  }
+
+  unsubscribePlugin(pluginName: string): void {
+    this.subscriptions = this.subscriptions.filter(subscription => subscription.pluginName !== pluginName);
+  }
+
+  getSubscribedEvents(pluginName: string): PluginEventName[] {
+    const events = this.subscriptions
+      .filter(subscription => subscription.pluginName === pluginName)
+      .map(subscription => subscription.event);
+    return Array.from(new Set(events)).sort();
+  }
+
+  /**
+   * Calls every enabled subscriber of an event concurrently and resolves
+   * once each has finished or timed out. Never rejects; handler failures
+   * are passed to onHandlerError and returned.
+   */
+  async emit<E extends PluginEventName>(event: E, payload: PluginEventMap[E]): Promise<EventHandlerFailure[]> {
+    const targets = this.subscriptions.filter(subscription =>
+      subscription.event === event && (this.options.isEnabled?.(subscription.pluginName) ?? true));
+    const fired = new Set(targets.filter(subscription => subscription.once));
+    this.subscriptions = this.subscriptions.filter(subscription => !fired.has(subscription));
+
+    const failures: EventHandlerFailure[] = [];
+    await Promise.all(targets.map(async subscription => {
+      const error = await this.deliver(subscription, payload);
+      if (error) {
+        failures.push({ plugin: subscription.pluginName, event, error: error.message });
+        this.options.onHandlerError?.(subscription.pluginName, event, error);
+      }
+    }));
+    return failures;
+  }
+
+  private subscribe(subscription: Subscription): () => void {
+    this.subscriptions.push(subscription);
+    return () => {
+      this.subscriptions = this.subscriptions.filter(existing => existing !== subscription);
+    };
+  }
+
+  private async deliver(subscription: Subscription, payload: unknown): Promise<Error | null> {
+    const timeout = this.options.handlerTimeout ?? DEFAULT_HANDLER_TIMEOUT;
+    let timer: NodeJS.Timeout | undefined;
+
+    const timedOut = new Promise<Error>(resolve => {
+      timer = setTimeout(() => {
+        resolve(new Error(`Handler for ${subscription.event} did not finish within ${timeout}ms`));
+      }, timeout);
+    });
+
+    // Each handler gets its own copy so it cannot change what others see
+    const handled = (async () => {
+      await subscription.handler(structuredClone(payload));
+      return null;
+    })().catch(error => new Error(`Handler for ${subscription.event} failed: ${error instanceof Error ? error.message : String(error)}`));
+
+    try {
+      return await Promise.race([handled, timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PluginType } from './plugin-interface.js';
+import { PluginInstaller } from './plugin-installer.js';
+import { PluginLockfile } from './plugin-lockfile.js';
+import { scaffoldPlugin } from './scaffold/plugin-scaffolder.js';
+
+// A local plugin source without npm dependencies; `fields` override the manifest
+const writeSource = (dir: string, version: string, fields: Record<string, unknown> = {}) => {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({
+    name: 'staged',
+    version,
+    description: 'staged plugin',
+    author: 'Tests',
+    type: 'utility',
+    entryPoint: 'index.mjs',
+    compatibility: { 'gemini-cli': '>=0.1.0' },
+    ...fields
+  }));
+  fs.writeFileSync(path.join(dir, 'index.mjs'), `export const version = '${version}';\n`);
+  return dir;
+};
+
+describe('PluginInstaller', () => {
+  let tempDir: string;
+  let pluginRoot: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-installer-'));
+    pluginRoot = path.join(tempDir, 'plugins');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('installs a scaffolded project from its directory after npm install', async () => {
+    // The next steps the scaffold prints: npm install && npm test, then a local install
+    const projectDir = scaffoldPlugin('local-tool', tempDir, { type: PluginType.TOOL }).directory!;
+    execFileSync('npm', ['install', '--prefer-offline', '--no-audit', '--no-fund'], { cwd: projectDir, stdio: 'pipe' });
+    execFileSync('npm', ['test'], { cwd: projectDir, stdio: 'pipe' });
+
+    const result = await new PluginInstaller(pluginRoot).install('local-tool', projectDir, { allowUnverified: true });
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+
+    const installedDir = path.join(pluginRoot, 'local-tool');
+    expect(fs.lstatSync(path.join(installedDir, 'node_modules', '.bin', 'tsc')).isSymbolicLink()).toBe(true);
+    expect(fs.existsSync(path.join(installedDir, 'dist', 'index.mjs'))).toBe(true);
+  }, 120000);
+
+  describe('staging and rollback', () => {
+    let source: string;
+    let lockfile: PluginLockfile;
+    let installer: PluginInstaller;
+
+    const installedVersion = () => installer.getPluginMetadata('staged')?.version;
+
+    beforeEach(async () => {
+      source = writeSource(path.join(tempDir, 'src'), '1.0.0');
+      lockfile = new PluginLockfile(tempDir);
+      installer = new PluginInstaller(pluginRoot, { cli: '1.0.0', node: process.versions.node }, lockfile);
+      expect(await installer.install('staged', source, { allowUnverified: true })).toMatchObject({ success: true });
+    }, 30000);
+
+    it('keeps the installed version when the new one fails validation', async () => {
+      writeSource(source, '2.0.0', { entryPoint: 'missing.mjs' });
+
+      const result = await installer.update('staged', { allowUnverified: true });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('entry point not found');
+      expect(installedVersion()).toBe('1.0.0');
+      expect(installer.getInstallRecord('staged')!.version).toBe('1.0.0');
+      expect(lockfile.getEntry('staged')!.version).toBe('1.0.0');
+      expect(installer.getBackupVersion('staged')).toBeUndefined();
+      expect(fs.readdirSync(path.join(pluginRoot, '.staging'))).toEqual([]);
+    }, 30000);
+
+    it('keeps the installed version when the new one is incompatible', async () => {
+      writeSource(source, '2.0.0', { compatibility: { 'gemini-cli': '>=2.0.0' } });
+
+      const result = await installer.update('staged', { allowUnverified: true });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('is not compatible with this environment');
+      expect(installedVersion()).toBe('1.0.0');
+      expect(fs.readdirSync(path.join(pluginRoot, '.staging'))).toEqual([]);
+    }, 30000);
+
+    it('backs up the replaced version and rolls back to it', async () => {
+      writeSource(source, '2.0.0');
+      expect(await installer.update('staged', { allowUnverified: true })).toMatchObject({ success: true });
+      expect(installedVersion()).toBe('2.0.0');
+      expect(installer.getBackupVersion('staged')).toBe('1.0.0');
+      expect(lockfile.getEntry('staged')!.version).toBe('2.0.0');
+
+      expect(await installer.rollback('staged')).toEqual({ success: true });
+      expect(installedVersion()).toBe('1.0.0');
+      expect(installer.getInstallRecord('staged')!.version).toBe('1.0.0');
+      expect(lockfile.getEntry('staged')!.version).toBe('1.0.0');
+      expect(installer.getBackupVersion('staged')).toBe('2.0.0');
+
+      // Rolling back again returns to the newer version
+      expect(await installer.rollback('staged')).toEqual({ success: true });
+      expect(installedVersion()).toBe('2.0.0');
+      expect(installer.getBackupVersion('staged')).toBe('1.0.0');
+    }, 60000);
+
+    it('has nothing to roll back to after a first install', async () => {
+      expect(await installer.rollback('staged')).toEqual({ success: false, error: 'No previous version of staged to roll back to' });
+      expect(installedVersion()).toBe('1.0.0');
+    });
+  });
+
+  describe('update', () => {
+    let source: string;
+    let installer: PluginInstaller;
+
+    beforeEach(async () => {
+      source = writeSource(path.join(tempDir, 'src'), '1.0.0');
+      installer = new PluginInstaller(pluginRoot, { cli: '1.0.0', node: process.versions.node });
+      expect(await installer.install('staged', source, { allowUnverified: true })).toMatchObject({ success: true });
+    }, 30000);
+
+    it('re-resolves a local plugin from the path it was installed from', async () => {
+      expect(installer.getInstallRecord('staged')!.source).toEqual({ type: 'local', path: source });
+      writeSource(source, '1.1.0');
+
+      expect(await installer.update('staged', { allowUnverified: true })).toMatchObject({ success: true });
+      expect(installer.getPluginMetadata('staged')!.version).toBe('1.1.0');
+      expect(installer.getInstallRecord('staged')).toMatchObject({ version: '1.1.0', source: { type: 'local', path: source } });
+    }, 30000);
+
+    it('leaves unchanged content in place', async () => {
+      const installedAt = installer.getInstallRecord('staged')!.installedAt;
+
+      expect(await installer.update('staged', { allowUnverified: true })).toEqual({ success: true });
+      expect(installer.getInstallRecord('staged')!.installedAt).toBe(installedAt);
+      expect(installer.getBackupVersion('staged')).toBeUndefined();
+    }, 30000);
+
+    it('rejects another version for a local plugin', async () => {
+      expect(await installer.update('staged', { to: '2.0.0' })).toEqual({
+        success: false,
+        error: `Plugin staged was installed from ${source}; --to is not supported for local plugins`
+      });
+    });
+
+    it('reports a plugin that is not installed', async () => {
+      expect(await installer.update('missing')).toEqual({ success: false, error: 'Plugin missing not found' });
+    });
+  });
+});
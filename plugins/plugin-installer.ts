@@ -6,84 +6,288 @@
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { execSync } from 'node:child_process';
+import { execFileSync, execSync } from 'node:child_process';
+import * as semver from 'semver';
 import { GeminiPlugin, PluginInstallResult, PluginMetadata } from './plugin-interface.js';
+import { HostVersions, checkCompatibility, getHostVersions } from './compatibility.js';
+import { PluginVerifier, VerificationResult, VerificationStatus, computeContentHash } from './plugin-verifier.js';
+import { LockedPlugin, PluginLockfile, PluginSource, toInstallSource } from './plugin-lockfile.js';
+import { MarketplaceClient } from './marketplace/marketplace-client.js';
+import { RegistryConfig, getPackageScope } from './marketplace/registries.js';
+import { validatePluginManifest } from './manifest-schema.js';
+import { formatSchemaErrors } from './schema-validator.js';
+
+export interface InstalledPluginRecord {
+  version: string;
+  installedAt: string;
+  force?: boolean;
+  source?: PluginSource;
+  // Version, range or dist-tag (npm) or ref (git) the plugin was requested at
+  requestedVersion?: string;
+  verification?: {
+    status: VerificationStatus;
+    hash: string;
+    keyId?: string;
+  };
+}
+
+// Fetched plugins wait here, outside any plugin directory, until verified
+const STAGING_DIR = '.staging';
+// The previous version of each replaced plugin, kept for rollback
+const BACKUP_DIR = '.backups';
+// Builds of plugins in development, which their links point into
+const DEV_DIR = '.dev';
+
+const DEMO_PLUGINS = ['pip-analyzer', 'code-review-assistant', 'dark-theme-pro', 'git-workflow', 'docker-helper'];
 
 export class PluginInstaller {
   private pluginRoot: string;
-
-  constructor(pluginRoot: string) {
+  private hostVersions: HostVersions;
+  private verifier: PluginVerifier;
+  private lockfile?: PluginLockfile;
+  private marketplace?: MarketplaceClient;
+
+  constructor(
+    pluginRoot: string,
+    hostVersions: HostVersions = getHostVersions(),
+    lockfile?: PluginLockfile,
+    marketplace?: MarketplaceClient
+  ) {
     this.pluginRoot = pluginRoot;
+    this.hostVersions = hostVersions;
+    this.verifier = new PluginVerifier(path.join(pluginRoot, 'trusted-keys.json'));
+    this.lockfile = lockfile;
+    this.marketplace = marketplace;
   }
 
-  async install(pluginName: string, source?: string): Promise<PluginInstallResult> {
+  /**
+   * Installs a plugin and records it in the lockfile. `version` is an exact
+   * version, range or dist-tag for npm and local sources, and a branch, tag
+   * or commit for git. With `locked`, the plugin is fetched at the locked
+   * version or commit, must match the locked content hash, and the lockfile
+   * is left untouched. With `skipUnchanged`, content identical to the
+   * installed version is not swapped in. npm plugins are fetched through
+   * the configured registry that owns them, or `registry` if given.
+   */
+  async install(pluginName: string, source?: string, options: {
+    version?: string;
+    registry?: string;
+    force?: boolean;
+    allowUnverified?: boolean;
+    locked?: LockedPlugin;
+    skipUnchanged?: boolean;
+  } = {}): Promise<PluginInstallResult> {
+    const pluginDir = path.join(this.pluginRoot, pluginName);
+    const stagingDir = path.join(this.pluginRoot, STAGING_DIR, pluginName);
+
+    // The lockfile is committed and may be edited by anyone, so what is
+    // read from it is checked before it reaches git or npm
+    const lockedProblem = options.locked && this.checkLockedPlugin(options.locked);
+    if (lockedProblem) {
+      return { success: false, error: `Locked entry for plugin ${pluginName} is invalid: ${lockedProblem}` };
+    }
+
     try {
-      const pluginDir = path.join(this.pluginRoot, pluginName);
-      
-      // Remove existing installation if it exists
-      if (fs.existsSync(pluginDir)) {
-        await this.uninstall(pluginName);
+      fs.rmSync(stagingDir, { recursive: true, force: true });
+      fs.mkdirSync(stagingDir, { recursive: true });
+
+      // Fetch into the staging area so nothing is built or loaded before it is verified
+      const version = options.locked?.version ?? options.version;
+      // A locked plugin goes back to the registry it was locked from
+      const lockedSource = options.locked?.source;
+      const registry = await this.resolveRegistry(pluginName, source, lockedSource
+        ? (lockedSource.type === 'npm' ? lockedSource.registry : undefined)
+        : options.registry);
+      const result = source
+        ? await this.installFromSource(pluginName, source, stagingDir, version, options.locked, registry)
+        : await this.installFromNpm(pluginName, stagingDir, version, registry);
+
+      if (!result.success) {
+        return result;
       }
 
-      // Determine source and install
-      if (source) {
-        return await this.installFromSource(pluginName, source);
-      } else {
-        return await this.installFromNpm(pluginName);
+      const resolvedSource = this.resolveSource(source, stagingDir, registry);
+
+      const verification: VerificationResult = this.isDemoPlugin(pluginName, source) && !options.locked
+        ? { ok: true, status: 'demo', hash: computeContentHash(stagingDir) }
+        : this.verifier.verify(stagingDir, {
+          expectedHash: options.locked?.integrity,
+          allowUnverified: options.allowUnverified && !options.locked
+        });
+
+      if (!verification.ok) {
+        return {
+          success: false,
+          error: `Plugin ${pluginName} failed verification: ${verification.error}. Use --allow-unverified to install it anyway`
+        };
+      }
+
+      if (options.skipUnchanged && this.getInstallRecord(pluginName)?.verification?.hash === verification.hash) {
+        return { success: true };
+      }
+
+      if (source && source !== 'npm') {
+        this.buildPlugin(stagingDir);
+      }
+
+      // Validate in staging so a broken or incompatible release never
+      // replaces a working installation
+      const validation = await this.validateInstallation(pluginName, stagingDir);
+      if (!validation.success) {
+        return validation;
+      }
+
+      const metadata = this.readMetadata(stagingDir)!;
+      const compatibility = checkCompatibility(metadata, this.hostVersions);
+      if (!compatibility.compatible && !options.force) {
+        return {
+          success: false,
+          error: `Plugin ${pluginName} is not compatible with this environment: ${compatibility.reasons.join('; ')}. Use --force to install it anyway`
+        };
       }
+
+      this.swapIn(pluginName, stagingDir);
+
+      this.recordInstall(pluginName, {
+        version: metadata.version,
+        installedAt: new Date().toISOString(),
+        ...(!compatibility.compatible && { force: true }),
+        source: resolvedSource,
+        ...(options.version && { requestedVersion: options.version }),
+        verification: { status: verification.status!, hash: verification.hash, keyId: verification.keyId }
+      });
+
+      if (!options.locked) {
+        this.lockfile?.record(pluginName, {
+          version: metadata.version,
+          source: resolvedSource,
+          integrity: verification.hash
+        });
+      }
+
+      const warnings = [...(result.warnings || [])];
+      if (!compatibility.compatible) {
+        warnings.push(`Installed incompatible plugin ${pluginName} because --force was given: ${compatibility.reasons.join('; ')}`);
+      }
+      if (verification.status === 'unverified') {
+        warnings.push(`Installed unverified plugin ${pluginName} because --allow-unverified was given`);
+      }
+
+      return warnings.length > 0 ? { ...result, warnings } : result;
     } catch (error) {
       return {
         success: false,
         error: `Failed to install plugin ${pluginName}: ${error instanceof Error ? error.message : String(error)}`
       };
+    } finally {
+      fs.rmSync(stagingDir, { recursive: true, force: true });
     }
   }
 
-  private async installFromNpm(pluginName: string): Promise<PluginInstallResult> {
-    const pluginDir = path.join(this.pluginRoot, pluginName);
-    
-    try {
-      // Create plugin directory
-      fs.mkdirSync(pluginDir, { recursive: true });
+  private checkLockedPlugin(locked: LockedPlugin): string | undefined {
+    if (!semver.valid(locked.version)) {
+      return `version ${JSON.stringify(locked.version)} is not an exact semver version`;
+    }
+    if (locked.source?.type === 'git' && !/^[0-9a-f]{7,40}$/.test(locked.source.commit)) {
+      return `commit ${JSON.stringify(locked.source.commit)} is not a git commit hash`;
+    }
+    return undefined;
+  }
+
+  getVerifier(): PluginVerifier {
+    return this.verifier;
+  }
+
+  private isDemoPlugin(pluginName: string, source?: string): boolean {
+    return (!source || source === 'npm') && DEMO_PLUGINS.includes(pluginName);
+  }
+
+  private async resolveRegistry(pluginName: string, source: string | undefined, requested?: string): Promise<RegistryConfig | undefined> {
+    if (!this.marketplace || (source && source !== 'npm') || this.isDemoPlugin(pluginName, source)) {
+      return undefined;
+    }
+    return this.marketplace.resolveRegistry(pluginName, requested);
+  }
+
+  private resolveSource(source: string | undefined, fetchedDir: string, registry?: RegistryConfig): PluginSource {
+    if (!source || source === 'npm') {
+      return registry ? { type: 'npm', registry: registry.name } : { type: 'npm' };
+    }
+
+    if (source.startsWith('http')) {
+      const commit = execSync('git rev-parse HEAD', { cwd: fetchedDir, stdio: 'pipe' }).toString().trim();
+      return { type: 'git', url: source, commit };
+    }
+
+    return { type: 'local', path: path.resolve(source.replace('file://', '')) };
+  }
+
+  private async installFromNpm(pluginName: string, targetDir: string, version?: string, registry?: RegistryConfig): Promise<PluginInstallResult> {
+    const prefixDir = `${targetDir}.npm`;
 
+    try {
       // For demo purposes, create a mock plugin if the npm package doesn't exist
-      if (['pip-analyzer', 'code-review-assistant', 'dark-theme-pro', 'git-workflow', 'docker-helper'].includes(pluginName)) {
-        return await this.createMockPlugin(pluginName, pluginDir);
+      if (DEMO_PLUGINS.includes(pluginName)) {
+        return await this.createMockPlugin(pluginName, targetDir, version && semver.valid(version) ? version : '1.0.0');
       }
 
       // Install from npm
-      const npmCommand = `npm install ${pluginName} --prefix ${pluginDir} --no-save`;
-      execSync(npmCommand, { stdio: 'pipe' });
+      // Arguments are passed without a shell, so a name or version cannot
+      // run commands. Install scripts would run before the package is
+      // verified, so they are skipped
+      const spec = version ? `${pluginName}@${version}` : pluginName;
+      execFileSync('npm', [
+        'install', spec, '--prefix', prefixDir, '--no-save', '--ignore-scripts',
+        ...this.getRegistryArgs(pluginName, prefixDir, registry)
+      ], { stdio: 'pipe' });
 
       // Find the installed package
-      const nodeModulesDir = path.join(pluginDir, 'node_modules', pluginName);
+      const nodeModulesDir = path.join(prefixDir, 'node_modules', pluginName);
       if (!fs.existsSync(nodeModulesDir)) {
         return { success: false, error: `Plugin ${pluginName} not found in npm registry` };
       }
 
-      // Copy package contents to plugin directory
-      this.copyDirectory(nodeModulesDir, pluginDir);
-
-      // Clean up node_modules
-      fs.rmSync(path.join(pluginDir, 'node_modules'), { recursive: true, force: true });
-      fs.rmSync(path.join(pluginDir, 'package-lock.json'), { force: true });
+      // Copy package contents to the target directory
+      this.copyDirectory(nodeModulesDir, targetDir);
 
-      // Validate installation
-      return await this.validateInstallation(pluginName);
+      return { success: true };
     } catch (error) {
       return {
         success: false,
         error: `Failed to install plugin ${pluginName} from npm: ${error instanceof Error ? error.message : String(error)}`
       };
+    } finally {
+      fs.rmSync(prefixDir, { recursive: true, force: true });
     }
   }
 
-  private async createMockPlugin(pluginName: string, pluginDir: string): Promise<PluginInstallResult> {
+  /**
+   * Points npm at the plugin's registry. Scoped plugins only redirect their
+   * scope so their public dependencies still resolve normally. The token
+   * goes into the prefix's .npmrc rather than onto the command line.
+   */
+  private getRegistryArgs(pluginName: string, prefixDir: string, registry?: RegistryConfig): string[] {
+    if (!registry?.npmRegistry) {
+      return [];
+    }
+
+    if (registry.token) {
+      const url = new URL(registry.npmRegistry);
+      fs.mkdirSync(prefixDir, { recursive: true });
+      fs.writeFileSync(path.join(prefixDir, '.npmrc'), `//${url.host}${url.pathname}:_authToken=${registry.token}\n`, { mode: 0o600 });
+    }
+
+    const scope = getPackageScope(pluginName);
+    return scope ? [`--${scope}:registry=${registry.npmRegistry}`] : ['--registry', registry.npmRegistry];
+  }
+
+
+  private async createMockPlugin(pluginName: string, pluginDir: string, version: string): Promise<PluginInstallResult> {
     try {
       // Create package.json for the mock plugin
       const packageJson = {
         name: pluginName,
-        version: '1.0.0',
+        version,
         description: `Mock plugin: ${pluginName}`,
         author: 'demo-user',
         type: 'tool',
@@ -110,7 +314,7 @@ export class PluginInstaller {
 class ${pluginName.charAt(0).toUpperCase() + pluginName.slice(1).replace(/-([a-z])/g, (g) => g[1].toUpperCase())}Plugin {
   metadata = {
     name: '${pluginName}',
-    version: '1.0.0',
+    version: '${version}',
     description: 'Mock plugin: ${pluginName}',
     author: 'demo-user',
     type: 'tool',
@@ -170,26 +374,29 @@ MIT
     }
   }
 
-  private async installFromSource(pluginName: string, source: string): Promise<PluginInstallResult> {
-    const pluginDir = path.join(this.pluginRoot, pluginName);
-    
+  private async installFromSource(
+    pluginName: string,
+    source: string,
+    targetDir: string,
+    version?: string,
+    locked?: LockedPlugin,
+    registry?: RegistryConfig
+  ): Promise<PluginInstallResult> {
     try {
-      // Create plugin directory
-      fs.mkdirSync(pluginDir, { recursive: true });
-
       if (source === 'npm') {
         // Install from npm registry
-        return await this.installFromNpm(pluginName);
+        return await this.installFromNpm(pluginName, targetDir, version, registry);
       } else if (source.startsWith('http')) {
         // Install from URL (GitHub, GitLab, etc.)
-        return await this.installFromUrl(pluginName, source);
+        const ref = locked?.source.type === 'git' ? locked.source.commit : version;
+        return await this.installFromUrl(pluginName, source, targetDir, ref);
       } else if (source.startsWith('file://')) {
         // Install from local file
         const localPath = source.replace('file://', '');
-        return await this.installFromLocalPath(pluginName, localPath);
+        return await this.installFromLocalPath(pluginName, localPath, targetDir, version);
       } else if (fs.existsSync(source)) {
         // Install from local path
-        return await this.installFromLocalPath(pluginName, source);
+        return await this.installFromLocalPath(pluginName, source, targetDir, version);
       } else {
         return { success: false, error: `Invalid source: ${source}` };
       }
@@ -201,27 +408,23 @@ MIT
     }
   }
 
-  private async installFromUrl(pluginName: string, url: string): Promise<PluginInstallResult> {
-    const pluginDir = path.join(this.pluginRoot, pluginName);
-    
+  private async installFromUrl(pluginName: string, url: string, targetDir: string, ref?: string): Promise<PluginInstallResult> {
+    // git would read a leading dash as an option
+    if (ref?.startsWith('-')) {
+      return { success: false, error: `Invalid git ref for plugin ${pluginName}: ${ref}` };
+    }
+
     try {
-      // Clone the repository
-      const cloneCommand = `git clone ${url} ${pluginDir}`;
-      execSync(cloneCommand, { stdio: 'pipe' });
-
-      // Install dependencies if package.json exists
-      const packageJsonPath = path.join(pluginDir, 'package.json');
-      if (fs.existsSync(packageJsonPath)) {
-        execSync('npm install', { cwd: pluginDir, stdio: 'pipe' });
-      }
+      // Clone the repository. Arguments are passed without a shell so a
+      // URL or ref cannot run commands
+      execFileSync('git', ['clone', '--', url, targetDir], { stdio: 'pipe' });
 
-      // Build if build script exists
-      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-      if (packageJson.scripts && packageJson.scripts.build) {
-        execSync('npm run build', { cwd: pluginDir, stdio: 'pipe' });
+      // Check out a branch, tag or commit
+      if (ref) {
+        execFileSync('git', ['checkout', '--quiet', ref], { cwd: targetDir, stdio: 'pipe' });
       }
 
-      return await this.validateInstallation(pluginName);
+      return { success: true };
     } catch (error) {
       return {
         success: false,
@@ -230,26 +433,29 @@ MIT
     }
   }
 
-  private async installFromLocalPath(pluginName: string, localPath: string): Promise<PluginInstallResult> {
-    const pluginDir = path.join(this.pluginRoot, pluginName);
-    
+  private async installFromLocalPath(
+    pluginName: string,
+    localPath: string,
+    targetDir: string,
+    version?: string
+  ): Promise<PluginInstallResult> {
     try {
-      // Copy the directory
-      this.copyDirectory(localPath, pluginDir);
-
-      // Install dependencies if package.json exists
-      const packageJsonPath = path.join(pluginDir, 'package.json');
-      if (fs.existsSync(packageJsonPath)) {
-        execSync('npm install', { cwd: pluginDir, stdio: 'pipe' });
+      // A local directory holds a single version; it can only be checked
+      const metadata = this.readMetadata(localPath);
+      if (version && semver.validRange(version) === null) {
+        return { success: false, error: `Version ${version} is not a semver range; dist-tags are only supported for npm plugins` };
       }
-
-      // Build if build script exists
-      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-      if (packageJson.scripts && packageJson.scripts.build) {
-        execSync('npm run build', { cwd: pluginDir, stdio: 'pipe' });
+      if (version && metadata && !semver.satisfies(metadata.version, version)) {
+        return {
+          success: false,
+          error: `Plugin ${pluginName} at ${localPath} is version ${metadata.version}, which does not satisfy ${version}`
+        };
       }
 
-      return await this.validateInstallation(pluginName);
+      // Copy the directory
+      this.copyDirectory(localPath, targetDir);
+
+      return { success: true };
     } catch (error) {
       return {
         success: false,
@@ -258,6 +464,29 @@ MIT
     }
   }
 
+  /**
+   * Installs dependencies and runs the build script of a plugin fetched from
+   * source. Only called after the fetched content has been verified.
+   */
+  private buildPlugin(pluginDir: string): void {
+    // Install dependencies if package.json exists
+    const packageJsonPath = path.join(pluginDir, 'package.json');
+    if (!fs.existsSync(packageJsonPath)) {
+      return;
+    }
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    // Array-form dependencies name other plugins, which npm cannot parse;
+    // such plugins have no npm dependencies to install
+    if (!Array.isArray(packageJson.dependencies) && !Array.isArray(packageJson.peerDependencies)) {
+      execSync('npm install', { cwd: pluginDir, stdio: 'pipe' });
+    }
+
+    // Build if build script exists
+    if (packageJson.scripts && packageJson.scripts.build) {
+      execSync('npm run build', { cwd: pluginDir, stdio: 'pipe' });
+    }
+  }
+
   private copyDirectory(src: string, dest: string): void {
     if (!fs.existsSync(dest)) {
       fs.mkdirSync(dest, { recursive: true });
@@ -269,7 +498,11 @@ MIT
       const srcPath = path.join(src, entry.name);
       const destPath = path.join(dest, entry.name);
 
-      if (entry.isDirectory()) {
+      if (entry.isSymbolicLink()) {
+        // Links are copied as links: node_modules/.bin scripts resolve their
+        // package relative to where the link lives, not to the file it names
+        fs.symlinkSync(fs.readlinkSync(srcPath), destPath);
+      } else if (entry.isDirectory()) {
         this.copyDirectory(srcPath, destPath);
       } else {
         fs.copyFileSync(srcPath, destPath);
@@ -277,8 +510,10 @@ MIT
     }
   }
 
-  private async validateInstallation(pluginName: string): Promise<PluginInstallResult> {
-    const pluginDir = path.join(this.pluginRoot, pluginName);
+  private async validateInstallation(
+    pluginName: string,
+    pluginDir: string = path.join(this.pluginRoot, pluginName)
+  ): Promise<PluginInstallResult> {
     const packageJsonPath = path.join(pluginDir, 'package.json');
 
     if (!fs.existsSync(packageJsonPath)) {
@@ -287,13 +522,10 @@ MIT
 
     try {
       const metadata: PluginMetadata = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-      
-      // Validate required fields
-      const required = ['name', 'version', 'description', 'author', 'type', 'entryPoint', 'compatibility'];
-      for (const field of required) {
-        if (!metadata[field as keyof PluginMetadata]) {
-          return { success: false, error: `Plugin ${pluginName} missing required field: ${field}` };
-        }
+
+      const problems = validatePluginManifest(metadata);
+      if (problems.length > 0) {
+        return { success: false, error: `Plugin ${pluginName} has an invalid manifest: ${formatSchemaErrors(problems)}` };
       }
 
       // Check entry point exists
@@ -311,27 +543,235 @@ MIT
     }
   }
 
-  async uninstall(pluginName: string): Promise<void> {
+  /**
+   * Moves a validated staging directory into place. The current version, if
+   * any, becomes the rollback backup together with its install record; if
+   * the move fails it is put back.
+   */
+  private swapIn(pluginName: string, stagingDir: string): void {
     const pluginDir = path.join(this.pluginRoot, pluginName);
-    if (fs.existsSync(pluginDir)) {
-      fs.rmSync(pluginDir, { recursive: true, force: true });
+    const backupDir = path.join(this.pluginRoot, BACKUP_DIR, pluginName);
+    const hadInstallation = fs.existsSync(pluginDir);
+
+    if (hadInstallation) {
+      this.removeBackup(pluginName);
+      fs.mkdirSync(path.dirname(backupDir), { recursive: true });
+      fs.renameSync(pluginDir, backupDir);
+      this.saveBackupRecord(pluginName, this.getInstallRecord(pluginName));
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(pluginDir), { recursive: true });
+      fs.renameSync(stagingDir, pluginDir);
+    } catch (error) {
+      if (hadInstallation) {
+        fs.renameSync(backupDir, pluginDir);
+        this.removeBackup(pluginName);
+      }
+      throw error;
     }
   }
 
-  async update(pluginName: string): Promise<PluginInstallResult> {
+  /**
+   * Swaps the installed version with the one it replaced. Rolling back twice
+   * returns to the newer version.
+   */
+  async rollback(pluginName: string): Promise<PluginInstallResult> {
+    const pluginDir = path.join(this.pluginRoot, pluginName);
+    const backupDir = path.join(this.pluginRoot, BACKUP_DIR, pluginName);
+
+    if (!fs.existsSync(backupDir)) {
+      return { success: false, error: `No previous version of ${pluginName} to roll back to` };
+    }
+
     try {
-      // Get current plugin info
-      const pluginDir = path.join(this.pluginRoot, pluginName);
-      const packageJsonPath = path.join(pluginDir, 'package.json');
-      
-      if (!fs.existsSync(packageJsonPath)) {
+      const currentRecord = this.getInstallRecord(pluginName);
+      const previousRecord = this.loadBackupRecord(pluginName);
+      const swapDir = `${backupDir}.swap`;
+
+      fs.rmSync(swapDir, { recursive: true, force: true });
+      if (fs.existsSync(pluginDir)) {
+        fs.renameSync(pluginDir, swapDir);
+      }
+      fs.mkdirSync(path.dirname(pluginDir), { recursive: true });
+      fs.renameSync(backupDir, pluginDir);
+
+      if (fs.existsSync(swapDir)) {
+        fs.renameSync(swapDir, backupDir);
+        this.saveBackupRecord(pluginName, currentRecord);
+      } else {
+        this.removeBackup(pluginName);
+      }
+
+      if (previousRecord) {
+        this.recordInstall(pluginName, previousRecord);
+        if (previousRecord.source && previousRecord.verification) {
+          this.lockfile?.record(pluginName, {
+            version: previousRecord.version,
+            source: previousRecord.source,
+            integrity: previousRecord.verification.hash
+          });
+        }
+      } else {
+        this.removeInstallRecord(pluginName);
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to roll back plugin ${pluginName}: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  getBackupVersion(pluginName: string): string | undefined {
+    return this.readMetadata(path.join(this.pluginRoot, BACKUP_DIR, pluginName))?.version;
+  }
+
+  private loadBackupRecord(pluginName: string): InstalledPluginRecord | undefined {
+    const recordFile = `${path.join(this.pluginRoot, BACKUP_DIR, pluginName)}.json`;
+    if (!fs.existsSync(recordFile)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(recordFile, 'utf-8'));
+    } catch (error) {
+      console.warn(`Failed to load backup record for ${pluginName}:`, error);
+      return undefined;
+    }
+  }
+
+  private saveBackupRecord(pluginName: string, record: InstalledPluginRecord | undefined): void {
+    const recordFile = `${path.join(this.pluginRoot, BACKUP_DIR, pluginName)}.json`;
+    if (record) {
+      fs.writeFileSync(recordFile, JSON.stringify(record, null, 2));
+    } else {
+      fs.rmSync(recordFile, { force: true });
+    }
+  }
+
+  private removeBackup(pluginName: string): void {
+    const backupDir = path.join(this.pluginRoot, BACKUP_DIR, pluginName);
+    fs.rmSync(backupDir, { recursive: true, force: true });
+    fs.rmSync(`${backupDir}.json`, { force: true });
+  }
+
+  /**
+   * Removes a plugin with its backup and records. `keepLockEntry` leaves
+   * plugins.lock alone, e.g. when a frozen install is undone.
+   */
+  async uninstall(pluginName: string, options: { keepLockEntry?: boolean } = {}): Promise<void> {
+    // A link is removed, not followed, and may point at a build already gone
+    fs.rmSync(path.join(this.pluginRoot, pluginName), { recursive: true, force: true });
+    fs.rmSync(this.getDevDir(pluginName), { recursive: true, force: true });
+    this.removeBackup(pluginName);
+    this.removeInstallRecord(pluginName);
+    if (!options.keepLockEntry) {
+      this.lockfile?.remove(pluginName);
+    }
+  }
+
+  /**
+   * Points a plugin at a directory outside the plugin root, for development.
+   * Linked plugins are not verified, recorded or locked; linking again
+   * replaces the link. An installed plugin is never replaced by a link.
+   */
+  link(pluginName: string, targetDir: string): void {
+    const pluginDir = path.join(this.pluginRoot, pluginName);
+    if (fs.existsSync(pluginDir) && !this.isLinked(pluginName)) {
+      throw new Error(`Plugin ${pluginName} is installed; uninstall it before linking a development copy`);
+    }
+
+    // Build the new link beside the plugin root and rename it over the old
+    // one, so a concurrent load sees either link but never neither
+    const temporary = path.join(this.pluginRoot, STAGING_DIR, `${pluginName}.link`);
+    fs.mkdirSync(path.dirname(temporary), { recursive: true });
+    fs.rmSync(temporary, { force: true });
+    fs.symlinkSync(targetDir, temporary, 'dir');
+    fs.mkdirSync(path.dirname(pluginDir), { recursive: true });
+    fs.renameSync(temporary, pluginDir);
+  }
+
+  // Where dev mode keeps the builds a linked plugin points into
+  getDevDir(pluginName: string): string {
+    return path.join(this.pluginRoot, DEV_DIR, pluginName);
+  }
+
+  isLinked(pluginName: string): boolean {
+    try {
+      return fs.lstatSync(path.join(this.pluginRoot, pluginName)).isSymbolicLink();
+    } catch {
+      return false;
+    }
+  }
+
+  getInstallRecord(pluginName: string): InstalledPluginRecord | undefined {
+    return this.loadInstalledState()[pluginName];
+  }
+
+  private recordInstall(pluginName: string, record: InstalledPluginRecord): void {
+    const state = this.loadInstalledState();
+    state[pluginName] = record;
+    this.saveInstalledState(state);
+  }
+
+  private removeInstallRecord(pluginName: string): void {
+    const state = this.loadInstalledState();
+    if (state[pluginName]) {
+      delete state[pluginName];
+      this.saveInstalledState(state);
+    }
+  }
+
+  private loadInstalledState(): Record<string, InstalledPluginRecord> {
+    const stateFile = path.join(this.pluginRoot, 'installed.json');
+    if (fs.existsSync(stateFile)) {
+      try {
+        return JSON.parse(fs.readFileSync(stateFile, 'utf-8')).plugins || {};
+      } catch (error) {
+        console.warn('Failed to load installed plugin state:', error);
+      }
+    }
+    return {};
+  }
+
+  private saveInstalledState(state: Record<string, InstalledPluginRecord>): void {
+    const stateFile = path.join(this.pluginRoot, 'installed.json');
+    fs.writeFileSync(stateFile, JSON.stringify({ plugins: state }, null, 2));
+  }
+
+  /**
+   * Re-resolves a plugin against the source it was installed from: the
+   * recorded npm version spec or git ref, or the local path. `to` selects a
+   * different version or ref and becomes the recorded one.
+   */
+  async update(pluginName: string, options: {
+    to?: string;
+    force?: boolean;
+    allowUnverified?: boolean;
+  } = {}): Promise<PluginInstallResult> {
+    try {
+      if (!this.getPluginMetadata(pluginName)) {
         return { success: false, error: `Plugin ${pluginName} not found` };
       }
 
-      const metadata: PluginMetadata = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-      
-      // Reinstall from npm
-      return await this.installFromNpm(pluginName);
+      // Plugins installed before sources were recorded came from npm
+      const record = this.getInstallRecord(pluginName);
+      const source = record?.source ?? { type: 'npm' };
+
+      if (options.to && source.type === 'local') {
+        return { success: false, error: `Plugin ${pluginName} was installed from ${source.path}; --to is not supported for local plugins` };
+      }
+
+      return await this.install(pluginName, toInstallSource(source), {
+        version: options.to ?? record?.requestedVersion,
+        registry: source.type === 'npm' ? source.registry : undefined,
+        force: options.force,
+        allowUnverified: options.allowUnverified,
+        skipUnchanged: true
+      });
     } catch (error) {
       return {
         success: false,
@@ -345,13 +785,23 @@ MIT
       return [];
     }
 
+    // Symbolic links are plugins linked for development
     return fs.readdirSync(this.pluginRoot, { withFileTypes: true })
-      .filter(dirent => dirent.isDirectory())
-      .map(dirent => dirent.name);
+      .filter(dirent => (dirent.isDirectory() || dirent.isSymbolicLink()) && !dirent.name.startsWith('.'))
+      .flatMap(dirent => dirent.name.startsWith('@')
+        // Scoped plugins live in a directory per scope, as in node_modules
+        ? fs.readdirSync(path.join(this.pluginRoot, dirent.name), { withFileTypes: true })
+          .filter(child => child.isDirectory() || child.isSymbolicLink())
+          .map(child => `${dirent.name}/${child.name}`)
+        : [dirent.name]);
   }
 
   getPluginMetadata(pluginName: string): PluginMetadata | null {
-    const packageJsonPath = path.join(this.pluginRoot, pluginName, 'package.json');
+    return this.readMetadata(path.join(this.pluginRoot, pluginName));
+  }
+
+  private readMetadata(pluginDir: string): PluginMetadata | null {
+    const packageJsonPath = path.join(pluginDir, 'package.json');
     
     if (!fs.existsSync(packageJsonPath)) {
       return null;
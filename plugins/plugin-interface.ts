@@ -22,10 +22,26 @@ export interface PluginMetadata {
     node?: string;
   };
   permissions?: PluginPermission[];
+  secrets?: PluginSecret[];
   commands?: PluginCommand[];
   tools?: PluginTool[];
   themes?: PluginTheme[];
   extensions?: PluginExtension[];
+  configSchema?: PluginConfigSchema;
+}
+
+// Settings a plugin accepts; users set them with `gemini plugins config`
+export interface PluginConfigSchema {
+  properties: Record<string, PluginConfigProperty>;
+  required?: string[];
+}
+
+export interface PluginConfigProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  default?: any;
+  // Further JSON Schema keywords, e.g. enum, minimum, pattern or items
+  [keyword: string]: any;
 }
 
 export enum PluginType {
@@ -42,11 +58,51 @@ export interface PluginPermission {
   required: boolean;
 }
 
+// A secret the plugin needs, such as an API token; users set it with
+// `gemini plugins secrets set <plugin> <name>`
+export interface PluginSecret {
+  name: string;
+  description: string;
+}
+
 export interface PluginCommand {
   name: string;
   description: string;
   usage?: string;
   examples?: string[];
+  options?: PluginCommandOption[];
+  arguments?: PluginCommandArgument[];
+}
+
+export interface PluginCommandOption {
+  name: string;
+  alias?: string;
+  type: 'string' | 'number' | 'boolean';
+  description?: string;
+  default?: string | number | boolean;
+  required?: boolean;
+}
+
+export interface PluginCommandArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+  variadic?: boolean;
+}
+
+export interface ParsedCommandArgs {
+  options: Record<string, string | number | boolean>;
+  arguments: Record<string, string | string[]>;
+  positionals: string[];
+}
+
+export type CommandHandler = (args: ParsedCommandArgs) => Promise<any> | any;
+
+export interface PluginCommandResult {
+  success: boolean;
+  result?: any;
+  error?: string;
+  usage?: string;
 }
 
 export interface PluginTool {
@@ -56,11 +112,27 @@ export interface PluginTool {
   parameters?: Record<string, any>;
 }
 
+export type ToolHandler = (args: Record<string, any>) => Promise<any> | any;
+
+export interface PluginToolResult {
+  success: boolean;
+  result?: any;
+  error?: string;
+}
+
+// Semantic color tokens; see THEME_TOKENS in theme/theme-tokens.ts
+export type RequiredThemeToken = 'foreground' | 'background' | 'accent' | 'success' | 'warning' | 'error';
+export type OptionalThemeToken = 'muted' | 'info' | 'link' | 'code' | 'diff-add' | 'diff-remove' | 'border';
+export type ThemeToken = RequiredThemeToken | OptionalThemeToken;
+
+// Colors are hex (#rgb or #rrggbb) or rgb(r, g, b)
+export type ThemeColors = Record<RequiredThemeToken, string> & Partial<Record<OptionalThemeToken, string>>;
+
 export interface PluginTheme {
   name: string;
   displayName: string;
   description: string;
-  colors: Record<string, string>;
+  colors: ThemeColors;
 }
 
 export interface PluginExtension {
@@ -69,6 +141,16 @@ export interface PluginExtension {
   config: Record<string, any>;
 }
 
+// Config of an mcp-server extension: a stdio command the CLI runs and manages
+export interface McpServerConfig {
+  command: string;
+  args?: string[];
+  // Added to a minimal environment; the CLI's own variables are not passed on
+  env?: Record<string, string>;
+  // Working directory, relative to the plugin directory
+  cwd?: string;
+}
+
 export interface GeminiPlugin {
   metadata: PluginMetadata;
   
@@ -89,12 +171,12 @@ export interface GeminiPlugin {
 }
 
 export interface CommandRegistry {
-  registerCommand(command: PluginCommand): void;
+  registerCommand(command: PluginCommand, handler?: CommandHandler): void;
   unregisterCommand(name: string): void;
 }
 
 export interface ToolRegistry {
-  registerTool(tool: PluginTool): void;
+  registerTool(tool: PluginTool, execute?: ToolHandler): void;
   unregisterTool(name: string): void;
 }
 
@@ -111,6 +193,8 @@ export interface ExtensionRegistry {
 export interface PluginContext {
   workspaceRoot: string;
   pluginRoot: string;
+  // The plugin's configSchema defaults overlaid with the user's values and
+  // environment overrides; see PluginConfigStore
   config: any;
   logger: {
     info(message: string): void;
@@ -118,6 +202,77 @@ export interface PluginContext {
     error(message: string): void;
     debug(message: string): void;
   };
+  permissions: {
+    granted: string[];
+    has(permission: string): boolean;
+  };
+  events: PluginEvents;
+  secrets: PluginSecrets;
+
+  // Privileged APIs, present only when the matching permission is granted
+  fs?: typeof import('node:fs/promises'); // file-system
+  fetch?: typeof fetch; // network
+  exec?(command: string, args?: string[], options?: { cwd?: string; timeout?: number }): Promise<PluginExecResult>; // process
+  env?: Record<string, string | undefined>; // environment
+}
+
+/**
+ * Events the CLI emits to plugins, by name, with the payload each carries.
+ * Payloads are copies; changing them does not affect the CLI or other
+ * plugins.
+ */
+export interface PluginEventMap {
+  'session:start': { sessionId: string; workspaceRoot: string };
+  'session:end': { sessionId: string };
+  'prompt:before': { prompt: string };
+  'prompt:after': { prompt: string; response: string };
+  'tool:before': { tool: string; plugin?: string; args: Record<string, any> };
+  'tool:after': {
+    tool: string;
+    plugin?: string;
+    args: Record<string, any>;
+    success: boolean;
+    result?: any;
+    error?: string;
+    durationMs: number;
+  };
+  'file:changed': { path: string; change: 'created' | 'modified' | 'deleted' };
+  'theme:changed': { theme: string; previous?: string };
+}
+
+export type PluginEventName = keyof PluginEventMap;
+
+export type PluginEventHandler<E extends PluginEventName> = (payload: PluginEventMap[E]) => Promise<void> | void;
+
+/**
+ * Subscriptions to CLI events. Only enabled plugins receive events, and a
+ * plugin's subscriptions are removed when it is disabled or reloaded, so
+ * subscribe in onEnable. A handler that throws or exceeds the handler
+ * timeout is logged and skipped.
+ */
+export interface PluginEvents {
+  // Returns a function that removes the subscription
+  on<E extends PluginEventName>(event: E, handler: PluginEventHandler<E>): () => void;
+  once<E extends PluginEventName>(event: E, handler: PluginEventHandler<E>): () => void;
+  off<E extends PluginEventName>(event: E, handler: PluginEventHandler<E>): void;
+}
+
+/**
+ * The plugin's secrets, encrypted at rest. Only names declared in the
+ * manifest's `secrets` can be used. Values the plugin has read or written
+ * are masked in its log messages.
+ */
+export interface PluginSecrets {
+  get(name: string): Promise<string | undefined>;
+  set(name: string, value: string): Promise<void>;
+  // Resolves to false when the secret was not set
+  delete(name: string): Promise<boolean>;
+}
+
+export interface PluginExecResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
 }
 
 export interface PluginInstallResult {
@@ -125,6 +280,7 @@ export interface PluginInstallResult {
   plugin?: GeminiPlugin;
   error?: string;
   warnings?: string[];
+  missingDependencies?: string[];
 }
 
 export interface PluginSearchResult {
@@ -137,6 +293,8 @@ export interface PluginSearchResult {
   tags: string[];
   lastUpdated: string;
   type: PluginType;
+  // Name of the registry that listed the plugin, when several are configured
+  registry?: string;
 }
 
 export interface PluginMarketplaceInfo {
@@ -144,6 +302,7 @@ export interface PluginMarketplaceInfo {
   version: string;
   description: string;
   author: string;
+  type?: PluginType;
   repository: string;
   homepage?: string;
   license: string;
@@ -158,4 +317,11 @@ export interface PluginMarketplaceInfo {
     'gemini-cli': string;
     node: string;
   };
+  registry?: string;
+  // Set for plugins published with `gemini plugins publish`
+  dist?: {
+    tarball: string;
+    checksum: string;
+    contentHash: string;
+  };
 } 
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LOCKFILE_NAME, PluginLockfile } from './plugin-lockfile.js';
+
+describe('PluginLockfile', () => {
+  let workspace: string;
+
+  const readStored = () => JSON.parse(fs.readFileSync(path.join(workspace, LOCKFILE_NAME), 'utf-8'));
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-lockfile-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('writes entries sorted by name and reads them back', () => {
+    const lockfile = new PluginLockfile(workspace);
+    expect(lockfile.exists()).toBe(false);
+
+    lockfile.record('lint', { version: '1.2.0', source: { type: 'npm', registry: 'https://registry.example.com' }, integrity: 'sha256-lint' });
+    lockfile.record('git-workflow', { version: '2.0.0', source: { type: 'git', url: 'https://example.com/git.git', commit: 'abc1234' }, integrity: 'sha256-git' });
+
+    expect(lockfile.exists()).toBe(true);
+    expect(readStored().lockfileVersion).toBe(1);
+    expect(Object.keys(readStored().plugins)).toEqual(['git-workflow', 'lint']);
+    expect(new PluginLockfile(workspace).getEntry('lint')).toEqual({
+      version: '1.2.0',
+      source: { type: 'npm', registry: 'https://registry.example.com' },
+      integrity: 'sha256-lint'
+    });
+  });
+
+  it('stores local paths inside the workspace relative to it', () => {
+    const inside = path.join(workspace, 'plugins', 'local-tool');
+    const outside = path.join(os.tmpdir(), 'elsewhere', 'other-tool');
+    const lockfile = new PluginLockfile(workspace);
+
+    lockfile.record('local-tool', { version: '1.0.0', source: { type: 'local', path: inside }, integrity: 'sha256-a' });
+    lockfile.record('other-tool', { version: '1.0.0', source: { type: 'local', path: outside }, integrity: 'sha256-b' });
+
+    expect(readStored().plugins['local-tool'].source).toEqual({ type: 'local', path: './plugins/local-tool' });
+    expect(readStored().plugins['other-tool'].source).toEqual({ type: 'local', path: outside });
+    expect(lockfile.getEntry('local-tool')!.source).toEqual({ type: 'local', path: inside });
+    expect(lockfile.getEntry('other-tool')!.source).toEqual({ type: 'local', path: outside });
+  });
+
+  it('replaces and removes entries', () => {
+    const lockfile = new PluginLockfile(workspace);
+    lockfile.record('lint', { version: '1.0.0', source: { type: 'npm' }, integrity: 'sha256-old' });
+    lockfile.record('lint', { version: '1.1.0', source: { type: 'npm' }, integrity: 'sha256-new' });
+    expect(lockfile.getEntry('lint')).toMatchObject({ version: '1.1.0', integrity: 'sha256-new' });
+
+    lockfile.remove('lint');
+    expect(lockfile.getEntries()).toEqual({});
+    expect(readStored()).toEqual({ lockfileVersion: 1, plugins: {} });
+  });
+
+  it('treats a corrupt lockfile as empty', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fs.writeFileSync(path.join(workspace, LOCKFILE_NAME), '{');
+
+    expect(new PluginLockfile(workspace).getEntries()).toEqual({});
+    expect(console.warn).toHaveBeenCalledWith(`Failed to load ${LOCKFILE_NAME}:`, expect.any(SyntaxError));
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export const LOCKFILE_NAME = 'plugins.lock';
+const LOCKFILE_VERSION = 1;
+
+/**
+ * Where an installed plugin came from, resolved far enough to fetch the
+ * same content again. Local paths are absolute in memory and stored
+ * relative to the workspace when they are inside it.
+ */
+export type PluginSource =
+  | { type: 'npm'; registry?: string }
+  | { type: 'git'; url: string; commit: string }
+  | { type: 'local'; path: string };
+
+export interface LockedPlugin {
+  version: string;
+  source: PluginSource;
+  // Content hash of the fetched package, see computeContentHash
+  integrity: string;
+}
+
+/**
+ * Workspace lockfile (`plugins.lock`) recording the exact plugin set the
+ * installer produced, so it can be committed and reproduced with
+ * `gemini plugins install --frozen`.
+ */
+export class PluginLockfile {
+  private workspaceRoot: string;
+  private lockfilePath: string;
+
+  constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
+    this.lockfilePath = path.join(workspaceRoot, LOCKFILE_NAME);
+  }
+
+  getPath(): string {
+    return this.lockfilePath;
+  }
+
+  exists(): boolean {
+    return fs.existsSync(this.lockfilePath);
+  }
+
+  getEntries(): Record<string, LockedPlugin> {
+    const entries = this.load();
+    for (const entry of Object.values(entries)) {
+      if (entry.source.type === 'local') {
+        entry.source = { type: 'local', path: path.resolve(this.workspaceRoot, entry.source.path) };
+      }
+    }
+    return entries;
+  }
+
+  getEntry(pluginName: string): LockedPlugin | undefined {
+    return this.getEntries()[pluginName];
+  }
+
+  record(pluginName: string, entry: LockedPlugin): void {
+    const entries = this.load();
+    entries[pluginName] = entry.source.type === 'local'
+      ? { ...entry, source: { type: 'local', path: this.toStoredPath(entry.source.path) } }
+      : entry;
+    this.save(entries);
+  }
+
+  remove(pluginName: string): void {
+    const entries = this.load();
+    if (entries[pluginName]) {
+      delete entries[pluginName];
+      this.save(entries);
+    }
+  }
+
+  private toStoredPath(localPath: string): string {
+    const relative = path.relative(this.workspaceRoot, localPath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return localPath;
+    }
+    return `./${relative.split(path.sep).join('/')}`;
+  }
+
+  private load(): Record<string, LockedPlugin> {
+    if (!fs.existsSync(this.lockfilePath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.lockfilePath, 'utf-8')).plugins || {};
+    } catch (error) {
+      console.warn(`Failed to load ${LOCKFILE_NAME}:`, error);
+      return {};
+    }
+  }
+
+  private save(entries: Record<string, LockedPlugin>): void {
+    // Sorted so the file diffs cleanly when committed
+    const plugins: Record<string, LockedPlugin> = {};
+    for (const name of Object.keys(entries).sort()) {
+      plugins[name] = entries[name];
+    }
+    fs.writeFileSync(this.lockfilePath, JSON.stringify({ lockfileVersion: LOCKFILE_VERSION, plugins }, null, 2) + '\n');
+  }
+}
+
+/**
+ * Formats a source as the `source` argument accepted by the installer.
+ */
+export function toInstallSource(source: PluginSource): string {
+  switch (source.type) {
+    case 'npm':
+      return 'npm';
+    case 'git':
+      return source.url;
+    case 'local':
+      return source.path;
+  }
+}
+
+export function formatPluginSource(source: PluginSource): string {
+  switch (source.type) {
+    case 'npm':
+      return source.registry ? `npm (registry ${source.registry})` : 'npm';
+    case 'git':
+      return `${source.url}#${source.commit}`;
+    case 'local':
+      return source.path;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PluginManager } from './plugin-manager.js';
+import { PluginPermission } from './plugin-interface.js';
+import { PluginLockfile } from './plugin-lockfile.js';
+import { computeContentHash } from './plugin-verifier.js';
+
+declare global {
+  var pluginManagerCalls: string[];
+}
+
+const PROCESS_PERMISSION: PluginPermission = { name: 'process', description: 'Run commands', required: true };
+
+// A plugin that records its lifecycle calls in globalThis.pluginManagerCalls
+const writePlugin = (dir: string, name: string, permissions: PluginPermission[] = [], version = '1.0.0') => {
+  const metadata = {
+    name,
+    version,
+    description: `${name} plugin`,
+    author: 'Tests',
+    type: 'utility',
+    entryPoint: 'index.mjs',
+    compatibility: { 'gemini-cli': '>=0.1.0' },
+    permissions
+  };
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify(metadata));
+  fs.writeFileSync(path.join(dir, 'index.mjs'), `export default class {
+  metadata = ${JSON.stringify(metadata)};
+  async onEnable() { globalThis.pluginManagerCalls.push('enable:${name}'); }
+  async onDisable() { globalThis.pluginManagerCalls.push('disable:${name}'); }
+}
+`);
+  return dir;
+};
+
+describe('PluginManager', () => {
+  let workspace: string;
+  let pluginRoot: string;
+
+  const createManager = async () => {
+    const manager = new PluginManager(workspace, { cliVersion: '1.0.0' });
+    await manager.loadAllPlugins();
+    return manager;
+  };
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-manager-'));
+    pluginRoot = path.join(workspace, '.gemini', 'plugins');
+    globalThis.pluginManagerCalls = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  describe('required permissions', () => {
+    it('uninstalls a plugin whose required permissions are declined', async () => {
+      const source = writePlugin(path.join(workspace, 'src', 'needs-process'), 'needs-process', [PROCESS_PERMISSION]);
+      const manager = await createManager();
+
+      const result = await manager.installPlugin('needs-process', source, { allowUnverified: true, prompt: async () => [] });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('requires permissions that were not granted: process');
+      expect(fs.existsSync(path.join(pluginRoot, 'needs-process'))).toBe(false);
+      expect(new PluginLockfile(workspace).getEntry('needs-process')).toBeUndefined();
+    }, 30000);
+
+    it('uninstalls a frozen install whose required permissions are declined and keeps the lockfile', async () => {
+      const source = writePlugin(path.join(workspace, 'src', 'needs-process'), 'needs-process', [PROCESS_PERMISSION]);
+      new PluginLockfile(workspace).record('needs-process', {
+        version: '1.0.0',
+        source: { type: 'local', path: source },
+        integrity: computeContentHash(source)
+      });
+      const manager = await createManager();
+
+      const result = await manager.installFromLockfile(undefined, { prompt: async () => [] });
+      expect(result).toMatchObject({ success: false, installed: [] });
+      expect(result.error).toContain('requires permissions that were not granted: process');
+      expect(fs.existsSync(path.join(pluginRoot, 'needs-process'))).toBe(false);
+      expect(manager.getInstaller().getInstallRecord('needs-process')).toBeUndefined();
+      expect(new PluginLockfile(workspace).getEntry('needs-process')).toBeDefined();
+    }, 30000);
+
+    it('keeps a plugin disabled when an update added a required permission', async () => {
+      writePlugin(path.join(pluginRoot, 'updated'), 'updated', [PROCESS_PERMISSION], '2.0.0');
+      fs.writeFileSync(path.join(pluginRoot, 'enabled.json'), JSON.stringify({ plugins: ['updated'] }));
+      const manager = await createManager();
+
+      expect(manager.getPlugin('updated')).toBeDefined();
+      expect(manager.getEnabledPlugins()).toEqual([]);
+      expect(globalThis.pluginManagerCalls).toEqual([]);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('requires permissions that were not granted: process'));
+
+      expect(await manager.enablePlugin('updated', async (_name, permissions) => permissions.map(p => p.name))).toBe(true);
+      expect(manager.getEnabledPlugins().map(plugin => plugin.metadata.name)).toEqual(['updated']);
+      expect(globalThis.pluginManagerCalls).toEqual(['enable:updated']);
+    });
+  });
+
+  describe('missing dependencies', () => {
+    const writeDependent = (fields: Record<string, string[]>) => {
+      const source = writePlugin(path.join(workspace, 'src', 'app'), 'app');
+      const manifestFile = path.join(source, 'package.json');
+      fs.writeFileSync(manifestFile, JSON.stringify({ ...JSON.parse(fs.readFileSync(manifestFile, 'utf-8')), ...fields }));
+      return source;
+    };
+
+    it('offers to install them and leaves the plugin unloaded when declined', async () => {
+      const source = writeDependent({ dependencies: ['helper@^1.0.0'], peerDependencies: ['theme'] });
+      const manager = await createManager();
+      const confirmDependencies = vi.fn(async () => false);
+
+      const result = await manager.installPlugin('app', source, { allowUnverified: true, confirmDependencies });
+      expect(confirmDependencies).toHaveBeenCalledWith('app', ['helper@^1.0.0']);
+      expect(result).toMatchObject({ success: true, missingDependencies: ['helper@^1.0.0', 'theme'] });
+      expect(manager.getPlugin('app')).toBeUndefined();
+    }, 30000);
+
+    it('does not offer to install peer dependencies', async () => {
+      const source = writeDependent({ peerDependencies: ['theme'] });
+      const manager = await createManager();
+      const confirmDependencies = vi.fn(async () => true);
+
+      const result = await manager.installPlugin('app', source, { allowUnverified: true, confirmDependencies });
+      expect(confirmDependencies).not.toHaveBeenCalled();
+      expect(result.missingDependencies).toEqual(['theme']);
+    }, 30000);
+  });
+
+  describe('installFromLockfile', () => {
+    const lock = (name: string, source: string, integrity = computeContentHash(source)) => {
+      new PluginLockfile(workspace).record(name, { version: '1.0.0', source: { type: 'local', path: source }, integrity });
+    };
+
+    it('installs the locked plugins and leaves matching installs unchanged', async () => {
+      const source = writePlugin(path.join(workspace, 'src', 'locked'), 'locked');
+      lock('locked', source);
+      const manager = await createManager();
+
+      expect(await manager.installFromLockfile()).toMatchObject({ success: true, installed: ['locked'], unchanged: [] });
+      expect(manager.getInstaller().getInstallRecord('locked')).toMatchObject({
+        version: '1.0.0',
+        source: { type: 'local', path: source },
+        verification: { status: 'hash-verified', hash: computeContentHash(source) }
+      });
+      expect(await manager.installFromLockfile()).toMatchObject({ success: true, installed: [], unchanged: ['locked'] });
+    }, 30000);
+
+    it('fails when the fetched content does not match the locked integrity', async () => {
+      const source = writePlugin(path.join(workspace, 'src', 'locked'), 'locked');
+      lock('locked', source, 'sha256-0000');
+      const manager = await createManager();
+
+      const result = await manager.installFromLockfile();
+      expect(result).toMatchObject({ success: false, installed: [] });
+      expect(result.error).toContain('Plugin locked does not match plugins.lock');
+      expect(result.error).toContain('does not match expected sha256-0000');
+      expect(fs.existsSync(path.join(pluginRoot, 'locked'))).toBe(false);
+      expect(new PluginLockfile(workspace).getEntry('locked')!.integrity).toBe('sha256-0000');
+    }, 30000);
+
+    it('fails without installing anything when installed plugins are not locked', async () => {
+      const source = writePlugin(path.join(workspace, 'src', 'locked'), 'locked');
+      lock('locked', source);
+      writePlugin(path.join(pluginRoot, 'unlocked'), 'unlocked');
+      const manager = await createManager();
+
+      const result = await manager.installFromLockfile();
+      expect(result).toMatchObject({ success: false, installed: [] });
+      expect(result.error).toBe('Installed plugins are not in plugins.lock: unlocked. Uninstall them or install without --frozen');
+      expect(fs.existsSync(path.join(pluginRoot, 'locked'))).toBe(false);
+    });
+  });
+
+  describe('secrets', () => {
+    const TOKEN = 'ghp_s3cr3t-token';
+
+    // A plugin whose command and tool hand back the token it reads
+    const writeLeakyPlugin = () => {
+      const dir = writePlugin(path.join(pluginRoot, 'leaky'), 'leaky');
+      const manifestFile = path.join(dir, 'package.json');
+      const metadata = { ...JSON.parse(fs.readFileSync(manifestFile, 'utf-8')), secrets: [{ name: 'token', description: 'API token' }] };
+      fs.writeFileSync(manifestFile, JSON.stringify(metadata));
+      fs.writeFileSync(path.join(dir, 'index.mjs'), `export default class {
+  metadata = ${JSON.stringify(metadata)};
+  constructor(context) { this.context = context; }
+  registerCommands(registry) {
+    registry.registerCommand({ name: 'whoami', description: 'Shows the token' }, async () => {
+      const token = await this.context.secrets.get('token');
+      return { token, headers: [\`Authorization: Bearer \${token}\`] };
+    });
+    registry.registerCommand({ name: 'fail', description: 'Fails with the token' }, async () => {
+      throw new Error(\`rejected \${await this.context.secrets.get('token')}\`);
+    });
+  }
+  registerTools(registry) {
+    registry.registerTool({ name: 'get_token', displayName: 'Get token', description: 'Returns the token' },
+      async () => this.context.secrets.get('token'));
+  }
+}
+`);
+    };
+
+    it('are masked in command and tool results', async () => {
+      writeLeakyPlugin();
+      const manager = new PluginManager(workspace, { cliVersion: '1.0.0', secretKeyFile: path.join(workspace, 'plugin-secrets.key') });
+      await manager.loadAllPlugins();
+      expect(await manager.enablePlugin('leaky')).toBe(true);
+      manager.setPluginSecret('leaky', 'token', TOKEN);
+      const emit = vi.spyOn(manager.getEventBus(), 'emit');
+
+      const result = await manager.dispatchCommand('/whoami');
+      expect(result).toEqual({ success: true, result: { token: '********', headers: ['Authorization: Bearer ********'] } });
+      expect(JSON.stringify(result)).not.toContain(TOKEN);
+      expect(await manager.dispatchCommand('/fail')).toEqual({ success: false, error: 'Command /fail failed: rejected ********' });
+
+      expect(await manager.invokeTool('get_token')).toEqual({ success: true, result: '********' });
+      expect(emit).toHaveBeenCalledWith('tool:after', expect.objectContaining({ result: '********' }));
+    });
+  });
+
+  describe('enablePlugin', () => {
+    it('runs onEnable once when the plugin is already enabled', async () => {
+      writePlugin(path.join(pluginRoot, 'twice'), 'twice');
+      const manager = await createManager();
+
+      expect(await manager.enablePlugin('twice')).toBe(true);
+      expect(await manager.enablePlugin('twice')).toBe(true);
+      expect(globalThis.pluginManagerCalls).toEqual(['enable:twice']);
+    });
+  });
+});
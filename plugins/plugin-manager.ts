@@ -7,23 +7,122 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { GeminiPlugin, PluginMetadata, PluginType, PluginContext, PluginInstallResult } from './plugin-interface.js';
-import { PluginRegistry } from './plugin-registry.js';
+import {
+  GeminiPlugin,
+  PluginMetadata,
+  PluginType,
+  PluginContext,
+  PluginInstallResult,
+  PluginEventMap,
+  PluginEventName,
+  PluginCommandResult,
+  PluginToolResult
+} from './plugin-interface.js';
+import { PluginRegistry, PluginRegistryOptions } from './plugin-registry.js';
 import { PluginInstaller } from './plugin-installer.js';
+import { CommandDispatcher } from './command-dispatcher.js';
+import { PermissionManager, PermissionPrompt } from './permission-manager.js';
+import { SandboxedPlugin } from './sandbox/sandboxed-plugin.js';
+import { CompatibilityResult, HostVersions, checkCompatibility, getHostVersions } from './compatibility.js';
+import { DependencyResolver, DependencyProblem, formatDependency } from './dependency-resolver.js';
+import { LOCKFILE_NAME, PluginLockfile, toInstallSource } from './plugin-lockfile.js';
+import { MarketplaceClient, MarketplaceConfig } from './marketplace/marketplace-client.js';
+import { validatePluginManifest } from './manifest-schema.js';
+import { formatSchemaErrors, validateSchema } from './schema-validator.js';
+import { EventHandlerFailure, PluginEventBus } from './plugin-events.js';
+import { ThemeManager } from './theme/theme-manager.js';
+import { MCP_SERVER_PERMISSION, McpServerManager, McpServerStatus } from './mcp/mcp-server-manager.js';
+import { PluginConfigStore, ResolvedPluginConfig, parseConfigValue } from './plugin-config.js';
+import { PluginSecretStore } from './plugin-secrets.js';
+
+/**
+ * - none: plugins are imported into the CLI process
+ * - worker: each plugin runs in its own worker thread behind an RPC bridge
+ */
+export type PluginIsolation = 'none' | 'worker';
+
+/**
+ * Asked after installing a plugin whose plugin dependencies are missing;
+ * resolving to true installs them as `--with-deps` would.
+ */
+export type DependencyPrompt = (pluginName: string, dependencies: string[]) => Promise<boolean>;
+
+export interface PluginManagerOptions extends PluginRegistryOptions {
+  cliVersion?: string;
+  isolation?: PluginIsolation;
+  sandboxCallTimeout?: number;
+  // Milliseconds an event handler may run before the CLI stops waiting for it
+  eventHandlerTimeout?: number;
+  // Milliseconds an MCP server may take to start or answer a tool call
+  mcpRequestTimeout?: number;
+  marketplace?: MarketplaceConfig;
+  // Master key of plugin secrets; ~/.gemini/plugin-secrets.key by default
+  secretKeyFile?: string;
+}
+
+export interface FrozenInstallResult {
+  success: boolean;
+  installed: string[];
+  unchanged: string[];
+  error?: string;
+  warnings?: string[];
+}
 
 export class PluginManager {
   private plugins: Map<string, GeminiPlugin> = new Map();
   private registry: PluginRegistry;
   private installer: PluginInstaller;
+  private lockfile: PluginLockfile;
+  private dispatcher: CommandDispatcher;
+  private permissions: PermissionManager;
+  private configStore: PluginConfigStore;
+  private secrets: PluginSecretStore;
+  private events: PluginEventBus;
+  private themes: ThemeManager;
+  private mcpServers: McpServerManager;
+  private hostVersions: HostVersions;
+  private resolver: DependencyResolver = new DependencyResolver();
+  private dependencyProblems: DependencyProblem[] = [];
+  private workspaceRoot: string;
   private pluginRoot: string;
+  private isolation: PluginIsolation;
+  private sandboxCallTimeout?: number;
+  private marketplaceConfig: MarketplaceConfig;
+  private marketplace: MarketplaceClient;
+  private crashes: Map<string, string> = new Map();
+  private loading: Map<string, Promise<PluginInstallResult>> = new Map();
   private enabledPlugins: Set<string> = new Set();
   private pluginContexts: Map<string, PluginContext> = new Map();
 
-  constructor(workspaceRoot: string) {
+  constructor(workspaceRoot: string, options: PluginManagerOptions = {}) {
+    this.workspaceRoot = workspaceRoot;
     this.pluginRoot = path.join(workspaceRoot, '.gemini', 'plugins');
-    this.registry = new PluginRegistry();
-    this.installer = new PluginInstaller(this.pluginRoot);
     this.ensurePluginDirectory();
+    const settings = { ...this.loadSettings(), ...options };
+    this.registry = new PluginRegistry(settings);
+    this.isolation = settings.isolation || 'none';
+    this.sandboxCallTimeout = settings.sandboxCallTimeout;
+    this.marketplaceConfig = settings.marketplace || {};
+    this.hostVersions = getHostVersions(options.cliVersion);
+    this.lockfile = new PluginLockfile(workspaceRoot);
+    this.marketplace = new MarketplaceClient(this.getMarketplaceConfig());
+    this.installer = new PluginInstaller(this.pluginRoot, this.hostVersions, this.lockfile, this.marketplace);
+    this.dispatcher = new CommandDispatcher(this.registry);
+    this.permissions = new PermissionManager(this.pluginRoot);
+    this.configStore = new PluginConfigStore(this.pluginRoot);
+    this.secrets = new PluginSecretStore(this.pluginRoot, options.secretKeyFile);
+    this.events = new PluginEventBus({
+      handlerTimeout: settings.eventHandlerTimeout,
+      isEnabled: pluginName => this.enabledPlugins.has(pluginName),
+      onHandlerError: (pluginName, _event, error) => console.warn(`[${pluginName}] ${this.secrets.redact(pluginName, error.message)}`)
+    });
+    this.themes = new ThemeManager(this.pluginRoot, this.registry, this.events);
+    this.mcpServers = new McpServerManager(this.registry, {
+      clientVersion: this.hostVersions.cli,
+      requestTimeout: settings.mcpRequestTimeout,
+      onLog: (pluginName, message) => console.warn(`[${pluginName}] ${message}`),
+      onStderr: (pluginName, serverName, line) => console.debug(`[${pluginName}:${serverName}] ${line}`)
+    });
     this.loadEnabledPlugins();
     // Load all installed plugins
     this.loadAllPlugins().catch(error => {
@@ -37,6 +136,27 @@ export class PluginManager {
     }
   }
 
+  private loadSettings(): PluginManagerOptions {
+    const settingsFile = path.join(this.pluginRoot, 'settings.json');
+    if (fs.existsSync(settingsFile)) {
+      try {
+        const settings = JSON.parse(fs.readFileSync(settingsFile, 'utf-8'));
+        return {
+          conflictPolicy: settings.conflictPolicy,
+          priorities: settings.priorities,
+          isolation: settings.isolation,
+          sandboxCallTimeout: settings.sandboxCallTimeout,
+          eventHandlerTimeout: settings.eventHandlerTimeout,
+          mcpRequestTimeout: settings.mcpRequestTimeout,
+          marketplace: settings.marketplace
+        };
+      } catch (error) {
+        console.warn('Failed to load plugin settings:', error);
+      }
+    }
+    return {};
+  }
+
   private loadEnabledPlugins(): void {
     const enabledFile = path.join(this.pluginRoot, 'enabled.json');
     if (fs.existsSync(enabledFile)) {
@@ -57,6 +177,20 @@ export class PluginManager {
   }
 
   async loadPlugin(pluginName: string): Promise<PluginInstallResult> {
+    // The constructor starts loading in the background, so callers may ask
+    // for a plugin that is already on its way; share that load instead of
+    // starting a second instance (and a second worker)
+    const inFlight = this.loading.get(pluginName);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const load = this.importPlugin(pluginName).finally(() => this.loading.delete(pluginName));
+    this.loading.set(pluginName, load);
+    return load;
+  }
+
+  private async importPlugin(pluginName: string): Promise<PluginInstallResult> {
     try {
       const pluginDir = path.join(this.pluginRoot, pluginName);
       if (!fs.existsSync(pluginDir)) {
@@ -71,8 +205,19 @@ export class PluginManager {
       const metadata: PluginMetadata = JSON.parse(fs.readFileSync(metadataFile, 'utf-8'));
       
       // Validate metadata
-      if (!this.validatePluginMetadata(metadata)) {
-        return { success: false, error: `Plugin ${pluginName} has invalid metadata` };
+      const problems = validatePluginManifest(metadata);
+      if (problems.length > 0) {
+        return { success: false, error: `Plugin ${pluginName} has invalid metadata: ${formatSchemaErrors(problems)}` };
+      }
+
+      // Refuse plugins built for another CLI or Node version unless they
+      // were installed with --force
+      const compatibility = checkCompatibility(metadata, this.hostVersions);
+      if (!compatibility.compatible && !this.installer.getInstallRecord(pluginName)?.force) {
+        return {
+          success: false,
+          error: `Plugin ${pluginName} is not compatible with this environment: ${compatibility.reasons.join('; ')}`
+        };
       }
 
       // Load the plugin module
@@ -81,32 +226,73 @@ export class PluginManager {
         return { success: false, error: `Plugin ${pluginName} entry point not found: ${entryPoint}` };
       }
 
-      // Dynamic import of the plugin
-      const pluginModule = await import(entryPoint);
-      const PluginClass = pluginModule.default || pluginModule[metadata.name] || pluginModule.Plugin;
-      
-      if (!PluginClass) {
-        return { success: false, error: `Plugin ${pluginName} does not export a valid plugin class` };
+      const config = this.configStore.resolve(metadata, pluginDir);
+      if (config.errors.length > 0) {
+        return {
+          success: false,
+          error: `Plugin ${pluginName} has invalid config: ${formatSchemaErrors(config.errors)}. ` +
+            `Review it with "gemini plugins config ${pluginName}"`
+        };
       }
 
-      // Create plugin context
+      // Create plugin context. Log messages are redacted as secrets the
+      // plugin has seen could end up in them
+      const redact = (msg: string) => this.secrets.redact(pluginName, String(msg));
       const context: PluginContext = {
-        workspaceRoot: path.dirname(this.pluginRoot),
+        workspaceRoot: this.workspaceRoot,
         pluginRoot: pluginDir,
-        config: this.loadPluginConfig(pluginName),
+        config: config.values,
         logger: {
-          info: (msg: string) => console.log(`[${pluginName}] ${msg}`),
-          warn: (msg: string) => console.warn(`[${pluginName}] ${msg}`),
-          error: (msg: string) => console.error(`[${pluginName}] ${msg}`),
-          debug: (msg: string) => console.debug(`[${pluginName}] ${msg}`),
-        }
+          info: (msg: string) => console.log(`[${pluginName}] ${redact(msg)}`),
+          warn: (msg: string) => console.warn(`[${pluginName}] ${redact(msg)}`),
+          error: (msg: string) => console.error(`[${pluginName}] ${redact(msg)}`),
+          debug: (msg: string) => console.debug(`[${pluginName}] ${redact(msg)}`),
+        },
+        permissions: {
+          granted: [...this.permissions.getGrants(pluginName).granted],
+          has: (permission: string) => this.permissions.hasPermission(pluginName, permission)
+        },
+        events: this.events.forPlugin(pluginName),
+        secrets: this.secrets.forPlugin(metadata),
+        ...this.permissions.createPrivilegedApis(pluginName)
       };
 
-      // Instantiate plugin
-      const plugin = new PluginClass(context);
+      let plugin: GeminiPlugin;
+      if (this.isolation === 'worker') {
+        // Run the plugin in a worker thread; crashes and hangs are contained there
+        plugin = await SandboxedPlugin.start({
+          pluginName,
+          entryPoint,
+          workspaceRoot: context.workspaceRoot,
+          pluginRoot: pluginDir,
+          config: context.config,
+          grantedPermissions: context.permissions.granted
+        }, {
+          callTimeout: this.sandboxCallTimeout,
+          events: context.events,
+          secrets: context.secrets,
+          onLog: (level, message) => context.logger[level](message),
+          onCrash: error => this.handlePluginCrash(pluginName, error)
+        });
+      } else {
+        // Dynamic import of the plugin. Node caches modules by the path
+        // asked for, so import the real path: a plugin linked for development
+        // points at a new build after each reload
+        const pluginModule = await import(fs.realpathSync(entryPoint));
+        const PluginClass = pluginModule.default || pluginModule[metadata.name] || pluginModule.Plugin;
+        
+        if (!PluginClass) {
+          return { success: false, error: `Plugin ${pluginName} does not export a valid plugin class` };
+        }
+
+        // Instantiate plugin
+        plugin = new PluginClass(context);
+      }
+      this.crashes.delete(pluginName);
       
       // Validate plugin implements required interface
       if (!plugin.metadata || plugin.metadata.name !== metadata.name) {
+        await this.disposePlugin(plugin);
         return { success: false, error: `Plugin ${pluginName} does not implement required interface` };
       }
 
@@ -115,14 +301,29 @@ export class PluginManager {
       this.pluginContexts.set(pluginName, context);
 
       // Register plugin capabilities
-      await this.registerPluginCapabilities(plugin);
+      const warnings = await this.registerPluginCapabilities(pluginName, plugin);
 
-      // Call onEnable if plugin is enabled
-      if (this.enabledPlugins.has(pluginName) && plugin.onEnable) {
-        await plugin.onEnable();
+      // An update may have declared required permissions that were never
+      // granted; the plugin stays disabled until enabling it asks for them
+      const missingPermissions = this.permissions.getMissingRequired(metadata);
+      if (this.enabledPlugins.has(pluginName) && missingPermissions.length > 0) {
+        this.enabledPlugins.delete(pluginName);
+        this.saveEnabledPlugins();
+        const warning = `was disabled because it requires permissions that were not granted: ${missingPermissions.join(', ')}. ` +
+          `Run "gemini plugins enable ${pluginName}" to grant them`;
+        console.warn(`[${pluginName}] ${warning}`);
+        warnings.push(`Plugin ${pluginName} ${warning}`);
       }
 
-      return { success: true, plugin };
+      // Call onEnable and start MCP servers if plugin is enabled
+      if (this.enabledPlugins.has(pluginName)) {
+        if (plugin.onEnable) {
+          await plugin.onEnable();
+        }
+        await this.startMcpServers(pluginName);
+      }
+
+      return { success: true, plugin, warnings };
     } catch (error) {
       return { 
         success: false, 
@@ -131,57 +332,136 @@ export class PluginManager {
     }
   }
 
-  private validatePluginMetadata(metadata: PluginMetadata): boolean {
-    const required = ['name', 'version', 'description', 'author', 'type', 'entryPoint', 'compatibility'];
-    for (const field of required) {
-      if (!metadata[field as keyof PluginMetadata]) {
-        return false;
-      }
-    }
-    return true;
-  }
-
-  private loadPluginConfig(pluginName: string): any {
-    const configFile = path.join(this.pluginRoot, pluginName, 'config.json');
-    if (fs.existsSync(configFile)) {
-      try {
-        return JSON.parse(fs.readFileSync(configFile, 'utf-8'));
-      } catch (error) {
-        console.warn(`Failed to load config for plugin ${pluginName}:`, error);
-      }
-    }
-    return {};
-  }
-
-  private async registerPluginCapabilities(plugin: GeminiPlugin): Promise<void> {
+  private async registerPluginCapabilities(pluginName: string, plugin: GeminiPlugin): Promise<string[]> {
     // Register commands
     if (plugin.registerCommands) {
-      plugin.registerCommands(this.registry.getCommandRegistry());
+      plugin.registerCommands(this.registry.getCommandRegistry(pluginName));
     }
 
     // Register tools
     if (plugin.registerTools) {
-      plugin.registerTools(this.registry.getToolRegistry());
+      plugin.registerTools(this.registry.getToolRegistry(pluginName));
     }
 
     // Register themes
     if (plugin.registerThemes) {
-      plugin.registerThemes(this.registry.getThemeRegistry());
+      plugin.registerThemes(this.registry.getThemeRegistry(pluginName));
     }
 
     // Register extensions
     if (plugin.registerExtensions) {
-      plugin.registerExtensions(this.registry.getExtensionRegistry());
+      plugin.registerExtensions(this.registry.getExtensionRegistry(pluginName));
     }
+
+    const warnings = this.registry.getConflicts(pluginName)
+      .filter(conflict => conflict.contender === pluginName)
+      .map(conflict => {
+        let outcome = 'was not registered';
+        if (conflict.resolution === 'namespaced') {
+          outcome = `was registered as ${conflict.registeredAs}`;
+        } else if (conflict.resolution === 'replaced') {
+          outcome = `took precedence (${conflict.owner}'s is now ${conflict.owner}:${conflict.name})`;
+        }
+        return `${conflict.type} "${conflict.name}" is already provided by ${conflict.owner} and ${outcome}`;
+      });
+
+    for (const warning of warnings) {
+      console.warn(`[${pluginName}] ${warning}`);
+    }
+
+    return warnings;
+  }
+
+  async installPlugin(pluginName: string, source?: string, options: {
+    version?: string;
+    registry?: string;
+    withDependencies?: boolean;
+    force?: boolean;
+    allowUnverified?: boolean;
+    prompt?: PermissionPrompt;
+    confirmDependencies?: DependencyPrompt;
+  } = {}): Promise<PluginInstallResult> {
+    return this.installWithDependencies(pluginName, source, options, new Set());
   }
 
-  async installPlugin(pluginName: string, source?: string): Promise<PluginInstallResult> {
+  private async installWithDependencies(pluginName: string, source: string | undefined, options: {
+    version?: string;
+    registry?: string;
+    withDependencies?: boolean;
+    force?: boolean;
+    allowUnverified?: boolean;
+    prompt?: PermissionPrompt;
+    confirmDependencies?: DependencyPrompt;
+  }, visiting: Set<string>): Promise<PluginInstallResult> {
+    visiting.add(pluginName);
+
     try {
-      const result = await this.installer.install(pluginName, source);
-      if (result.success && result.plugin) {
-        await this.loadPlugin(pluginName);
+      const result = await this.installer.install(pluginName, source, {
+        version: options.version,
+        registry: options.registry,
+        force: options.force,
+        allowUnverified: options.allowUnverified
+      });
+      if (!result.success) {
+        return result;
       }
-      return result;
+
+      const metadata = this.installer.getPluginMetadata(pluginName);
+
+      const consentError = metadata && await this.requireConsent(metadata, options.prompt);
+      if (consentError) {
+        return { success: false, error: consentError };
+      }
+
+      let unmet = metadata ? this.resolver.findUnmetDependencies(metadata, this.getInstalledManifests()) : [];
+      // Peer dependencies are never installed for a plugin
+      const installable = unmet.filter(dependency => !visiting.has(dependency.name) && !dependency.peer);
+
+      if (installable.length > 0 && (options.withDependencies ||
+          await options.confirmDependencies?.(pluginName, installable.map(formatDependency)))) {
+        // Dependencies always come from npm through their own registry and
+        // are always verified; only the requested plugin honours an explicit
+        // source, --registry and --allow-unverified
+        for (const dependency of installable) {
+          const dependencyResult = await this.installWithDependencies(dependency.name, undefined, {
+            version: dependency.range === '*' ? undefined : dependency.range,
+            withDependencies: true,
+            prompt: options.prompt
+          }, visiting);
+          if (!dependencyResult.success) {
+            return {
+              success: false,
+              error: `Failed to install dependency ${formatDependency(dependency)} of ${pluginName}: ${dependencyResult.error}`
+            };
+          }
+        }
+        unmet = this.resolver.findUnmetDependencies(metadata!, this.getInstalledManifests());
+      }
+
+      if (unmet.length > 0) {
+        return {
+          ...result,
+          missingDependencies: unmet.map(formatDependency),
+          warnings: [
+            ...(result.warnings || []),
+            `Plugin ${pluginName} was installed but not loaded because it requires: ${unmet.map(formatDependency).join(', ')}`
+          ]
+        };
+      }
+
+      const loadResult = await this.loadPlugin(pluginName);
+      if (!loadResult.success) {
+        return {
+          ...result,
+          warnings: [...(result.warnings || []), `Plugin ${pluginName} was installed but failed to load: ${loadResult.error}`]
+        };
+      }
+
+      return {
+        ...result,
+        plugin: loadResult.plugin,
+        warnings: [...(result.warnings || []), ...(loadResult.warnings || [])]
+      };
     } catch (error) {
       return { 
         success: false, 
@@ -190,21 +470,118 @@ export class PluginManager {
     }
   }
 
+  /**
+   * Reproduces the plugin set recorded in plugins.lock: every locked plugin
+   * is installed at its locked version and source and must match its locked
+   * content hash. Fails without changing anything when plugins outside the
+   * lockfile are installed; with `pluginName`, only that plugin is installed.
+   */
+  async installFromLockfile(pluginName?: string, options: {
+    force?: boolean;
+    prompt?: PermissionPrompt;
+  } = {}): Promise<FrozenInstallResult> {
+    const installed: string[] = [];
+    const unchanged: string[] = [];
+    const warnings: string[] = [];
+
+    if (!this.lockfile.exists()) {
+      return { success: false, installed, unchanged, error: `No ${LOCKFILE_NAME} found in ${this.workspaceRoot}` };
+    }
+
+    const entries = this.lockfile.getEntries();
+    if (pluginName && !entries[pluginName]) {
+      return { success: false, installed, unchanged, error: `Plugin ${pluginName} is not in ${LOCKFILE_NAME}` };
+    }
+
+    if (!pluginName) {
+      const unlocked = this.installer.getInstalledPlugins().filter(name => !entries[name]);
+      if (unlocked.length > 0) {
+        return {
+          success: false,
+          installed,
+          unchanged,
+          error: `Installed plugins are not in ${LOCKFILE_NAME}: ${unlocked.join(', ')}. Uninstall them or install without --frozen`
+        };
+      }
+    }
+
+    for (const name of pluginName ? [pluginName] : Object.keys(entries)) {
+      const locked = entries[name];
+      const record = this.installer.getInstallRecord(name);
+      if (record && record.version === locked.version && record.verification?.hash === locked.integrity &&
+          JSON.stringify(record.source) === JSON.stringify(locked.source)) {
+        unchanged.push(name);
+        continue;
+      }
+
+      const result = await this.installer.install(name, toInstallSource(locked.source), { force: options.force, locked });
+      if (!result.success) {
+        return { success: false, installed, unchanged, error: `Plugin ${name} does not match ${LOCKFILE_NAME}: ${result.error}` };
+      }
+
+      // plugins.lock is the input here and keeps the entry
+      const metadata = this.installer.getPluginMetadata(name);
+      const consentError = metadata && await this.requireConsent(metadata, options.prompt, { keepLockEntry: true });
+      if (consentError) {
+        return { success: false, installed, unchanged, error: consentError };
+      }
+      installed.push(name);
+      warnings.push(...(result.warnings || []));
+    }
+
+    // Replaced plugins need a fresh instance; the rest load in dependency order
+    for (const name of installed) {
+      if (this.plugins.has(name)) {
+        await this.reloadPlugin(name);
+      }
+    }
+    await this.loadAllPlugins();
+
+    return { success: true, installed, unchanged, warnings };
+  }
+
+  /**
+   * Asks for a freshly installed plugin's pending permissions. A plugin
+   * whose required permissions are declined is uninstalled again, and the
+   * returned error says why.
+   */
+  private async requireConsent(
+    metadata: PluginMetadata,
+    prompt?: PermissionPrompt,
+    options: { keepLockEntry?: boolean } = {}
+  ): Promise<string | undefined> {
+    const consent = await this.permissions.requestConsent(metadata, prompt);
+    if (consent.missingRequired.length === 0) {
+      return undefined;
+    }
+
+    await this.installer.uninstall(metadata.name, options);
+    return `Plugin ${metadata.name} requires permissions that were not granted: ${consent.missingRequired.join(', ')}`;
+  }
+
   async uninstallPlugin(pluginName: string): Promise<boolean> {
     try {
       const plugin = this.plugins.get(pluginName);
-      if (plugin && plugin.onUninstall) {
+      if (plugin && plugin.onUninstall && !this.isCrashed(plugin)) {
         await plugin.onUninstall();
       }
 
       // Remove from registries
+      await this.mcpServers.stopServers(pluginName);
       this.registry.unregisterPlugin(pluginName);
+      this.events.unsubscribePlugin(pluginName);
+      if (plugin) {
+        await this.disposePlugin(plugin);
+      }
 
       // Remove from memory
       this.plugins.delete(pluginName);
       this.pluginContexts.delete(pluginName);
       this.enabledPlugins.delete(pluginName);
       this.saveEnabledPlugins();
+      this.permissions.clear(pluginName);
+      this.configStore.clear(pluginName);
+      this.secrets.clear(pluginName);
 
       // Remove from filesystem
       await this.installer.uninstall(pluginName);
@@ -216,11 +593,33 @@ export class PluginManager {
     }
   }
 
-  async enablePlugin(pluginName: string): Promise<boolean> {
-    const plugin = this.plugins.get(pluginName);
+  async enablePlugin(pluginName: string, prompt?: PermissionPrompt): Promise<boolean> {
+    let plugin = this.plugins.get(pluginName);
     if (!plugin) {
       return false;
     }
+    // onEnable runs once per enable
+    if (this.enabledPlugins.has(pluginName)) {
+      return true;
+    }
+
+    // Ask for permissions declared since the plugin was installed and refuse
+    // to enable it while a required one is missing
+    const metadata = this.installer.getPluginMetadata(pluginName) || plugin.metadata;
+    const consent = await this.permissions.requestConsent(metadata, prompt);
+    if (consent.missingRequired.length > 0) {
+      throw new Error(`Plugin ${pluginName} requires permissions that were not granted: ${consent.missingRequired.join(', ')}`);
+    }
+
+    // Newly granted permissions only reach the plugin through a fresh
+    // context, and a crashed plugin needs a fresh worker
+    if (consent.granted.length > 0 || this.isCrashed(plugin)) {
+      const result = await this.reloadPlugin(pluginName);
+      if (!result.success || !result.plugin) {
+        throw new Error(result.error || `Failed to reload plugin ${pluginName}`);
+      }
+      plugin = result.plugin;
+    }
 
     if (plugin.onEnable) {
       await plugin.onEnable();
@@ -228,6 +627,7 @@ export class PluginManager {
 
     this.enabledPlugins.add(pluginName);
     this.saveEnabledPlugins();
+    await this.startMcpServers(pluginName);
     return true;
   }
 
@@ -237,10 +637,12 @@ export class PluginManager {
       return false;
     }
 
-    if (plugin.onDisable) {
+    if (plugin.onDisable && !this.isCrashed(plugin)) {
       await plugin.onDisable();
     }
 
+    await this.mcpServers.stopServers(pluginName);
+    this.events.unsubscribePlugin(pluginName);
     this.enabledPlugins.delete(pluginName);
     this.saveEnabledPlugins();
     return true;
@@ -260,36 +662,373 @@ export class PluginManager {
     );
   }
 
+  /**
+   * Returns why a sandboxed plugin was stopped, if it crashed or hung.
+   */
+  getCrash(pluginName: string): string | undefined {
+    return this.crashes.get(pluginName);
+  }
+
+  // A crashed plugin stays loaded but disabled, so enabling it again starts
+  // a fresh worker
+  private handlePluginCrash(pluginName: string, error: Error): void {
+    console.error(`[${pluginName}] ${this.secrets.redact(pluginName, error.message)}`);
+    this.crashes.set(pluginName, error.message);
+    this.mcpServers.stopServers(pluginName).catch(stopError => {
+      console.warn(`Failed to stop MCP servers of ${pluginName}:`, stopError);
+    });
+    this.registry.unregisterPlugin(pluginName);
+    this.events.unsubscribePlugin(pluginName);
+    if (this.enabledPlugins.delete(pluginName)) {
+      this.saveEnabledPlugins();
+    }
+  }
+
+  private isCrashed(plugin: GeminiPlugin): boolean {
+    return plugin instanceof SandboxedPlugin && plugin.crashed !== null;
+  }
+
+  private async disposePlugin(plugin: GeminiPlugin): Promise<void> {
+    if (plugin instanceof SandboxedPlugin) {
+      await plugin.dispose();
+    }
+  }
+
+  getPermissionManager(): PermissionManager {
+    return this.permissions;
+  }
+
+  /**
+   * Revokes a granted permission and reloads the plugin so its context no
+   * longer exposes the matching API. Revoking a required permission also
+   * disables the plugin.
+   */
+  async revokePermission(pluginName: string, permission: string): Promise<boolean> {
+    if (!this.permissions.revoke(pluginName, permission)) {
+      return false;
+    }
+
+    const metadata = this.installer.getPluginMetadata(pluginName);
+    const required = metadata?.permissions?.some(p => p.name === permission && p.required);
+    if (required && this.enabledPlugins.has(pluginName)) {
+      await this.disablePlugin(pluginName);
+    }
+
+    // The plugin is no longer enabled if it was just disabled, so the reload
+    // does not run onDisable a second time
+    if (this.plugins.has(pluginName)) {
+      await this.reloadPlugin(pluginName);
+    }
+    return true;
+  }
+
+  /**
+   * A plugin's config as it would be loaded now, with where each value comes
+   * from and any validation errors. Works for plugins that failed to load.
+   */
+  getPluginConfig(pluginName: string): ResolvedPluginConfig | null {
+    const metadata = this.installer.getPluginMetadata(pluginName);
+    return metadata ? this.configStore.resolve(metadata, path.join(this.pluginRoot, pluginName)) : null;
+  }
+
+  /**
+   * Saves a config value typed as text, parsed and checked against the key's
+   * declared type, and reloads the plugin so its context sees the change.
+   * Plugins without a configSchema accept any key.
+   */
+  async setPluginConfig(pluginName: string, key: string, rawValue: string): Promise<PluginInstallResult> {
+    const metadata = this.installer.getPluginMetadata(pluginName);
+    if (!metadata) {
+      throw new Error(`Plugin ${pluginName} not found`);
+    }
+
+    const property = metadata.configSchema?.properties[key];
+    if (metadata.configSchema && !property) {
+      throw new Error(`Plugin ${pluginName} has no config key ${key}`);
+    }
+
+    let value: unknown;
+    try {
+      value = parseConfigValue(rawValue, property);
+    } catch (error) {
+      throw new Error(`${key} ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const errors = validateSchema(property, value, key);
+    if (errors.length > 0) {
+      throw new Error(formatSchemaErrors(errors));
+    }
+
+    this.configStore.set(pluginName, key, value);
+    return this.reloadPlugin(pluginName);
+  }
+
+  /**
+   * Removes a config value so the plugin's default applies again, and
+   * reloads the plugin. Returns null when the key was not set.
+   */
+  async unsetPluginConfig(pluginName: string, key: string): Promise<PluginInstallResult | null> {
+    if (!this.configStore.unset(pluginName, key)) {
+      return null;
+    }
+    return this.reloadPlugin(pluginName);
+  }
+
+  /**
+   * The secrets a plugin declares and whether each is set. Values are never
+   * returned; only the plugin itself can read them.
+   */
+  getPluginSecrets(pluginName: string): { name: string; description: string; set: boolean }[] | null {
+    const metadata = this.installer.getPluginMetadata(pluginName);
+    if (!metadata) {
+      return null;
+    }
+
+    const stored = new Set(this.secrets.getNames(pluginName));
+    return (metadata.secrets || []).map(secret => ({ ...secret, set: stored.has(secret.name) }));
+  }
+
+  /**
+   * Stores a secret the plugin declares. The plugin reads secrets when it
+   * needs them, so it is not reloaded.
+   */
+  setPluginSecret(pluginName: string, name: string, value: string): void {
+    this.checkDeclaredSecret(pluginName, name);
+    if (value === '') {
+      throw new Error(`Secret ${name} cannot be empty`);
+    }
+    this.secrets.set(pluginName, name, value);
+  }
+
+  // Returns false when the secret was not set. Secrets an update no longer
+  // declares can still be deleted
+  deletePluginSecret(pluginName: string, name: string): boolean {
+    if (!this.secrets.getNames(pluginName).includes(name)) {
+      this.checkDeclaredSecret(pluginName, name);
+    }
+    return this.secrets.delete(pluginName, name);
+  }
+
+  private checkDeclaredSecret(pluginName: string, name: string): void {
+    const metadata = this.installer.getPluginMetadata(pluginName);
+    if (!metadata) {
+      throw new Error(`Plugin ${pluginName} not found`);
+    }
+    if (!metadata.secrets?.some(secret => secret.name === name)) {
+      throw new Error(`Plugin ${pluginName} does not declare a secret named ${name}`);
+    }
+  }
+
   getPluginRegistry(): PluginRegistry {
     return this.registry;
   }
 
+  getCommandDispatcher(): CommandDispatcher {
+    return this.dispatcher;
+  }
+
+  getEventBus(): PluginEventBus {
+    return this.events;
+  }
+
+  getThemeManager(): ThemeManager {
+    return this.themes;
+  }
+
+  /**
+   * Status of each mcp-server extension of a plugin. Only enabled plugins
+   * run their servers.
+   */
+  getMcpServers(pluginName: string): McpServerStatus[] {
+    return this.mcpServers.getStatus(pluginName);
+  }
+
+  // Stops every MCP server, e.g. when the CLI exits
+  async stopMcpServers(): Promise<void> {
+    await this.mcpServers.stopAll();
+  }
+
+  // MCP servers are commands run outside any sandbox, so they need the
+  // process permission like context.exec
+  private async startMcpServers(pluginName: string): Promise<void> {
+    const extensions = this.registry.getPluginCapabilities(pluginName).extensions;
+    if (!extensions.some(extension => extension.type === 'mcp-server')) {
+      return;
+    }
+    if (!this.permissions.hasPermission(pluginName, MCP_SERVER_PERMISSION)) {
+      console.warn(`[${pluginName}] MCP servers not started: the ${MCP_SERVER_PERMISSION} permission is not granted`);
+      return;
+    }
+
+    // Server commands run from the plugin directory
+    await this.mcpServers.startServers(pluginName, extensions, path.join(this.pluginRoot, pluginName));
+  }
+
+  /**
+   * Delivers a CLI event to the enabled plugins subscribed to it. Resolves
+   * once every handler has finished or timed out and never rejects.
+   */
+  async emitEvent<E extends PluginEventName>(event: E, payload: PluginEventMap[E]): Promise<EventHandlerFailure[]> {
+    return this.events.emit(event, payload);
+  }
+
+  /**
+   * Runs a slash command input. The result and error are redacted like the
+   * owning plugin's log messages, as the CLI prints them.
+   */
+  async dispatchCommand(input: string): Promise<PluginCommandResult> {
+    const result = await this.dispatcher.dispatch(input);
+    const name = input.trim().split(/\s+/)[0].slice(1);
+    return this.redactResult(this.registry.getOwner('command', name), result);
+  }
+
+  /**
+   * Invokes a registered tool, emitting tool:before and tool:after around
+   * the call. The result is redacted before other plugins or the model see
+   * it.
+   */
+  async invokeTool(name: string, args: Record<string, any> = {}): Promise<PluginToolResult> {
+    const plugin = this.registry.getOwner('tool', name);
+    await this.events.emit('tool:before', { tool: name, plugin, args });
+
+    const started = Date.now();
+    const result = this.redactResult(plugin, await this.registry.invokeTool(name, args));
+    await this.events.emit('tool:after', {
+      tool: name,
+      plugin,
+      args,
+      success: result.success,
+      result: result.result,
+      error: result.error,
+      durationMs: Date.now() - started
+    });
+    return result;
+  }
+
+  private redactResult<T extends { result?: any; error?: string }>(pluginName: string | undefined, result: T): T {
+    if (!pluginName) {
+      return result;
+    }
+    return {
+      ...result,
+      ...(result.result !== undefined && { result: this.secrets.redactJson(pluginName, result.result) }),
+      ...(result.error !== undefined && { error: this.secrets.redact(pluginName, result.error) })
+    };
+  }
+
+  /**
+   * Marketplace settings with relative directories resolved against the
+   * workspace root. Responses are cached under the plugin root by default.
+   * Registry tokens may reference environment variables as `${NAME}`.
+   */
+  getMarketplaceConfig(): MarketplaceConfig {
+    const config = { ...this.marketplaceConfig };
+    if (config.indexDir) {
+      config.indexDir = path.resolve(this.workspaceRoot, config.indexDir);
+    }
+    config.cacheDir = config.cacheDir
+      ? path.resolve(this.workspaceRoot, config.cacheDir)
+      : path.join(this.pluginRoot, '.cache', 'marketplace');
+    config.registries = config.registries?.map(registry => ({
+      ...registry,
+      indexDir: registry.indexDir && path.resolve(this.workspaceRoot, registry.indexDir),
+      token: registry.token?.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] || '')
+    }));
+    return config;
+  }
+
+  getMarketplaceClient(): MarketplaceClient {
+    return this.marketplace;
+  }
+
   getInstaller(): PluginInstaller {
     return this.installer;
   }
 
+  /**
+   * Restores the version a plugin had before its last install or update and
+   * loads it in place of the current one.
+   */
+  async rollbackPlugin(pluginName: string): Promise<PluginInstallResult> {
+    const result = await this.installer.rollback(pluginName);
+    if (!result.success) {
+      return result;
+    }
+
+    const loadResult = await this.reloadPlugin(pluginName);
+    if (!loadResult.success) {
+      return {
+        ...result,
+        warnings: [`Plugin ${pluginName} was rolled back but failed to load: ${loadResult.error}`]
+      };
+    }
+
+    return { ...result, plugin: loadResult.plugin, warnings: loadResult.warnings };
+  }
+
   async reloadPlugin(pluginName: string): Promise<PluginInstallResult> {
-    // Unload first
+    // Unload first; onDisable only pairs with an onEnable that ran
     const plugin = this.plugins.get(pluginName);
-    if (plugin && plugin.onDisable) {
+    if (plugin?.onDisable && this.enabledPlugins.has(pluginName)) {
       await plugin.onDisable();
     }
     
+    if (plugin) {
+      await this.disposePlugin(plugin);
+    }
+    await this.mcpServers.stopServers(pluginName);
     this.plugins.delete(pluginName);
     this.pluginContexts.delete(pluginName);
     this.registry.unregisterPlugin(pluginName);
+    this.events.unsubscribePlugin(pluginName);
 
     // Reload
     return await this.loadPlugin(pluginName);
   }
 
   async loadAllPlugins(): Promise<void> {
-    const pluginDirs = fs.readdirSync(this.pluginRoot, { withFileTypes: true })
-      .filter(dirent => dirent.isDirectory())
-      .map(dirent => dirent.name);
+    const { order, problems } = this.resolver.resolve(this.getInstalledManifests());
+    this.dependencyProblems = problems;
 
-    for (const pluginDir of pluginDirs) {
-      await this.loadPlugin(pluginDir);
+    for (const problem of problems) {
+      console.warn(`[${problem.plugin}] ${problem.message}`);
+    }
+
+    for (const pluginName of order) {
+      if (this.plugins.has(pluginName)) {
+        continue;
+      }
+      const result = await this.loadPlugin(pluginName);
+      if (!result.success) {
+        console.warn(result.error);
+      }
+    }
+  }
+
+  /**
+   * Evaluates an installed plugin's declared compatibility ranges against the
+   * running CLI and Node versions, e.g. to flag plugins that stopped being
+   * compatible after a CLI upgrade.
+   */
+  getCompatibility(pluginName: string): CompatibilityResult | null {
+    const metadata = this.installer.getPluginMetadata(pluginName);
+    return metadata ? checkCompatibility(metadata, this.hostVersions) : null;
+  }
+
+  getDependencyProblems(pluginName?: string): DependencyProblem[] {
+    if (!pluginName) {
+      return [...this.dependencyProblems];
+    }
+    return this.dependencyProblems.filter(problem => problem.plugin === pluginName);
+  }
+
+  private getInstalledManifests(): Map<string, PluginMetadata> {
+    const manifests = new Map<string, PluginMetadata>();
+    for (const pluginName of this.installer.getInstalledPlugins()) {
+      const metadata = this.installer.getPluginMetadata(pluginName);
+      if (metadata) {
+        manifests.set(pluginName, metadata);
+      }
     }
+    return manifests;
   }
-} 
\ No newline at end of file
+}
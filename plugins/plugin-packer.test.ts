@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getTarballName, isInsideDir, packPlugin, readPackedPlugin } from './plugin-packer.js';
+
+describe('packPlugin', () => {
+  let tempDir: string;
+  let projectDir: string;
+
+  const writeManifest = (fields: Record<string, unknown> = {}) => {
+    fs.writeFileSync(path.join(projectDir, 'package.json'), JSON.stringify({
+      name: 'pack-test',
+      version: '1.2.0',
+      description: 'A plugin to pack',
+      author: 'Tests',
+      type: 'utility',
+      entryPoint: 'dist/index.js',
+      compatibility: { 'gemini-cli': '>=0.1.0' },
+      ...fields
+    }));
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-packer-'));
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(projectDir, 'dist'), { recursive: true });
+    fs.mkdirSync(path.join(projectDir, 'src'));
+    fs.writeFileSync(path.join(projectDir, 'dist', 'index.js'), 'export default class {}');
+    fs.writeFileSync(path.join(projectDir, 'src', 'index.ts'), 'export default class {}');
+    fs.writeFileSync(path.join(projectDir, 'README.md'), '# Pack test');
+    fs.writeFileSync(path.join(tempDir, 'secret.txt'), 'not for packing');
+    writeManifest();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('packs a project and reads the tarball back', async () => {
+    const packed = await packPlugin(projectDir, { skipBuild: true });
+    expect(packed.success).toBe(true);
+    expect(path.basename(packed.packed!.tarballPath)).toBe(getTarballName({ name: 'pack-test', version: '1.2.0' }));
+    expect(packed.packed!.manifest.files.map(file => file.path)).toEqual(['README.md', 'dist/index.js', 'package.json', 'src/index.ts']);
+
+    const read = await readPackedPlugin(packed.packed!.tarballPath);
+    expect(read.success).toBe(true);
+    expect(read.packed!.manifest).toEqual(packed.packed!.manifest);
+    expect(read.packed!.metadata.name).toBe('pack-test');
+    expect(read.packed!.readme).toBe('# Pack test');
+  });
+
+  it('gives the same checksum when packing the same files twice', async () => {
+    const first = await packPlugin(projectDir, { skipBuild: true });
+    const second = await packPlugin(projectDir, { skipBuild: true });
+
+    expect(second.packed!.manifest.checksum).toBe(first.packed!.manifest.checksum);
+  });
+
+  it('only packs what "files" selects', async () => {
+    writeManifest({ files: ['dist'] });
+
+    const packed = await packPlugin(projectDir, { skipBuild: true });
+    expect(packed.packed!.manifest.files.map(file => file.path)).toEqual(['README.md', 'dist/index.js', 'package.json']);
+  });
+
+  it.each([['../secret.txt'], ['/etc/hostname'], ['dist/../../secret.txt']])(
+    'refuses a "files" entry outside the project: %s',
+    async entry => {
+      writeManifest({ files: ['dist', entry] });
+
+      const packed = await packPlugin(projectDir, { skipBuild: true });
+      expect(packed.success).toBe(false);
+      expect(packed.error).toContain('is outside the project');
+    }
+  );
+
+  it('rejects a tarball that no longer matches its file manifest', async () => {
+    const packed = await packPlugin(projectDir, { skipBuild: true });
+    fs.appendFileSync(packed.packed!.tarballPath, Buffer.from([0]));
+
+    const read = await readPackedPlugin(packed.packed!.tarballPath);
+    expect(read.success).toBe(false);
+    expect(read.error).toContain('does not match');
+  });
+});
+
+describe('isInsideDir', () => {
+  it('accepts relative paths that stay inside', () => {
+    expect(isInsideDir('/base', 'file.tgz')).toBe(true);
+    expect(isInsideDir('/base', 'a/../b.tgz')).toBe(true);
+    expect(isInsideDir('/base', '..file.tgz')).toBe(true);
+  });
+
+  it('rejects absolute paths and paths that leave the directory', () => {
+    expect(isInsideDir('/base', '/etc/passwd')).toBe(false);
+    expect(isInsideDir('/base', 'C:\\Windows')).toBe(false);
+    expect(isInsideDir('/base', '../x.tgz')).toBe(false);
+    expect(isInsideDir('/base', 'a/../../x.tgz')).toBe(false);
+    expect(isInsideDir('/base', '.')).toBe(false);
+  });
+});
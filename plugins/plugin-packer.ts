@@ -0,0 +1,286 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import { execSync } from 'node:child_process';
+import * as tar from 'tar';
+import { PluginMetadata } from './plugin-interface.js';
+import { computeContentHash } from './plugin-verifier.js';
+import { validatePluginManifest } from './manifest-schema.js';
+import { formatSchemaErrors } from './schema-validator.js';
+
+// Root entries never packed: dependencies, history, npm credentials and earlier packs
+const EXCLUDED_ENTRIES = new Set(['node_modules', '.git', '.npmrc']);
+const PACK_OUTPUT_PATTERN = /\.tgz(\.json)?$/;
+
+// Directory the files are stored under inside the tarball, as npm does
+const TARBALL_ROOT = 'package';
+// Fixed timestamp so packing the same files twice gives the same checksum
+const TARBALL_MTIME = new Date('2000-01-01T00:00:00Z');
+
+// package.json fields used for packing on top of the plugin manifest
+type PackageJson = PluginMetadata & { files?: string[]; scripts?: Record<string, string> };
+
+export interface PackedFile {
+  path: string;
+  size: number;
+  // Subresource Integrity form, `sha256-<base64>`
+  integrity: string;
+}
+
+/**
+ * File manifest written next to the tarball as `<tarball>.json`. `checksum`
+ * covers the tarball itself; `contentHash` is the hash the installer
+ * computes over the unpacked files, so a registry can serve it as the
+ * expected hash for verification.
+ */
+export interface PackManifest {
+  name: string;
+  version: string;
+  tarball: string;
+  size: number;
+  checksum: string;
+  contentHash: string;
+  files: PackedFile[];
+  packedAt: string;
+}
+
+export interface PackedPlugin {
+  tarballPath: string;
+  manifest: PackManifest;
+  metadata: PluginMetadata;
+  readme: string;
+}
+
+export interface PackResult {
+  success: boolean;
+  packed?: PackedPlugin;
+  error?: string;
+}
+
+/**
+ * Packs a plugin project for publishing: validates its manifest, runs its
+ * build script, and writes `<name>-<version>.tgz` and its file manifest to
+ * `outDir` (the project directory by default). The manifest's `files`
+ * entries, when present, select what is packed, as they do for npm;
+ * package.json, README and LICENSE are always included.
+ */
+export async function packPlugin(projectDir: string, options: { outDir?: string; skipBuild?: boolean } = {}): Promise<PackResult> {
+  const manifestFile = path.join(projectDir, 'package.json');
+  if (!fs.existsSync(manifestFile)) {
+    return { success: false, error: `No package.json found in ${projectDir}` };
+  }
+
+  let metadata: PackageJson;
+  try {
+    metadata = JSON.parse(fs.readFileSync(manifestFile, 'utf-8'));
+  } catch (error) {
+    return { success: false, error: `package.json is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const problems = validatePluginManifest(metadata);
+  if (problems.length > 0) {
+    return { success: false, error: `Invalid plugin manifest: ${formatSchemaErrors(problems)}` };
+  }
+
+  if (!options.skipBuild) {
+    const build = runBuild(projectDir, metadata);
+    if (build) {
+      return { success: false, error: build };
+    }
+  }
+
+  // "files" must not pack anything from outside the project
+  const outside = (metadata.files || []).find(entry => typeof entry !== 'string' || !isInsideDir(projectDir, entry));
+  if (outside !== undefined) {
+    return { success: false, error: `Invalid plugin package: "files" entry ${JSON.stringify(outside)} is outside the project` };
+  }
+
+  const outDir = path.resolve(options.outDir || projectDir);
+  const files = selectFiles(projectDir, metadata, outDir);
+  if (!files.includes(path.normalize(metadata.entryPoint))) {
+    return {
+      success: false,
+      error: `Invalid plugin package: entry point ${metadata.entryPoint} is missing${options.skipBuild ? '' : ' after the build'} or excluded by "files"`
+    };
+  }
+
+  // Stage the files so the content hash is computed exactly as the installer will
+  const stagingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-plugin-pack-'));
+  try {
+    const packedFiles: PackedFile[] = [];
+    for (const file of files) {
+      const content = fs.readFileSync(path.join(projectDir, file));
+      fs.mkdirSync(path.dirname(path.join(stagingDir, TARBALL_ROOT, file)), { recursive: true });
+      fs.writeFileSync(path.join(stagingDir, TARBALL_ROOT, file), content);
+      packedFiles.push({ path: toPosix(file), size: content.length, integrity: hashBuffer('sha256', content) });
+    }
+
+    const tarballName = getTarballName(metadata);
+    const tarballPath = path.join(outDir, tarballName);
+    fs.mkdirSync(outDir, { recursive: true });
+    await tar.c(
+      { gzip: true, file: tarballPath, cwd: stagingDir, portable: true, mtime: TARBALL_MTIME },
+      files.map(file => toPosix(path.join(TARBALL_ROOT, file)))
+    );
+
+    const tarball = fs.readFileSync(tarballPath);
+    const manifest: PackManifest = {
+      name: metadata.name,
+      version: metadata.version,
+      tarball: tarballName,
+      size: tarball.length,
+      checksum: hashBuffer('sha512', tarball),
+      contentHash: computeContentHash(path.join(stagingDir, TARBALL_ROOT)),
+      files: packedFiles,
+      packedAt: new Date().toISOString()
+    };
+    fs.writeFileSync(`${tarballPath}.json`, JSON.stringify(manifest, null, 2));
+
+    return {
+      success: true,
+      packed: { tarballPath, manifest, metadata, readme: readReadme(projectDir) }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to pack plugin: ${error instanceof Error ? error.message : String(error)}` };
+  } finally {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Reads a tarball produced by packPlugin together with its file manifest,
+ * checking that the tarball still matches the manifest's checksum.
+ */
+export async function readPackedPlugin(tarballPath: string): Promise<PackResult> {
+  const manifestFile = `${tarballPath}.json`;
+  if (!fs.existsSync(tarballPath)) {
+    return { success: false, error: `Tarball not found: ${tarballPath}` };
+  }
+  if (!fs.existsSync(manifestFile)) {
+    return { success: false, error: `File manifest not found: ${manifestFile}. Pack the plugin with "gemini plugins pack"` };
+  }
+
+  const extractDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-plugin-unpack-'));
+  try {
+    const manifest: PackManifest = JSON.parse(fs.readFileSync(manifestFile, 'utf-8'));
+    const checksum = hashBuffer('sha512', fs.readFileSync(tarballPath));
+    if (checksum !== manifest.checksum) {
+      return { success: false, error: `Tarball checksum ${checksum} does not match ${manifest.checksum} in its file manifest` };
+    }
+
+    await tar.x({ file: tarballPath, cwd: extractDir });
+    const packageDir = path.join(extractDir, TARBALL_ROOT);
+    const metadata: PluginMetadata = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'));
+    if (metadata.name !== manifest.name || metadata.version !== manifest.version) {
+      return { success: false, error: `Tarball holds ${metadata.name}@${metadata.version}, but its file manifest says ${manifest.name}@${manifest.version}` };
+    }
+
+    return {
+      success: true,
+      packed: { tarballPath: path.resolve(tarballPath), manifest, metadata, readme: readReadme(packageDir) }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to read ${tarballPath}: ${error instanceof Error ? error.message : String(error)}` };
+  } finally {
+    fs.rmSync(extractDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Whether a relative path from a manifest stays inside `baseDir`. Absolute
+ * paths and paths that climb out with `..` do not.
+ */
+export function isInsideDir(baseDir: string, relativePath: string): boolean {
+  if (path.isAbsolute(relativePath) || path.win32.isAbsolute(relativePath)) {
+    return false;
+  }
+  const relative = path.relative(path.resolve(baseDir), path.resolve(baseDir, relativePath));
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+// npm's naming: "@scope/name" packs to scope-name-<version>.tgz
+export function getTarballName(metadata: Pick<PluginMetadata, 'name' | 'version'>): string {
+  return `${metadata.name.replace(/^@/, '').replace('/', '-')}-${metadata.version}.tgz`;
+}
+
+function runBuild(projectDir: string, metadata: PackageJson): string | null {
+  if (!metadata.scripts?.build) {
+    return null;
+  }
+
+  try {
+    execSync('npm run build', { cwd: projectDir, stdio: 'pipe' });
+    return null;
+  } catch (error: any) {
+    const output = [error.stdout, error.stderr].map(stream => stream?.toString().trim()).filter(Boolean).join('\n');
+    return `Build failed: ${output || (error instanceof Error ? error.message : String(error))}`;
+  }
+}
+
+function selectFiles(projectDir: string, metadata: PackageJson, outDir: string): string[] {
+  const excludedDir = path.relative(projectDir, outDir);
+  const listed = (relativePath: string) => listFiles(projectDir, relativePath)
+    .filter(file => !excludedDir || excludedDir.startsWith('..') || !file.startsWith(excludedDir + path.sep));
+
+  if (!Array.isArray(metadata.files)) {
+    return listed('').sort();
+  }
+
+  const selected = new Set<string>(['package.json']);
+  for (const entry of fs.readdirSync(projectDir)) {
+    if (/^(readme|license|licence)(\..*)?$/i.test(entry)) {
+      selected.add(entry);
+    }
+  }
+  for (const entry of metadata.files) {
+    const absolute = path.join(projectDir, entry);
+    if (!fs.existsSync(absolute)) {
+      continue;
+    }
+    if (fs.statSync(absolute).isDirectory()) {
+      listed(path.normalize(entry)).forEach(file => selected.add(file));
+    } else {
+      selected.add(path.normalize(entry));
+    }
+  }
+  return Array.from(selected).sort();
+}
+
+function listFiles(rootDir: string, relativeDir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(path.join(rootDir, relativeDir), { withFileTypes: true })) {
+    if (relativeDir === '' && (EXCLUDED_ENTRIES.has(entry.name) || PACK_OUTPUT_PATTERN.test(entry.name))) {
+      continue;
+    }
+
+    const relativePath = path.join(relativeDir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(rootDir, relativePath));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+function readReadme(directory: string): string {
+  const readme = fs.readdirSync(directory).find(entry => /^readme(\.md)?$/i.test(entry));
+  return readme ? fs.readFileSync(path.join(directory, readme), 'utf-8') : '';
+}
+
+function hashBuffer(algorithm: 'sha256' | 'sha512', content: Buffer): string {
+  return `${algorithm}-${crypto.createHash(algorithm).update(content).digest('base64')}`;
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join('/');
+}
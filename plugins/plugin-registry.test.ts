@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PluginRegistry } from './plugin-registry.js';
+
+const tool = (name: string) => ({ name, displayName: name, description: `${name} tool` });
+
+describe('PluginRegistry conflicts', () => {
+  it('rejects a second registration by default', () => {
+    const registry = new PluginRegistry();
+    registry.getToolRegistry('first').registerTool(tool('search'));
+    registry.getToolRegistry('second').registerTool(tool('search'));
+
+    expect(registry.getOwner('tool', 'search')).toBe('first');
+    expect(registry.getTool('second:search')).toBeUndefined();
+    expect(registry.getConflicts('second')).toMatchObject([{ owner: 'first', contender: 'second', resolution: 'rejected' }]);
+  });
+
+  it('namespaces a second registration under namespace', () => {
+    const registry = new PluginRegistry({ conflictPolicy: 'namespace' });
+    registry.getToolRegistry('first').registerTool(tool('search'));
+    registry.getToolRegistry('second').registerTool(tool('search'));
+
+    expect(registry.getOwner('tool', 'search')).toBe('first');
+    expect(registry.getOwner('tool', 'second:search')).toBe('second');
+  });
+
+  describe('under priority', () => {
+    const options = { conflictPolicy: 'priority' as const, priorities: { high: 10, low: 1 } };
+
+    it.each([
+      ['the higher-priority plugin registers first', ['high', 'low']],
+      ['the lower-priority plugin registers first', ['low', 'high']]
+    ])('gives the bare name to the higher-priority plugin when %s', (_order, plugins) => {
+      const registry = new PluginRegistry(options);
+      for (const plugin of plugins) {
+        registry.getToolRegistry(plugin).registerTool(tool('search'));
+      }
+
+      expect(registry.getOwner('tool', 'search')).toBe('high');
+      expect(registry.getOwner('tool', 'low:search')).toBe('low');
+      expect(registry.getTool('low:search')?.name).toBe('low:search');
+    });
+
+    it('rejects plugins with the same priority', () => {
+      const registry = new PluginRegistry(options);
+      registry.getToolRegistry('a').registerTool(tool('search'));
+      registry.getToolRegistry('b').registerTool(tool('search'));
+
+      expect(registry.getOwner('tool', 'search')).toBe('a');
+      expect(registry.getOwner('tool', 'b:search')).toBeUndefined();
+    });
+  });
+});
+
+describe('PluginRegistry namespaced names', () => {
+  it('does not namespace onto a name another plugin registered', () => {
+    const registry = new PluginRegistry({ conflictPolicy: 'namespace' });
+    registry.getCommandRegistry('squatter').registerCommand({ name: 'second:search', description: 'Taken' });
+    registry.getCommandRegistry('first').registerCommand({ name: 'search', description: 'First' });
+    registry.getCommandRegistry('second').registerCommand({ name: 'search', description: 'Second' });
+
+    expect(registry.getOwner('command', 'second:search')).toBe('squatter');
+    expect(registry.getCommand('second:search')?.description).toBe('Taken');
+    expect(registry.getConflicts('second')).toMatchObject([{ type: 'command', owner: 'first', resolution: 'rejected' }]);
+  });
+
+  it('keeps the name of a plugin that registers first under the name it was namespaced to', () => {
+    const registry = new PluginRegistry({ conflictPolicy: 'namespace' });
+    registry.getToolRegistry('first').registerTool(tool('search'));
+    registry.getToolRegistry('second').registerTool(tool('search'));
+    registry.getToolRegistry('third').registerTool(tool('second:search'));
+
+    expect(registry.getOwner('tool', 'second:search')).toBe('second');
+    expect(registry.getConflicts('third')).toMatchObject([{ name: 'second:search', owner: 'second', resolution: 'namespaced' }]);
+  });
+
+  it('does not displace an owner onto a name another plugin registered', () => {
+    const registry = new PluginRegistry({ conflictPolicy: 'priority', priorities: { high: 10 } });
+    registry.getToolRegistry('squatter').registerTool(tool('low:search'));
+    registry.getToolRegistry('low').registerTool(tool('search'));
+    registry.getToolRegistry('high').registerTool(tool('search'));
+
+    expect(registry.getOwner('tool', 'search')).toBe('low');
+    expect(registry.getOwner('tool', 'low:search')).toBe('squatter');
+    expect(registry.getConflicts('high')).toMatchObject([{ owner: 'low', contender: 'high', resolution: 'rejected' }]);
+  });
+});
+
+describe('PluginRegistry invokeTool', () => {
+  const createRegistry = (execute?: (args: Record<string, any>) => Promise<unknown>) => {
+    const registry = new PluginRegistry();
+    registry.getToolRegistry('searcher').registerTool({
+      ...tool('search'),
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string', minLength: 1 }, limit: { type: 'integer', minimum: 1 } },
+        required: ['query']
+      }
+    }, execute);
+    return registry;
+  };
+
+  it('passes valid arguments to the handler', async () => {
+    const registry = createRegistry(async args => ({ found: [args.query], limit: args.limit }));
+
+    expect(await registry.invokeTool('search', { query: 'lint', limit: 2 })).toEqual({
+      success: true,
+      result: { found: ['lint'], limit: 2 }
+    });
+  });
+
+  it('rejects arguments that do not match the parameter schema without calling the handler', async () => {
+    let called = false;
+    const registry = createRegistry(async () => {
+      called = true;
+    });
+
+    const missing = await registry.invokeTool('search', {});
+    expect(missing.success).toBe(false);
+    expect(missing.error).toMatch(/^Invalid arguments for tool search: .*args\.query/);
+
+    const wrongType = await registry.invokeTool('search', { query: 'lint', limit: 1.5 });
+    expect(wrongType.error).toMatch(/args\.limit/);
+    expect(called).toBe(false);
+  });
+
+  it('wraps errors thrown by the handler', async () => {
+    const failing = createRegistry(async () => {
+      throw new Error('index unavailable');
+    });
+    const throwingString = createRegistry(async () => {
+      throw 'gave up';
+    });
+
+    expect(await failing.invokeTool('search', { query: 'lint' })).toEqual({ success: false, error: 'Tool search failed: index unavailable' });
+    expect(await throwingString.invokeTool('search', { query: 'lint' })).toEqual({ success: false, error: 'Tool search failed: gave up' });
+  });
+
+  it('reports unknown tools and tools without a handler', async () => {
+    expect(await createRegistry(async () => null).invokeTool('find')).toEqual({ success: false, error: 'Tool find not found' });
+    expect(await createRegistry().invokeTool('search', { query: 'lint' })).toEqual({ success: false, error: 'Tool search is not executable' });
+  });
+});
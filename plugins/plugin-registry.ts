@@ -10,70 +10,251 @@ import {
   ThemeRegistry, 
   ExtensionRegistry,
   PluginCommand,
+  CommandHandler,
   PluginTool,
   PluginTheme,
-  PluginExtension
+  PluginExtension,
+  PluginToolResult,
+  ToolHandler
 } from './plugin-interface.js';
+import { validateSchema, formatSchemaErrors } from './schema-validator.js';
+
+export type CapabilityType = 'command' | 'tool' | 'theme' | 'extension';
+
+/**
+ * How to resolve two plugins registering the same capability name:
+ * - reject: the first registration wins and later ones are dropped
+ * - namespace: later registrations are exposed as `plugin:name`
+ * - priority: the plugin with the higher configured priority keeps the bare
+ *   name and the other is namespaced; ties fall back to reject
+ */
+export type ConflictPolicy = 'reject' | 'namespace' | 'priority';
+
+export interface PluginRegistryOptions {
+  conflictPolicy?: ConflictPolicy;
+  priorities?: Record<string, number>;
+}
+
+export interface CapabilityConflict {
+  type: CapabilityType;
+  name: string;
+  owner: string;
+  contender: string;
+  resolution: 'rejected' | 'namespaced' | 'replaced';
+  registeredAs?: string;
+}
 
 export class PluginRegistry {
   private commands: Map<string, PluginCommand> = new Map();
+  private commandHandlers: Map<string, CommandHandler> = new Map();
   private tools: Map<string, PluginTool> = new Map();
+  private toolHandlers: Map<string, ToolHandler> = new Map();
   private themes: Map<string, PluginTheme> = new Map();
   private extensions: Map<string, PluginExtension> = new Map();
   private pluginOwnership: Map<string, string> = new Map(); // capability -> plugin
+  private conflicts: CapabilityConflict[] = [];
+  private conflictPolicy: ConflictPolicy;
+  private priorities: Record<string, number>;
+
+  constructor(options: PluginRegistryOptions = {}) {
+    this.conflictPolicy = options.conflictPolicy || 'reject';
+    this.priorities = options.priorities || {};
+  }
 
-  getCommandRegistry(): CommandRegistry {
+  getCommandRegistry(pluginName: string): CommandRegistry {
     return {
-      registerCommand: (command: PluginCommand) => {
-        this.commands.set(command.name, command);
-        this.pluginOwnership.set(`command:${command.name}`, 'unknown');
+      registerCommand: (command: PluginCommand, handler?: CommandHandler) => {
+        const name = this.claim('command', command.name, pluginName);
+        if (name === null) return;
+        this.commands.set(name, { ...command, name });
+        if (handler) {
+          this.commandHandlers.set(name, handler);
+        } else {
+          this.commandHandlers.delete(name);
+        }
       },
       unregisterCommand: (name: string) => {
-        this.commands.delete(name);
-        this.pluginOwnership.delete(`command:${name}`);
+        this.releaseOwned('command', name, pluginName);
       }
     };
   }
 
-  getToolRegistry(): ToolRegistry {
+  getToolRegistry(pluginName: string): ToolRegistry {
     return {
-      registerTool: (tool: PluginTool) => {
-        this.tools.set(tool.name, tool);
-        this.pluginOwnership.set(`tool:${tool.name}`, 'unknown');
+      registerTool: (tool: PluginTool, execute?: ToolHandler) => {
+        const name = this.claim('tool', tool.name, pluginName);
+        if (name === null) return;
+        this.tools.set(name, { ...tool, name });
+        if (execute) {
+          this.toolHandlers.set(name, execute);
+        } else {
+          this.toolHandlers.delete(name);
+        }
       },
       unregisterTool: (name: string) => {
-        this.tools.delete(name);
-        this.pluginOwnership.delete(`tool:${name}`);
+        this.releaseOwned('tool', name, pluginName);
       }
     };
   }
 
-  getThemeRegistry(): ThemeRegistry {
+  getThemeRegistry(pluginName: string): ThemeRegistry {
     return {
       registerTheme: (theme: PluginTheme) => {
-        this.themes.set(theme.name, theme);
-        this.pluginOwnership.set(`theme:${theme.name}`, 'unknown');
+        const name = this.claim('theme', theme.name, pluginName);
+        if (name === null) return;
+        this.themes.set(name, { ...theme, name });
       },
       unregisterTheme: (name: string) => {
-        this.themes.delete(name);
-        this.pluginOwnership.delete(`theme:${name}`);
+        this.releaseOwned('theme', name, pluginName);
       }
     };
   }
 
-  getExtensionRegistry(): ExtensionRegistry {
+  getExtensionRegistry(pluginName: string): ExtensionRegistry {
     return {
       registerExtension: (extension: PluginExtension) => {
-        this.extensions.set(extension.name, extension);
-        this.pluginOwnership.set(`extension:${extension.name}`, 'unknown');
+        const name = this.claim('extension', extension.name, pluginName);
+        if (name === null) return;
+        this.extensions.set(name, { ...extension, name });
       },
       unregisterExtension: (name: string) => {
-        this.extensions.delete(name);
-        this.pluginOwnership.delete(`extension:${name}`);
+        this.releaseOwned('extension', name, pluginName);
       }
     };
   }
 
+  getOwner(type: CapabilityType, name: string): string | undefined {
+    return this.pluginOwnership.get(`${type}:${name}`);
+  }
+
+  getConflicts(pluginName?: string): CapabilityConflict[] {
+    if (!pluginName) {
+      return [...this.conflicts];
+    }
+    return this.conflicts.filter(c => c.owner === pluginName || c.contender === pluginName);
+  }
+
+  /**
+   * Records ownership of a capability for a plugin, applying the conflict
+   * policy when another plugin already owns the name. Returns the name the
+   * capability should be stored under, or null if it must be dropped.
+   */
+  private claim(type: CapabilityType, name: string, pluginName: string): string | null {
+    const key = `${type}:${name}`;
+    const owner = this.pluginOwnership.get(key);
+
+    if (owner === undefined || owner === pluginName) {
+      this.pluginOwnership.set(key, pluginName);
+      return name;
+    }
+
+    const namespaced = `${pluginName}:${name}`;
+    const displaced = `${owner}:${name}`;
+    const conflict: CapabilityConflict = { type, name, owner, contender: pluginName, resolution: 'rejected' };
+
+    // Under priority a lower-priority contender is namespaced, just as a
+    // lower-priority owner is when the other plugin registers second. A
+    // namespaced name another plugin already holds is a conflict as well
+    const outranked = this.conflictPolicy === 'priority' && this.getPriority(pluginName) < this.getPriority(owner);
+    if ((this.conflictPolicy === 'namespace' || outranked) && !this.isTaken(type, namespaced, pluginName)) {
+      conflict.resolution = 'namespaced';
+      conflict.registeredAs = namespaced;
+      this.recordConflict(conflict);
+      this.pluginOwnership.set(`${type}:${namespaced}`, pluginName);
+      return namespaced;
+    }
+
+    if (this.conflictPolicy === 'priority' && this.getPriority(pluginName) > this.getPriority(owner) &&
+        !this.isTaken(type, displaced, owner)) {
+      // The current owner keeps its capability under its own namespace
+      this.moveCapability(type, name, displaced);
+      this.pluginOwnership.set(`${type}:${displaced}`, owner);
+      this.pluginOwnership.set(key, pluginName);
+      conflict.resolution = 'replaced';
+      conflict.registeredAs = name;
+      this.recordConflict(conflict);
+      return name;
+    }
+
+    this.recordConflict(conflict);
+    return null;
+  }
+
+  private isTaken(type: CapabilityType, name: string, pluginName: string): boolean {
+    const owner = this.pluginOwnership.get(`${type}:${name}`);
+    return owner !== undefined && owner !== pluginName;
+  }
+
+  private recordConflict(conflict: CapabilityConflict): void {
+    this.conflicts = this.conflicts.filter(c =>
+      !(c.type === conflict.type && c.name === conflict.name && c.contender === conflict.contender)
+    );
+    this.conflicts.push(conflict);
+  }
+
+  private getPriority(pluginName: string): number {
+    return this.priorities[pluginName] ?? 0;
+  }
+
+  private releaseOwned(type: CapabilityType, name: string, pluginName: string): void {
+    for (const candidate of [name, `${pluginName}:${name}`]) {
+      if (this.pluginOwnership.get(`${type}:${candidate}`) === pluginName) {
+        this.removeCapability(type, candidate);
+        return;
+      }
+    }
+  }
+
+  private moveCapability(type: CapabilityType, from: string, to: string): void {
+    switch (type) {
+      case 'command': {
+        const command = this.commands.get(from);
+        const handler = this.commandHandlers.get(from);
+        if (command) this.commands.set(to, { ...command, name: to });
+        if (handler) this.commandHandlers.set(to, handler);
+        break;
+      }
+      case 'tool': {
+        const tool = this.tools.get(from);
+        const handler = this.toolHandlers.get(from);
+        if (tool) this.tools.set(to, { ...tool, name: to });
+        if (handler) this.toolHandlers.set(to, handler);
+        break;
+      }
+      case 'theme': {
+        const theme = this.themes.get(from);
+        if (theme) this.themes.set(to, { ...theme, name: to });
+        break;
+      }
+      case 'extension': {
+        const extension = this.extensions.get(from);
+        if (extension) this.extensions.set(to, { ...extension, name: to });
+        break;
+      }
+    }
+    this.removeCapability(type, from);
+  }
+
+  private removeCapability(type: CapabilityType, name: string): void {
+    switch (type) {
+      case 'command':
+        this.commands.delete(name);
+        this.commandHandlers.delete(name);
+        break;
+      case 'tool':
+        this.tools.delete(name);
+        this.toolHandlers.delete(name);
+        break;
+      case 'theme':
+        this.themes.delete(name);
+        break;
+      case 'extension':
+        this.extensions.delete(name);
+        break;
+    }
+    this.pluginOwnership.delete(`${type}:${name}`);
+  }
+
   getCommand(name: string): PluginCommand | undefined {
     return this.commands.get(name);
   }
@@ -82,6 +263,10 @@ export class PluginRegistry {
     return Array.from(this.commands.values());
   }
 
+  getCommandHandler(name: string): CommandHandler | undefined {
+    return this.commandHandlers.get(name);
+  }
+
   getTool(name: string): PluginTool | undefined {
     return this.tools.get(name);
   }
@@ -90,6 +275,33 @@ export class PluginRegistry {
     return Array.from(this.tools.values());
   }
 
+  async invokeTool(name: string, args: Record<string, any> = {}): Promise<PluginToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { success: false, error: `Tool ${name} not found` };
+    }
+
+    const handler = this.toolHandlers.get(name);
+    if (!handler) {
+      return { success: false, error: `Tool ${name} is not executable` };
+    }
+
+    const errors = validateSchema(tool.parameters, args, 'args');
+    if (errors.length > 0) {
+      return { success: false, error: `Invalid arguments for tool ${name}: ${formatSchemaErrors(errors)}` };
+    }
+
+    try {
+      const result = await handler(args);
+      return { success: true, result };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Tool ${name} failed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
   getTheme(name: string): PluginTheme | undefined {
     return this.themes.get(name);
   }
@@ -108,26 +320,13 @@ export class PluginRegistry {
 
   unregisterPlugin(pluginName: string): void {
     // Remove all capabilities owned by this plugin
-    for (const [capability, owner] of this.pluginOwnership.entries()) {
+    for (const [capability, owner] of Array.from(this.pluginOwnership.entries())) {
       if (owner === pluginName) {
-        const [type, name] = capability.split(':');
-        switch (type) {
-          case 'command':
-            this.commands.delete(name);
-            break;
-          case 'tool':
-            this.tools.delete(name);
-            break;
-          case 'theme':
-            this.themes.delete(name);
-            break;
-          case 'extension':
-            this.extensions.delete(name);
-            break;
-        }
-        this.pluginOwnership.delete(capability);
+        const [type, name] = splitCapability(capability);
+        this.removeCapability(type, name);
       }
     }
+    this.conflicts = this.conflicts.filter(c => c.owner !== pluginName && c.contender !== pluginName);
   }
 
   getPluginCapabilities(pluginName: string): {
@@ -143,7 +342,7 @@ export class PluginRegistry {
 
     for (const [capability, owner] of this.pluginOwnership.entries()) {
       if (owner === pluginName) {
-        const [type, name] = capability.split(':');
+        const [type, name] = splitCapability(capability);
         switch (type) {
           case 'command':
             const command = this.commands.get(name);
@@ -167,4 +366,9 @@ export class PluginRegistry {
 
     return { commands, tools, themes, extensions };
   }
-} 
\ No newline at end of file
+}
+
+function splitCapability(capability: string): [CapabilityType, string] {
+  const index = capability.indexOf(':');
+  return [capability.slice(0, index) as CapabilityType, capability.slice(index + 1)];
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PluginMetadata, PluginType } from './plugin-interface.js';
+import { PluginSecretStore } from './plugin-secrets.js';
+
+const TOKEN = 'ghp_s3cr3t-token';
+
+describe('PluginSecretStore', () => {
+  let tempDir: string;
+  let keyFile: string;
+  let store: PluginSecretStore;
+
+  const secretsFile = () => path.join(tempDir, 'secrets.json');
+  const readStored = () => JSON.parse(fs.readFileSync(secretsFile(), 'utf-8'));
+  const writeStored = (secrets: Record<string, Record<string, string>>) => fs.writeFileSync(secretsFile(), JSON.stringify(secrets));
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-secrets-'));
+    keyFile = path.join(tempDir, 'home', 'plugin-secrets.key');
+    store = new PluginSecretStore(tempDir, keyFile);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('encrypts values at rest and decrypts them again', () => {
+    store.set('github', 'token', TOKEN);
+    store.set('github', 'user', 'octocat');
+
+    expect(fs.readFileSync(secretsFile(), 'utf-8')).not.toContain(TOKEN);
+    expect(readStored().github.token).toMatch(/^v1:/);
+    expect(new PluginSecretStore(tempDir, keyFile).get('github', 'token')).toBe(TOKEN);
+    expect(store.getNames('github')).toEqual(['token', 'user']);
+    expect(store.get('github', 'missing')).toBeUndefined();
+  });
+
+  it('keeps the key and the secrets readable only by the user', () => {
+    store.set('github', 'token', TOKEN);
+
+    expect(fs.statSync(keyFile).mode & 0o777).toBe(0o600);
+    expect(fs.statSync(secretsFile()).mode & 0o777).toBe(0o600);
+  });
+
+  it('cannot decrypt values with another key or without one', () => {
+    store.set('github', 'token', TOKEN);
+
+    const otherMachine = new PluginSecretStore(tempDir, path.join(tempDir, 'other', 'plugin-secrets.key'));
+    expect(() => otherMachine.get('github', 'token'))
+      .toThrow('Secret token of plugin github cannot be decrypted on this machine; set it again');
+
+    fs.rmSync(keyFile);
+    expect(() => store.get('github', 'token')).toThrow('cannot be decrypted on this machine');
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    store.set('github', 'token', TOKEN);
+    const [version, iv, tag, data] = readStored().github.token.split(':');
+    const flipped = Buffer.from(data, 'base64');
+    flipped[0] ^= 1;
+    writeStored({ github: { token: [version, iv, tag, flipped.toString('base64')].join(':') } });
+
+    expect(() => store.get('github', 'token')).toThrow('cannot be decrypted on this machine');
+  });
+
+  it('rejects a value moved to another name or plugin', () => {
+    store.set('github', 'token', TOKEN);
+    const encrypted = readStored().github.token;
+    writeStored({ github: { password: encrypted }, other: { token: encrypted } });
+
+    expect(() => store.get('github', 'password')).toThrow('cannot be decrypted');
+    expect(() => store.get('other', 'token')).toThrow('cannot be decrypted');
+  });
+
+  it('deletes values and drops plugins without any', () => {
+    store.set('github', 'token', TOKEN);
+
+    expect(store.delete('github', 'token')).toBe(true);
+    expect(store.delete('github', 'token')).toBe(false);
+    expect(readStored()).toEqual({});
+  });
+
+  describe('forPlugin', () => {
+    const metadata: PluginMetadata = {
+      name: 'github',
+      version: '1.0.0',
+      description: 'GitHub plugin',
+      author: 'Tests',
+      type: PluginType.TOOL,
+      entryPoint: 'index.js',
+      compatibility: { 'gemini-cli': '>=0.1.0' },
+      secrets: [{ name: 'token', description: 'API token' }]
+    };
+
+    it('only allows the secrets the manifest declares', async () => {
+      const secrets = store.forPlugin(metadata);
+
+      await secrets.set('token', TOKEN);
+      expect(await secrets.get('token')).toBe(TOKEN);
+      await expect(secrets.get('password')).rejects.toThrow('Secret password is not declared by plugin github');
+      await expect(secrets.set('token', 42 as unknown as string)).rejects.toThrow('Secret token must be a string');
+    });
+
+    it('masks the values a plugin has seen in its messages', async () => {
+      store.set('github', 'token', TOKEN);
+      expect(store.redact('github', `token=${TOKEN}`)).toBe(`token=${TOKEN}`);
+
+      await store.forPlugin(metadata).get('token');
+      expect(store.redact('github', `token=${TOKEN}`)).toBe('token=********');
+      expect(store.redact('other', `token=${TOKEN}`)).toBe(`token=${TOKEN}`);
+    });
+
+    it('masks the values a plugin has seen in the JSON form of its results', async () => {
+      const quoted = 'pa"ss\\word';
+      const secrets = store.forPlugin(metadata);
+      const result = { token: TOKEN, nested: [{ header: `Bearer ${TOKEN}` }], count: 2 };
+      expect(store.redactJson('github', result)).toBe(result);
+
+      await secrets.set('token', quoted);
+      await secrets.set('token', TOKEN);
+      expect(store.redactJson('github', result)).toEqual({ token: '********', nested: [{ header: 'Bearer ********' }], count: 2 });
+      expect(JSON.stringify(store.redactJson('github', { password: quoted, at: new Date(0) })))
+        .toBe('{"password":"********","at":"1970-01-01T00:00:00.000Z"}');
+      expect(store.redactJson('github', undefined)).toBeUndefined();
+    });
+
+    it('does not mask values too short to tell apart from other text', async () => {
+      await store.forPlugin(metadata).set('token', 'abc');
+      expect(store.redact('github', 'abcdef')).toBe('abcdef');
+    });
+  });
+});
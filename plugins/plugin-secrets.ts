@@ -0,0 +1,220 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PluginMetadata, PluginSecrets } from './plugin-interface.js';
+
+// Prefix of every stored value, so the format can change later
+const FORMAT_VERSION = 'v1';
+
+// Shorter values are not masked in logs; masking them would garble
+// unrelated text
+const MIN_MASKED_LENGTH = 4;
+const MASK = '********';
+
+/**
+ * Plugin secrets, kept in .gemini/plugins/secrets.json and encrypted with
+ * AES-256-GCM. Each plugin's values use their own key, derived from a
+ * master key in the user's home directory so a copy of the workspace,
+ * e.g. a committed .gemini directory, does not carry what is needed to
+ * decrypt them. Secret names are bound to their values, so an encrypted
+ * value cannot be moved to another name or plugin.
+ */
+export class PluginSecretStore {
+  private secretsFile: string;
+  private keyFile: string;
+  // Values each plugin has read or written, masked in its log messages
+  private revealed: Map<string, Set<string>> = new Map();
+
+  constructor(pluginRoot: string, keyFile: string = path.join(os.homedir(), '.gemini', 'plugin-secrets.key')) {
+    this.secretsFile = path.join(pluginRoot, 'secrets.json');
+    this.keyFile = keyFile;
+  }
+
+  // Names of the secrets stored for a plugin; values are never listed
+  getNames(pluginName: string): string[] {
+    return Object.keys(this.loadSecrets()[pluginName] || {}).sort();
+  }
+
+  get(pluginName: string, name: string): string | undefined {
+    const stored = this.loadSecrets()[pluginName]?.[name];
+    if (stored === undefined) {
+      return undefined;
+    }
+
+    // Without the key file the value was written on another machine
+    const value = fs.existsSync(this.keyFile) ? this.decrypt(pluginName, name, stored) : undefined;
+    if (value === undefined) {
+      throw new Error(`Secret ${name} of plugin ${pluginName} cannot be decrypted on this machine; set it again`);
+    }
+    return value;
+  }
+
+  set(pluginName: string, name: string, value: string): void {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getPluginKey(pluginName), iv);
+    cipher.setAAD(Buffer.from(name));
+    const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+
+    const secrets = this.loadSecrets();
+    secrets[pluginName] = {
+      ...secrets[pluginName],
+      [name]: [FORMAT_VERSION, iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join(':')
+    };
+    this.saveSecrets(secrets);
+  }
+
+  delete(pluginName: string, name: string): boolean {
+    const secrets = this.loadSecrets();
+    if (!secrets[pluginName] || !(name in secrets[pluginName])) {
+      return false;
+    }
+
+    delete secrets[pluginName][name];
+    if (Object.keys(secrets[pluginName]).length === 0) {
+      delete secrets[pluginName];
+    }
+    this.saveSecrets(secrets);
+    return true;
+  }
+
+  clear(pluginName: string): void {
+    this.revealed.delete(pluginName);
+    const secrets = this.loadSecrets();
+    if (secrets[pluginName]) {
+      delete secrets[pluginName];
+      this.saveSecrets(secrets);
+    }
+  }
+
+  /**
+   * The plugin's `context.secrets`, limited to the secrets its manifest
+   * declares.
+   */
+  forPlugin(metadata: PluginMetadata): PluginSecrets {
+    const pluginName = metadata.name;
+    const declared = new Set((metadata.secrets || []).map(secret => secret.name));
+    const check = (name: string) => {
+      if (!declared.has(name)) {
+        throw new Error(`Secret ${name} is not declared by plugin ${pluginName}`);
+      }
+    };
+
+    return {
+      get: async (name: string) => {
+        check(name);
+        const value = this.get(pluginName, name);
+        if (value !== undefined) {
+          this.reveal(pluginName, value);
+        }
+        return value;
+      },
+      set: async (name: string, value: string) => {
+        check(name);
+        if (typeof value !== 'string') {
+          throw new Error(`Secret ${name} must be a string`);
+        }
+        this.set(pluginName, name, value);
+        this.reveal(pluginName, value);
+      },
+      delete: async (name: string) => {
+        check(name);
+        return this.delete(pluginName, name);
+      }
+    };
+  }
+
+  // Masks the secret values a plugin has seen in a message it logs
+  redact(pluginName: string, message: string): string {
+    const values = Array.from(this.revealed.get(pluginName) || []).sort((a, b) => b.length - a.length);
+    return values.reduce((redacted, value) => redacted.split(value).join(MASK), message);
+  }
+
+  /**
+   * Masks the secret values a plugin has seen in a result it returns, such
+   * as a command result the CLI prints as JSON. The result comes back in
+   * its JSON form, so values JSON drops are dropped here too.
+   */
+  redactJson(pluginName: string, value: unknown): unknown {
+    if (value === undefined || !this.revealed.has(pluginName)) {
+      return value;
+    }
+    // Strings are masked before they are escaped, so values with quotes or
+    // backslashes are found too
+    return JSON.parse(JSON.stringify(value, (_key, item) =>
+      typeof item === 'string' ? this.redact(pluginName, item) : item));
+  }
+
+  private reveal(pluginName: string, value: string): void {
+    if (value.length < MIN_MASKED_LENGTH) {
+      return;
+    }
+    if (!this.revealed.has(pluginName)) {
+      this.revealed.set(pluginName, new Set());
+    }
+    this.revealed.get(pluginName)!.add(value);
+  }
+
+  private decrypt(pluginName: string, name: string, stored: string): string | undefined {
+    const [version, iv, tag, data] = stored.split(':');
+    if (version !== FORMAT_VERSION) {
+      return undefined;
+    }
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.getPluginKey(pluginName), Buffer.from(iv, 'base64'));
+      decipher.setAAD(Buffer.from(name));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getPluginKey(pluginName: string): Buffer {
+    const info = `gemini-cli plugin secrets: ${pluginName}`;
+    return Buffer.from(crypto.hkdfSync('sha256', this.loadMasterKey(), Buffer.alloc(0), info, 32));
+  }
+
+  // Created on first use, readable only by the user
+  private loadMasterKey(): Buffer {
+    if (!fs.existsSync(this.keyFile)) {
+      fs.mkdirSync(path.dirname(this.keyFile), { recursive: true, mode: 0o700 });
+      try {
+        fs.writeFileSync(this.keyFile, crypto.randomBytes(32).toString('base64'), { mode: 0o600, flag: 'wx' });
+      } catch (error) {
+        // Another CLI process created it first
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+
+    const key = Buffer.from(fs.readFileSync(this.keyFile, 'utf-8').trim(), 'base64');
+    if (key.length !== 32) {
+      throw new Error(`${this.keyFile} is not a valid secret key`);
+    }
+    return key;
+  }
+
+  private loadSecrets(): Record<string, Record<string, string>> {
+    if (!fs.existsSync(this.secretsFile)) {
+      return {};
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.secretsFile, 'utf-8'));
+    } catch (error) {
+      console.warn('Failed to load plugin secrets:', error instanceof Error ? error.message : String(error));
+      return {};
+    }
+  }
+
+  private saveSecrets(secrets: Record<string, Record<string, string>>): void {
+    fs.writeFileSync(this.secretsFile, JSON.stringify(secrets, null, 2), { mode: 0o600 });
+  }
+}
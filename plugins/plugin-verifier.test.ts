@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PluginVerifier, SIGNATURE_FILE, computeContentHash } from './plugin-verifier.js';
+
+describe('PluginVerifier', () => {
+  let tempDir: string;
+  let pluginDir: string;
+  let trustedKeysFile: string;
+  let privateKey: crypto.KeyObject;
+
+  const sign = () => {
+    const hash = computeContentHash(pluginDir);
+    const signature = crypto.sign(null, Buffer.from(hash, 'utf-8'), privateKey).toString('base64');
+    fs.writeFileSync(path.join(pluginDir, SIGNATURE_FILE), JSON.stringify({ keyId: 'test', hash, signature }));
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-verifier-'));
+    pluginDir = path.join(tempDir, 'plugin');
+    fs.mkdirSync(path.join(pluginDir, 'dist'), { recursive: true });
+    fs.writeFileSync(path.join(pluginDir, 'package.json'), '{"name":"test-plugin"}');
+    fs.writeFileSync(path.join(pluginDir, 'dist', 'index.js'), 'export default class {}');
+
+    const keys = crypto.generateKeyPairSync('ed25519');
+    privateKey = keys.privateKey;
+    trustedKeysFile = path.join(tempDir, 'trusted-keys.json');
+    fs.writeFileSync(trustedKeysFile, JSON.stringify({
+      keys: [{ id: 'test', publicKey: keys.publicKey.export({ type: 'spki', format: 'pem' }) }]
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('accepts a package signed by a trusted key', () => {
+    sign();
+    const result = new PluginVerifier(trustedKeysFile).verify(pluginDir);
+    expect(result).toMatchObject({ ok: true, status: 'signed', keyId: 'test' });
+  });
+
+  it('rejects a signed package whose files were changed', () => {
+    sign();
+    fs.writeFileSync(path.join(pluginDir, 'dist', 'index.js'), 'export default class { evil() {} }');
+
+    const result = new PluginVerifier(trustedKeysFile).verify(pluginDir);
+    expect(result.ok).toBe(false);
+    expect(result.error).toContain('does not match content hash');
+  });
+
+  it('rejects a signed package with an added file', () => {
+    sign();
+    fs.writeFileSync(path.join(pluginDir, 'dist', 'extra.js'), '');
+
+    expect(new PluginVerifier(trustedKeysFile).verify(pluginDir).ok).toBe(false);
+  });
+
+  it('rejects a package signed by an untrusted key', () => {
+    privateKey = crypto.generateKeyPairSync('ed25519').privateKey;
+    sign();
+
+    const result = new PluginVerifier(path.join(tempDir, 'no-keys.json')).verify(pluginDir);
+    expect(result.ok).toBe(false);
+    expect(result.error).toContain('untrusted key test');
+  });
+
+  it('rejects a signature that does not verify', () => {
+    sign();
+    const signaturePath = path.join(pluginDir, SIGNATURE_FILE);
+    const signature = JSON.parse(fs.readFileSync(signaturePath, 'utf-8'));
+    signature.signature = Buffer.alloc(64).toString('base64');
+    fs.writeFileSync(signaturePath, JSON.stringify(signature));
+
+    const result = new PluginVerifier(trustedKeysFile).verify(pluginDir);
+    expect(result.ok).toBe(false);
+    expect(result.error).toContain('does not verify');
+  });
+
+  it('checks unsigned content against an expected hash', () => {
+    const verifier = new PluginVerifier(trustedKeysFile);
+    const hash = computeContentHash(pluginDir);
+
+    expect(verifier.verify(pluginDir, { expectedHash: hash })).toMatchObject({ ok: true, status: 'hash-verified' });
+    fs.appendFileSync(path.join(pluginDir, 'dist', 'index.js'), '\n');
+    expect(verifier.verify(pluginDir, { expectedHash: hash }).ok).toBe(false);
+  });
+
+  it('only accepts unverified content when allowed', () => {
+    const verifier = new PluginVerifier(trustedKeysFile);
+
+    expect(verifier.verify(pluginDir).ok).toBe(false);
+    expect(verifier.verify(pluginDir, { allowUnverified: true })).toMatchObject({ ok: true, status: 'unverified' });
+  });
+
+  it('rejects a signed package with an added symbolic link', () => {
+    sign();
+    fs.symlinkSync(path.join(tempDir, 'elsewhere.js'), path.join(pluginDir, 'dist', 'main.js'));
+
+    expect(new PluginVerifier(trustedKeysFile).verify(pluginDir).ok).toBe(false);
+  });
+
+  it('rejects a signed package whose symbolic link was redirected', () => {
+    fs.writeFileSync(path.join(tempDir, 'elsewhere.js'), 'export default class { evil() {} }');
+    fs.symlinkSync('index.js', path.join(pluginDir, 'dist', 'main.js'));
+    sign();
+    expect(new PluginVerifier(trustedKeysFile).verify(pluginDir).ok).toBe(true);
+
+    fs.unlinkSync(path.join(pluginDir, 'dist', 'main.js'));
+    fs.symlinkSync(path.join(tempDir, 'elsewhere.js'), path.join(pluginDir, 'dist', 'main.js'));
+    expect(new PluginVerifier(trustedKeysFile).verify(pluginDir).ok).toBe(false);
+  });
+});
+
+describe('computeContentHash', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-hash-'));
+    fs.writeFileSync(path.join(rootDir, 'index.js'), 'content');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('ignores the signature file, .git and node_modules', () => {
+    const hash = computeContentHash(rootDir);
+    fs.writeFileSync(path.join(rootDir, SIGNATURE_FILE), '{}');
+    fs.mkdirSync(path.join(rootDir, 'node_modules'));
+    fs.writeFileSync(path.join(rootDir, 'node_modules', 'dep.js'), '');
+
+    expect(computeContentHash(rootDir)).toBe(hash);
+  });
+
+  it('does not hash a symbolic link like a file with the same content', () => {
+    fs.writeFileSync(path.join(rootDir, 'link'), 'index.js');
+    const fileHash = computeContentHash(rootDir);
+    fs.unlinkSync(path.join(rootDir, 'link'));
+    fs.symlinkSync('index.js', path.join(rootDir, 'link'));
+
+    expect(computeContentHash(rootDir)).not.toBe(fileHash);
+  });
+});
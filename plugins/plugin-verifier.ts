@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+
+/**
+ * Detached signature shipped at the root of a signed plugin package. The
+ * signature is an ed25519 signature over the UTF-8 bytes of `hash`.
+ */
+export const SIGNATURE_FILE = 'gemini-plugin.sig';
+
+// Entries that are produced locally and never part of the published content
+const EXCLUDED_ENTRIES = new Set([SIGNATURE_FILE, '.git', 'node_modules']);
+
+export interface TrustedKey {
+  id: string;
+  // PEM-encoded SPKI key, or the raw 32-byte ed25519 public key in base64
+  publicKey: string;
+}
+
+export interface PluginSignature {
+  keyId: string;
+  hash: string;
+  signature: string;
+}
+
+/**
+ * - signed: carries a valid signature from a trusted key
+ * - hash-verified: content matches the expected hash it was installed with
+ * - unverified: neither, but the user allowed the install
+ * - demo: generated locally by the installer for demonstrations
+ */
+export type VerificationStatus = 'signed' | 'hash-verified' | 'unverified' | 'demo';
+
+export interface VerificationResult {
+  ok: boolean;
+  status?: VerificationStatus;
+  hash: string;
+  keyId?: string;
+  error?: string;
+}
+
+export class PluginVerifier {
+  private trustedKeysFile: string;
+
+  constructor(trustedKeysFile: string) {
+    this.trustedKeysFile = trustedKeysFile;
+  }
+
+  /**
+   * Verifies a fetched plugin directory. A signature, when present, must be
+   * valid and from a trusted key; an expected hash, when given, must match.
+   * Content with neither is rejected unless `allowUnverified` is set, and so
+   * is content that fails a check.
+   */
+  verify(pluginDir: string, options: { expectedHash?: string; allowUnverified?: boolean } = {}): VerificationResult {
+    const hash = computeContentHash(pluginDir);
+    const problems: string[] = [];
+    let status: VerificationStatus | undefined;
+    let keyId: string | undefined;
+
+    if (options.expectedHash) {
+      if (options.expectedHash === hash) {
+        status = 'hash-verified';
+      } else {
+        problems.push(`content hash ${hash} does not match expected ${options.expectedHash}`);
+      }
+    }
+
+    const signaturePath = path.join(pluginDir, SIGNATURE_FILE);
+    if (fs.existsSync(signaturePath)) {
+      const signatureProblem = this.checkSignature(signaturePath, hash);
+      if (signatureProblem) {
+        problems.push(signatureProblem);
+      } else {
+        keyId = this.readSignature(signaturePath).keyId;
+        if (problems.length === 0) {
+          status = 'signed';
+        }
+      }
+    } else if (!options.expectedHash) {
+      problems.push('package is not signed and no expected hash was given');
+    }
+
+    if (problems.length > 0) {
+      if (options.allowUnverified) {
+        return { ok: true, status: 'unverified', hash, keyId };
+      }
+      return { ok: false, hash, error: problems.join('; ') };
+    }
+
+    return { ok: true, status, hash, keyId };
+  }
+
+  getTrustedKeys(): TrustedKey[] {
+    if (!fs.existsSync(this.trustedKeysFile)) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.trustedKeysFile, 'utf-8')).keys || [];
+    } catch (error) {
+      console.warn('Failed to load trusted plugin keys:', error);
+      return [];
+    }
+  }
+
+  private checkSignature(signaturePath: string, hash: string): string | null {
+    let signature: PluginSignature;
+    try {
+      signature = this.readSignature(signaturePath);
+    } catch (error) {
+      return `signature file is unreadable: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    const trusted = this.getTrustedKeys().find(key => key.id === signature.keyId);
+    if (!trusted) {
+      return `package is signed by untrusted key ${signature.keyId}`;
+    }
+
+    if (signature.hash !== hash) {
+      return `signed hash ${signature.hash} does not match content hash ${hash}`;
+    }
+
+    try {
+      const valid = crypto.verify(
+        null,
+        Buffer.from(signature.hash, 'utf-8'),
+        toPublicKey(trusted.publicKey),
+        Buffer.from(signature.signature, 'base64')
+      );
+      return valid ? null : `signature does not verify against key ${signature.keyId}`;
+    } catch (error) {
+      return `signature could not be checked: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  private readSignature(signaturePath: string): PluginSignature {
+    return JSON.parse(fs.readFileSync(signaturePath, 'utf-8'));
+  }
+}
+
+/**
+ * Hashes a plugin directory as the sorted list of relative file paths and
+ * their contents, so the result does not depend on file system order or
+ * timestamps. Symbolic links are hashed by their target, so a link cannot
+ * be added or redirected without changing the hash. Returned in Subresource
+ * Integrity form (`sha256-<base64>`).
+ */
+export function computeContentHash(rootDir: string): string {
+  const digest = crypto.createHash('sha256');
+
+  for (const relativePath of listFiles(rootDir)) {
+    const filePath = path.join(rootDir, relativePath);
+    digest.update(relativePath.split(path.sep).join('/'));
+    digest.update('\0');
+    if (fs.lstatSync(filePath).isSymbolicLink()) {
+      // Marked so a link can never hash like a file
+      digest.update('symlink\0');
+      digest.update(fs.readlinkSync(filePath));
+      digest.update('\0');
+      continue;
+    }
+
+    const content = fs.readFileSync(filePath);
+    digest.update(String(content.length));
+    digest.update('\0');
+    digest.update(content);
+  }
+
+  return `sha256-${digest.digest('base64')}`;
+}
+
+function listFiles(rootDir: string, relativeDir: string = ''): string[] {
+  const files: string[] = [];
+  const entries = fs.readdirSync(path.join(rootDir, relativeDir), { withFileTypes: true })
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  for (const entry of entries) {
+    if (relativeDir === '' && EXCLUDED_ENTRIES.has(entry.name)) {
+      continue;
+    }
+
+    const relativePath = path.join(relativeDir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(rootDir, relativePath));
+    } else if (entry.isFile() || entry.isSymbolicLink()) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+function toPublicKey(publicKey: string): crypto.KeyObject {
+  if (publicKey.includes('BEGIN PUBLIC KEY')) {
+    return crypto.createPublicKey(publicKey);
+  }
+
+  return crypto.createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey, 'base64').toString('base64url') },
+    format: 'jwk'
+  });
+}
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { pathToFileURL } from 'node:url';
+import {
+  CommandHandler,
+  GeminiPlugin,
+  PluginContext,
+  PluginEventHandler,
+  PluginEventName,
+  PluginEvents,
+  PluginSecrets,
+  ToolHandler
+} from '../plugin-interface.js';
+import { createPrivilegedApis } from '../permission-manager.js';
+import { HostToWorkerMessage, SandboxCapability, SandboxWorkerData, WorkerToHostMessage } from './sandbox-protocol.js';
+
+// Worker entry point: loads one plugin and serves the host's requests
+
+const data = workerData as SandboxWorkerData;
+const port = parentPort!;
+const capabilities: SandboxCapability[] = [];
+const commandHandlers = new Map<string, CommandHandler>();
+const toolHandlers = new Map<string, ToolHandler>();
+const eventHandlers = new Map<number, { event: PluginEventName; handler: PluginEventHandler<any>; once: boolean }>();
+let nextSubscriptionId = 1;
+const secretRequests = new Map<number, { resolve(value: any): void; reject(error: Error): void }>();
+let nextSecretRequestId = 1;
+let plugin: GeminiPlugin;
+// The host expects 'ready' first, so messages sent while loading wait for it
+let queued: WorkerToHostMessage[] | null = [];
+
+function send(message: WorkerToHostMessage): void {
+  port.postMessage(message);
+}
+
+function sendWhenReady(message: WorkerToHostMessage): void {
+  if (queued) {
+    queued.push(message);
+  } else {
+    send(message);
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function createContext(): PluginContext {
+  const log = (level: 'info' | 'warn' | 'error' | 'debug') => (message: string) => {
+    send({ type: 'log', level, message: String(message) });
+  };
+
+  return {
+    workspaceRoot: data.workspaceRoot,
+    pluginRoot: data.pluginRoot,
+    config: data.config,
+    logger: {
+      info: log('info'),
+      warn: log('warn'),
+      error: log('error'),
+      debug: log('debug')
+    },
+    permissions: {
+      granted: [...data.grantedPermissions],
+      has: (permission: string) => data.grantedPermissions.includes(permission)
+    },
+    events: createEvents(),
+    secrets: createSecrets(),
+    ...createPrivilegedApis(data.grantedPermissions)
+  };
+}
+
+function unsubscribeEvent(subscriptionId: number): void {
+  if (eventHandlers.delete(subscriptionId)) {
+    sendWhenReady({ type: 'unsubscribe', subscriptionId });
+  }
+}
+
+function createEvents(): PluginEvents {
+  const subscribe = (event: PluginEventName, handler: PluginEventHandler<any>, once: boolean) => {
+    const subscriptionId = nextSubscriptionId++;
+    eventHandlers.set(subscriptionId, { event, handler, once });
+    sendWhenReady({ type: 'subscribe', subscriptionId, event });
+    return () => unsubscribeEvent(subscriptionId);
+  };
+
+  return {
+    on: (event, handler) => subscribe(event, handler, false),
+    once: (event, handler) => subscribe(event, handler, true),
+    off: (event, handler) => {
+      for (const [subscriptionId, subscription] of eventHandlers) {
+        if (subscription.event === event && subscription.handler === handler) {
+          unsubscribeEvent(subscriptionId);
+        }
+      }
+    }
+  };
+}
+
+function createSecrets(): PluginSecrets {
+  const request = (operation: 'get' | 'set' | 'delete', name: string, value?: string) => {
+    const id = nextSecretRequestId++;
+    return new Promise<any>((resolve, reject) => {
+      secretRequests.set(id, { resolve, reject });
+      sendWhenReady({ type: 'secret', id, operation, name, value });
+    });
+  };
+
+  return {
+    get: name => request('get', name),
+    set: (name, value) => request('set', name, value),
+    delete: name => request('delete', name)
+  };
+}
+
+function collectCapabilities(): void {
+  plugin.registerCommands?.({
+    registerCommand: (command, handler) => {
+      capabilities.push({ kind: 'command', command, hasHandler: handler !== undefined });
+      if (handler) commandHandlers.set(command.name, handler);
+    },
+    unregisterCommand: () => {}
+  });
+
+  plugin.registerTools?.({
+    registerTool: (tool, execute) => {
+      capabilities.push({ kind: 'tool', tool, hasHandler: execute !== undefined });
+      if (execute) toolHandlers.set(tool.name, execute);
+    },
+    unregisterTool: () => {}
+  });
+
+  plugin.registerThemes?.({
+    registerTheme: theme => capabilities.push({ kind: 'theme', theme }),
+    unregisterTheme: () => {}
+  });
+
+  plugin.registerExtensions?.({
+    registerExtension: extension => capabilities.push({ kind: 'extension', extension }),
+    unregisterExtension: () => {}
+  });
+}
+
+function listMethods(instance: GeminiPlugin): string[] {
+  const methods = new Set<string>();
+  let proto = Object.getPrototypeOf(instance);
+
+  while (proto && proto !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      if (name !== 'constructor' && !name.startsWith('register') && typeof instance[name] === 'function') {
+        methods.add(name);
+      }
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+
+  return Array.from(methods);
+}
+
+async function handle(message: HostToWorkerMessage): Promise<unknown> {
+  switch (message.type) {
+    case 'call': {
+      const method = plugin[message.method];
+      if (typeof method !== 'function') {
+        throw new Error(`Plugin ${data.pluginName} has no method ${message.method}`);
+      }
+      return await method.apply(plugin, message.args);
+    }
+    case 'invokeTool': {
+      const handler = toolHandlers.get(message.name);
+      if (!handler) {
+        throw new Error(`Tool ${message.name} is not executable`);
+      }
+      return await handler(message.args);
+    }
+    case 'runCommand': {
+      const handler = commandHandlers.get(message.name);
+      if (!handler) {
+        throw new Error(`Command /${message.name} has no handler`);
+      }
+      return await handler(message.args);
+    }
+    case 'dispatchEvent': {
+      // Missing if unsubscribed here while the event was on its way
+      const subscription = eventHandlers.get(message.subscriptionId);
+      if (subscription?.once) {
+        unsubscribeEvent(message.subscriptionId);
+      }
+      await subscription?.handler(message.payload);
+      return undefined;
+    }
+  }
+}
+
+async function start(): Promise<void> {
+  try {
+    const pluginModule = await import(pathToFileURL(data.entryPoint).href);
+    const PluginClass = pluginModule.default || pluginModule[data.pluginName] || pluginModule.Plugin;
+    if (!PluginClass) {
+      send({ type: 'initError', error: `Plugin ${data.pluginName} does not export a valid plugin class` });
+      return;
+    }
+
+    plugin = new PluginClass(createContext());
+    collectCapabilities();
+    send({ type: 'ready', metadata: plugin.metadata, methods: listMethods(plugin), capabilities });
+    queued?.forEach(send);
+    queued = null;
+  } catch (error) {
+    send({ type: 'initError', error: describeError(error) });
+    return;
+  }
+
+  port.on('message', (message: HostToWorkerMessage) => {
+    if (message.type === 'secretResult') {
+      const request = secretRequests.get(message.id);
+      secretRequests.delete(message.id);
+      if (message.error !== undefined) {
+        request?.reject(new Error(message.error));
+      } else {
+        request?.resolve(message.value);
+      }
+      return;
+    }
+
+    handle(message).then(
+      value => {
+        try {
+          send({ type: 'result', id: message.id, value });
+        } catch (error) {
+          send({ type: 'result', id: message.id, error: `Result could not be sent to the host: ${describeError(error)}` });
+        }
+      },
+      error => send({ type: 'result', id: message.id, error: describeError(error) })
+    );
+  });
+}
+
+start();
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  PluginCommand,
+  PluginEventName,
+  PluginExtension,
+  PluginMetadata,
+  PluginTheme,
+  PluginTool,
+  ParsedCommandArgs
+} from '../plugin-interface.js';
+
+/**
+ * Message protocol between the CLI (host) and a plugin running in a worker
+ * thread. Everything crossing the boundary must be structured-cloneable, so
+ * handlers stay in the worker and are invoked by name.
+ */
+
+export interface SandboxWorkerData {
+  pluginName: string;
+  entryPoint: string;
+  workspaceRoot: string;
+  pluginRoot: string;
+  config: any;
+  grantedPermissions: string[];
+}
+
+export type SandboxCapability =
+  | { kind: 'command'; command: PluginCommand; hasHandler: boolean }
+  | { kind: 'tool'; tool: PluginTool; hasHandler: boolean }
+  | { kind: 'theme'; theme: PluginTheme }
+  | { kind: 'extension'; extension: PluginExtension };
+
+export type HostToWorkerMessage =
+  | { type: 'call'; id: number; method: string; args: unknown[] }
+  | { type: 'invokeTool'; id: number; name: string; args: Record<string, any> }
+  | { type: 'runCommand'; id: number; name: string; args: ParsedCommandArgs }
+  | { type: 'dispatchEvent'; id: number; subscriptionId: number; payload: unknown }
+  // Answer to a worker's secret request with the same id
+  | { type: 'secretResult'; id: number; value?: unknown; error?: string };
+
+export type WorkerToHostMessage =
+  | { type: 'ready'; metadata: PluginMetadata; methods: string[]; capabilities: SandboxCapability[] }
+  | { type: 'initError'; error: string }
+  | { type: 'result'; id: number; value?: unknown; error?: string }
+  | { type: 'log'; level: 'info' | 'warn' | 'error' | 'debug'; message: string }
+  // Event handlers stay in the worker; the host forwards events by subscription id
+  | { type: 'subscribe'; subscriptionId: number; event: PluginEventName }
+  | { type: 'unsubscribe'; subscriptionId: number }
+  // Secrets stay with the host; the worker asks for them by name
+  | { type: 'secret'; id: number; operation: 'get' | 'set' | 'delete'; name: string; value?: string };
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import { createRequire } from 'node:module';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const packageRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Worker threads run outside vitest's transform, so the sandbox is tested
+// compiled, the way the CLI runs it
+const compile = (outDir: string) => {
+  const tsc = createRequire(import.meta.url).resolve('typescript/bin/tsc');
+  execFileSync(process.execPath, [
+    tsc,
+    '--outDir', outDir,
+    '--rootDir', packageRoot,
+    '--module', 'NodeNext',
+    '--moduleResolution', 'nodenext',
+    '--target', 'es2022',
+    '--strict',
+    '--esModuleInterop',
+    '--resolveJsonModule',
+    '--skipLibCheck',
+    '--types', 'node',
+    path.join(packageRoot, 'sandbox', 'plugin-worker.ts'),
+    path.join(packageRoot, 'plugin-manager.ts')
+  ], { stdio: 'pipe' });
+  fs.writeFileSync(path.join(outDir, 'package.json'), JSON.stringify({ type: 'module' }));
+  fs.symlinkSync(path.join(packageRoot, 'node_modules'), path.join(outDir, 'node_modules'));
+};
+
+// A plugin whose methods misbehave on request
+const writePlugin = (dir: string, name: string) => {
+  const metadata = {
+    name,
+    version: '1.0.0',
+    description: `${name} plugin`,
+    author: 'Tests',
+    type: 'utility',
+    entryPoint: 'index.mjs',
+    compatibility: { 'gemini-cli': '>=0.1.0' }
+  };
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify(metadata));
+  fs.writeFileSync(path.join(dir, 'index.mjs'), `globalThis.sandboxLeak = 'module';
+export default class {
+  metadata = ${JSON.stringify(metadata)};
+  constructor(context) { this.context = context; }
+  async onEnable() { globalThis.sandboxLeak = 'enable'; }
+  apis() { return ['fetch', 'fs', 'exec', 'env'].filter(api => api in this.context); }
+  sawLeak() { return globalThis.hostOnly; }
+  crash() { setTimeout(() => { throw new Error('boom'); }); }
+  exit() { process.exit(3); }
+  hang() { for (;;) {} }
+}
+`);
+  return dir;
+};
+
+describe('SandboxedPlugin', () => {
+  let outDir: string;
+  let workspace: string;
+  let sandbox: typeof import('./sandboxed-plugin.js');
+  let manager: typeof import('../plugin-manager.js');
+
+  beforeAll(async () => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-build-'));
+    compile(outDir);
+    sandbox = await import(pathToFileURL(path.join(outDir, 'sandbox', 'sandboxed-plugin.js')).href);
+    manager = await import(pathToFileURL(path.join(outDir, 'plugin-manager.js')).href);
+  }, 60000);
+
+  afterAll(() => {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'sandboxed-plugin-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const start = (options: import('./sandboxed-plugin.js').SandboxOptions = {}, grantedPermissions: string[] = []) => {
+    const pluginRoot = writePlugin(path.join(workspace, 'risky'), 'risky');
+    return sandbox.SandboxedPlugin.start({
+      pluginName: 'risky',
+      entryPoint: path.join(pluginRoot, 'index.mjs'),
+      workspaceRoot: workspace,
+      pluginRoot,
+      config: {},
+      grantedPermissions
+    }, options);
+  };
+
+  // Plugin-specific methods are attached at runtime
+  const call = (plugin: object, method: string) => (plugin as Record<string, () => Promise<unknown>>)[method]();
+
+  describe('isolation', () => {
+    it('keeps the plugin\'s globals out of the host and the host\'s out of the plugin', async () => {
+      (globalThis as Record<string, unknown>).hostOnly = 'host';
+      const plugin = await start();
+      try {
+        await plugin.onEnable!();
+        expect((globalThis as Record<string, unknown>).sandboxLeak).toBeUndefined();
+        expect(await call(plugin, 'sawLeak')).toBeUndefined();
+      } finally {
+        delete (globalThis as Record<string, unknown>).hostOnly;
+        await plugin.dispose();
+      }
+    });
+
+    it('only exposes the privileged APIs that were granted', async () => {
+      const denied = await start();
+      const granted = await start({}, ['process']);
+      try {
+        expect(await call(denied, 'apis')).toEqual([]);
+        expect(await call(granted, 'apis')).toEqual(['exec']);
+      } finally {
+        await denied.dispose();
+        await granted.dispose();
+      }
+    });
+  });
+
+  describe('crash containment', () => {
+    it('reports an uncaught error through onCrash and rejects later calls', async () => {
+      const onCrash = vi.fn();
+      const plugin = await start({ onCrash });
+
+      await call(plugin, 'crash');
+      await vi.waitFor(() => expect(onCrash).toHaveBeenCalledTimes(1));
+      expect(onCrash.mock.calls[0][0].message).toBe('Plugin risky crashed: boom');
+      expect(plugin.crashed?.message).toBe('Plugin risky crashed: boom');
+      await expect(call(plugin, 'apis')).rejects.toThrow('Plugin risky crashed: boom');
+    });
+
+    it('reports a plugin that exits its worker', async () => {
+      const onCrash = vi.fn();
+      const plugin = await start({ onCrash });
+
+      await expect(call(plugin, 'exit')).rejects.toThrow('Plugin risky exited unexpectedly with code 3');
+      expect(onCrash).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('hang timeout', () => {
+    it('terminates a plugin that does not answer within callTimeout', async () => {
+      const onCrash = vi.fn();
+      const plugin = await start({ callTimeout: 200, onCrash });
+
+      await expect(call(plugin, 'hang')).rejects.toThrow('Plugin risky did not respond within 200ms and was terminated');
+      expect(onCrash).toHaveBeenCalledTimes(1);
+      expect(plugin.crashed).not.toBeNull();
+    });
+  });
+
+  describe('in the plugin manager', () => {
+    it('keeps a crashed plugin loaded but disabled until it is enabled again', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      writePlugin(path.join(workspace, '.gemini', 'plugins', 'risky'), 'risky');
+      const plugins = new manager.PluginManager(workspace, { cliVersion: '1.0.0', isolation: 'worker' });
+      await plugins.loadAllPlugins();
+      expect(await plugins.enablePlugin('risky')).toBe(true);
+
+      const crashed = plugins.getPlugin('risky')!;
+      await call(crashed, 'crash');
+      await vi.waitFor(() => expect(plugins.getCrash('risky')).toBe('Plugin risky crashed: boom'));
+      expect(plugins.getPlugin('risky')).toBe(crashed);
+      expect(plugins.getEnabledPlugins()).toEqual([]);
+
+      expect(await plugins.enablePlugin('risky')).toBe(true);
+      const restarted = plugins.getPlugin('risky')!;
+      expect(restarted).not.toBe(crashed);
+      expect(plugins.getCrash('risky')).toBeUndefined();
+      expect(await call(restarted, 'apis')).toEqual([]);
+
+      expect(await plugins.disablePlugin('risky')).toBe(true);
+      await (restarted as import('./sandboxed-plugin.js').SandboxedPlugin).dispose();
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Worker } from 'node:worker_threads';
+import {
+  CommandRegistry,
+  ExtensionRegistry,
+  GeminiPlugin,
+  PluginEvents,
+  PluginMetadata,
+  PluginSecrets,
+  ThemeRegistry,
+  ToolRegistry
+} from '../plugin-interface.js';
+import { HostToWorkerMessage, SandboxCapability, SandboxWorkerData, WorkerToHostMessage } from './sandbox-protocol.js';
+
+export interface SandboxOptions {
+  // Milliseconds a lifecycle hook, tool or command may run before the worker is terminated
+  callTimeout?: number;
+  // Milliseconds the plugin may take to load
+  startTimeout?: number;
+  maxOldGenerationSizeMb?: number;
+  // The plugin's view of the event bus, which its worker subscribes through
+  events?: PluginEvents;
+  // The plugin's secrets, which its worker reads and writes through the host
+  secrets?: PluginSecrets;
+  onLog?(level: 'info' | 'warn' | 'error' | 'debug', message: string): void;
+  onCrash?(error: Error): void;
+}
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+type PendingCall = { resolve(value: unknown): void; reject(error: Error): void; timer: NodeJS.Timeout };
+
+const LIFECYCLE_HOOKS = ['onInstall', 'onUninstall', 'onEnable', 'onDisable'];
+
+/**
+ * Host-side proxy for a plugin running in a worker thread. It implements
+ * GeminiPlugin so the rest of the manager treats it like an in-process
+ * plugin; every hook, tool and command call is forwarded over the sandbox
+ * protocol. A crash or a call that exceeds `callTimeout` terminates the
+ * worker and is reported through `onCrash` instead of taking down the CLI.
+ */
+export class SandboxedPlugin implements GeminiPlugin {
+  metadata!: PluginMetadata;
+
+  // Assigned in attach() for the hooks the plugin implements
+  onInstall?(): Promise<void>;
+  onUninstall?(): Promise<void>;
+  onEnable?(): Promise<void>;
+  onDisable?(): Promise<void>;
+
+  private worker: Worker;
+  private options: SandboxOptions;
+  private pending: Map<number, PendingCall> = new Map();
+  private nextId = 1;
+  private capabilities: SandboxCapability[] = [];
+  private eventSubscriptions: Map<number, () => void> = new Map();
+  private crashError: Error | null = null;
+  private terminated = false;
+
+  private constructor(worker: Worker, options: SandboxOptions) {
+    this.worker = worker;
+    this.options = options;
+  }
+
+  static start(data: SandboxWorkerData, options: SandboxOptions = {}): Promise<SandboxedPlugin> {
+    // The compiled worker: TypeScript loaders such as tsx do not reach
+    // worker threads, so the sandbox only runs from a build
+    const worker = new Worker(new URL('./plugin-worker.js', import.meta.url), {
+      workerData: data,
+      resourceLimits: options.maxOldGenerationSizeMb
+        ? { maxOldGenerationSizeMb: options.maxOldGenerationSizeMb }
+        : undefined
+    });
+    const sandboxed = new SandboxedPlugin(worker, options);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        worker.terminate();
+        reject(new Error(`Plugin ${data.pluginName} did not load within ${options.startTimeout ?? 10000}ms`));
+      }, options.startTimeout ?? 10000);
+
+      const onStartupFailure = (error: Error) => {
+        clearTimeout(timer);
+        reject(new Error(`Plugin ${data.pluginName} failed to start: ${error.message}`));
+      };
+      worker.once('error', onStartupFailure);
+
+      worker.once('message', (message: WorkerToHostMessage) => {
+        clearTimeout(timer);
+        worker.off('error', onStartupFailure);
+
+        if (message.type !== 'ready') {
+          worker.terminate();
+          reject(new Error(message.type === 'initError' ? message.error : `Unexpected message from plugin ${data.pluginName}`));
+          return;
+        }
+
+        sandboxed.attach(message.metadata, message.methods, message.capabilities);
+        resolve(sandboxed);
+      });
+    });
+  }
+
+  get crashed(): Error | null {
+    return this.crashError;
+  }
+
+  registerCommands(registry: CommandRegistry): void {
+    for (const capability of this.capabilities) {
+      if (capability.kind === 'command') {
+        const name = capability.command.name;
+        registry.registerCommand(
+          capability.command,
+          capability.hasHandler ? args => this.request({ type: 'runCommand', name, args }) : undefined
+        );
+      }
+    }
+  }
+
+  registerTools(registry: ToolRegistry): void {
+    for (const capability of this.capabilities) {
+      if (capability.kind === 'tool') {
+        const name = capability.tool.name;
+        registry.registerTool(
+          capability.tool,
+          capability.hasHandler ? args => this.request({ type: 'invokeTool', name, args }) : undefined
+        );
+      }
+    }
+  }
+
+  registerThemes(registry: ThemeRegistry): void {
+    for (const capability of this.capabilities) {
+      if (capability.kind === 'theme') {
+        registry.registerTheme(capability.theme);
+      }
+    }
+  }
+
+  registerExtensions(registry: ExtensionRegistry): void {
+    for (const capability of this.capabilities) {
+      if (capability.kind === 'extension') {
+        registry.registerExtension(capability.extension);
+      }
+    }
+  }
+
+  async dispose(): Promise<void> {
+    this.terminated = true;
+    this.rejectPending(new Error(`Plugin ${this.metadata.name} was unloaded`));
+    await this.worker.terminate();
+  }
+
+  private attach(metadata: PluginMetadata, methods: string[], capabilities: SandboxCapability[]): void {
+    this.metadata = metadata;
+    this.capabilities = capabilities;
+
+    // Expose lifecycle hooks and plugin-specific methods as async RPC calls
+    for (const method of methods) {
+      if (LIFECYCLE_HOOKS.includes(method) || !(method in this)) {
+        (this as unknown as Record<string, unknown>)[method] = (...args: unknown[]) =>
+          this.request({ type: 'call', method, args });
+      }
+    }
+
+    this.worker.on('message', (message: WorkerToHostMessage) => this.handleMessage(message));
+    this.worker.on('error', error => this.fail(new Error(`Plugin ${metadata.name} crashed: ${error.message}`)));
+    this.worker.on('exit', code => {
+      if (!this.terminated) {
+        this.fail(new Error(`Plugin ${metadata.name} exited unexpectedly with code ${code}`));
+      }
+    });
+
+    // An idle plugin must not keep the CLI alive; in-flight calls do so
+    // through their timeout timers. Adding listeners re-refs the worker, so
+    // this has to come last.
+    this.worker.unref();
+  }
+
+  private handleMessage(message: WorkerToHostMessage): void {
+    if (message.type === 'log') {
+      if (this.options.onLog) {
+        this.options.onLog(message.level, message.message);
+      } else {
+        console.log(`[${this.metadata.name}] ${message.message}`);
+      }
+      return;
+    }
+
+    if (message.type === 'subscribe') {
+      const { subscriptionId } = message;
+      const unsubscribe = this.options.events?.on(message.event, payload =>
+        this.request({ type: 'dispatchEvent', subscriptionId, payload }));
+      if (unsubscribe) {
+        this.eventSubscriptions.set(subscriptionId, unsubscribe);
+      }
+      return;
+    }
+
+    if (message.type === 'secret') {
+      this.handleSecretRequest(message);
+      return;
+    }
+
+    if (message.type === 'unsubscribe') {
+      this.eventSubscriptions.get(message.subscriptionId)?.();
+      this.eventSubscriptions.delete(message.subscriptionId);
+      return;
+    }
+
+    if (message.type === 'result') {
+      const call = this.pending.get(message.id);
+      if (!call) return;
+      this.pending.delete(message.id);
+      clearTimeout(call.timer);
+      if (message.error !== undefined) {
+        call.reject(new Error(message.error));
+      } else {
+        call.resolve(message.value);
+      }
+    }
+  }
+
+  private async handleSecretRequest(message: Extract<WorkerToHostMessage, { type: 'secret' }>): Promise<void> {
+    let reply: HostToWorkerMessage;
+    try {
+      const secrets = this.options.secrets;
+      if (!secrets) {
+        throw new Error(`Secrets are not available to plugin ${this.metadata.name}`);
+      }
+      let value: unknown;
+      if (message.operation === 'get') {
+        value = await secrets.get(message.name);
+      } else if (message.operation === 'set') {
+        value = await secrets.set(message.name, message.value ?? '');
+      } else {
+        value = await secrets.delete(message.name);
+      }
+      reply = { type: 'secretResult', id: message.id, value };
+    } catch (error) {
+      reply = { type: 'secretResult', id: message.id, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (!this.terminated) {
+      this.worker.postMessage(reply);
+    }
+  }
+
+  private request(message: DistributiveOmit<HostToWorkerMessage, 'id'>): Promise<any> {
+    if (this.crashError) {
+      return Promise.reject(this.crashError);
+    }
+    if (this.terminated) {
+      return Promise.reject(new Error(`Plugin ${this.metadata.name} is not running`));
+    }
+
+    const id = this.nextId++;
+    const timeout = this.options.callTimeout ?? 30000;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.fail(new Error(`Plugin ${this.metadata.name} did not respond within ${timeout}ms and was terminated`));
+      }, timeout);
+
+      this.pending.set(id, { resolve, reject, timer });
+      this.worker.postMessage({ ...message, id } as HostToWorkerMessage);
+    });
+  }
+
+  private fail(error: Error): void {
+    if (this.crashError || this.terminated) {
+      return;
+    }
+
+    this.crashError = error;
+    this.terminated = true;
+    this.rejectPending(error);
+    this.worker.terminate();
+    this.options.onCrash?.(error);
+  }
+
+  private rejectPending(error: Error): void {
+    for (const call of this.pending.values()) {
+      clearTimeout(call.timer);
+      call.reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execSync } from 'node:child_process';
+import { PluginType } from '../plugin-interface.js';
+import { DEFAULT_CLI_VERSION } from '../compatibility.js';
+import { PLUGIN_API_SOURCE, PLUGIN_TEMPLATES, TemplateNames } from './templates.js';
+
+// npm package name rules, lowercase only
+const PACKAGE_NAME_PATTERN = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+export interface ScaffoldOptions {
+  type: PluginType;
+  // Defaults to the package name without its scope
+  directory?: string;
+  description?: string;
+  author?: string;
+}
+
+export interface ScaffoldResult {
+  success: boolean;
+  directory?: string;
+  files?: string[];
+  error?: string;
+}
+
+/**
+ * Generates a plugin project: a manifest, a TypeScript entry point
+ * implementing GeminiPlugin with example registrations for the plugin type,
+ * a build script and a starter test. The project builds with `npm run build`
+ * and installs with `gemini plugins install <dir> --source local`.
+ */
+export function scaffoldPlugin(pluginName: string, baseDir: string, options: ScaffoldOptions): ScaffoldResult {
+  if (!PACKAGE_NAME_PATTERN.test(pluginName)) {
+    return { success: false, error: `Invalid plugin name "${pluginName}": use a lowercase npm package name such as my-plugin or @scope/my-plugin` };
+  }
+
+  const template = PLUGIN_TEMPLATES[options.type];
+  if (!template) {
+    return { success: false, error: `Unknown plugin type: ${options.type}. Valid types: ${Object.values(PluginType).join(', ')}` };
+  }
+
+  const names = getTemplateNames(pluginName);
+  const directory = path.resolve(baseDir, options.directory || names.commandName);
+  if (fs.existsSync(directory) && fs.readdirSync(directory).length > 0) {
+    return { success: false, error: `Directory ${directory} already exists and is not empty` };
+  }
+
+  const manifest = {
+    name: pluginName,
+    version: '0.1.0',
+    description: options.description || `${names.displayName} plugin for Gemini CLI`,
+    author: options.author || getDefaultAuthor(),
+    license: 'Apache-2.0',
+    type: options.type,
+    entryPoint: 'dist/index.mjs',
+    tags: [options.type],
+    compatibility: {
+      'gemini-cli': `>=${DEFAULT_CLI_VERSION}`,
+      node: '>=18.0.0'
+    },
+    ...template.manifest(names),
+    files: ['dist'],
+    scripts: {
+      build: 'tsc',
+      test: 'npm run build && node --test dist/index.test.mjs'
+    },
+    devDependencies: {
+      '@types/node': '^20.0.0',
+      typescript: '^5.0.0'
+    }
+  };
+
+  const files: Record<string, string> = {
+    'package.json': JSON.stringify(manifest, null, 2) + '\n',
+    'tsconfig.json': TSCONFIG_SOURCE,
+    '.gitignore': 'node_modules/\ndist/\n*.tgz\n*.tgz.json\n',
+    'README.md': getReadme(pluginName, names, template.description),
+    'src/plugin-api.mts': PLUGIN_API_SOURCE
+  };
+  for (const [file, source] of Object.entries(template.sources(names))) {
+    files[path.join('src', file)] = source;
+  }
+
+  try {
+    for (const [file, content] of Object.entries(files)) {
+      const target = path.join(directory, file);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to create plugin project: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+
+  return { success: true, directory, files: Object.keys(files).sort() };
+}
+
+function getTemplateNames(pluginName: string): TemplateNames {
+  const baseName = pluginName.split('/').pop()!;
+  const words = baseName.split(/[^a-z0-9]+/).filter(Boolean);
+  const capitalized = words.map(word => word[0].toUpperCase() + word.slice(1));
+  return {
+    name: pluginName,
+    className: `${/^[0-9]/.test(baseName) ? 'Plugin' : ''}${capitalized.join('')}Plugin`,
+    commandName: baseName,
+    toolName: words.join('_'),
+    displayName: capitalized.join(' ')
+  };
+}
+
+function getDefaultAuthor(): string {
+  try {
+    return execSync('git config user.name', { stdio: 'pipe' }).toString().trim() || 'Unknown';
+  } catch {
+    return 'Unknown';
+  }
+}
+
+function getReadme(pluginName: string, names: TemplateNames, description: string): string {
+  return `# ${names.displayName}
+
+${description}, generated by \`gemini plugins create\`.
+
+The manifest lives in \`package.json\`: edit its commands, tools, themes or
+extensions and the plugin registers them as declared.
+
+## Development
+
+\`\`\`bash
+npm install
+npm test
+\`\`\`
+
+## Installing
+
+\`\`\`bash
+gemini plugins install . --source local --allow-unverified
+gemini plugins enable ${pluginName}
+\`\`\`
+
+\`--allow-unverified\` is needed until the plugin is signed.
+
+## Publishing
+
+\`\`\`bash
+gemini plugins pack
+gemini plugins publish
+\`\`\`
+`;
+}
+
+const TSCONFIG_SOURCE = `{
+  // Sources are .mts because package.json "type" holds the plugin type, not the module format
+  "compilerOptions": {
+    "target": "ES2022",
+    "module": "NodeNext",
+    "moduleResolution": "NodeNext",
+    "rootDir": "src",
+    "outDir": "dist",
+    "strict": true,
+    "skipLibCheck": true,
+    "types": ["node"]
+  },
+  "include": ["src"]
+}
+`;
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import { createRequire } from 'node:module';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PLUGIN_API_SOURCE } from './templates.js';
+
+const packageRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Types a plugin builds and hands to the CLI; the rest the CLI hands to the plugin
+const PLUGIN_TO_CLI = new Set([
+  'PluginType', 'PluginPermission', 'PluginSecret', 'PluginCommandOption', 'PluginCommandArgument', 'PluginCommand',
+  'CommandHandler', 'PluginTool', 'ToolHandler', 'RequiredThemeToken', 'OptionalThemeToken', 'ThemeColors',
+  'PluginTheme', 'PluginExtension', 'PluginMetadata', 'PluginConfigSchema', 'PluginConfigProperty', 'GeminiPlugin'
+]);
+
+// The host declares PluginType as an enum, so it is compared by its values,
+// and the types holding it without the field that holds it
+const CHECKS: Record<string, string> = {
+  PluginType: 'Assignable<Api.PluginType, `${Host.PluginType}`> & Assignable<`${Host.PluginType}`, Api.PluginType>',
+  PluginMetadata: "Assignable<Omit<Api.PluginMetadata, 'type'>, Omit<Host.PluginMetadata, 'type'>>",
+  GeminiPlugin: "Assignable<Omit<Api.GeminiPlugin, 'metadata'>, Omit<Host.GeminiPlugin, 'metadata'>>"
+};
+
+const exportedTypes = (source: string) => [...source.matchAll(/^export (?:interface|type) (\w+)(<)?/gm)]
+  // Generic types are checked through the types that use them
+  .filter(match => !match[2])
+  .map(match => match[1]);
+
+// Type-checks the generated API against plugin-interface.ts and returns
+// the types that no longer match, or the compiler output for other errors
+const checkAgainstInterface = (dir: string): string[] => {
+  fs.writeFileSync(path.join(dir, 'plugin-api.mts'), PLUGIN_API_SOURCE);
+  const hostModule = path.relative(dir, path.join(packageRoot, 'plugin-interface.js')).split(path.sep).join('/');
+  const names = exportedTypes(PLUGIN_API_SOURCE);
+  fs.writeFileSync(path.join(dir, 'check.mts'), [
+    `import type * as Api from './plugin-api.mjs';`,
+    `import type * as Host from '${hostModule}';`,
+    'type Assignable<From, To> = [From] extends [To] ? true : false;',
+    ...names.map(name => {
+      const check = CHECKS[name] ?? (PLUGIN_TO_CLI.has(name)
+        ? `Assignable<Api.${name}, Host.${name}>`
+        : `Assignable<Host.${name}, Api.${name}>`);
+      return `export const ${name}: ${check} = true;`;
+    })
+  ].join('\n'));
+  fs.symlinkSync(path.join(packageRoot, 'node_modules'), path.join(dir, 'node_modules'));
+
+  const tsc = createRequire(import.meta.url).resolve('typescript/bin/tsc');
+  try {
+    execFileSync(process.execPath, [
+      tsc,
+      '--noEmit',
+      '--module', 'NodeNext',
+      '--moduleResolution', 'nodenext',
+      '--target', 'es2022',
+      '--strict',
+      '--skipLibCheck',
+      '--types', 'node',
+      path.join(dir, 'check.mts')
+    ], { cwd: dir, stdio: 'pipe' });
+    return [];
+  } catch (error) {
+    const output = String((error as { stdout?: Buffer }).stdout ?? error).trim();
+    return output.split('\n').map(line => {
+      // Checks start on the fourth line of check.mts
+      const match = /^check\.mts\((\d+),\d+\): error TS2322/.exec(line);
+      return match ? names[Number(match[1]) - 4] : line;
+    });
+  }
+};
+
+describe('PLUGIN_API_SOURCE', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-api-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('exports only types that plugin-interface.ts exports', () => {
+    const hostTypes = new Set(exportedTypes(fs.readFileSync(path.join(packageRoot, 'plugin-interface.ts'), 'utf-8')));
+    hostTypes.add('PluginType');
+
+    expect(exportedTypes(PLUGIN_API_SOURCE).filter(name => !hostTypes.has(name))).toEqual([]);
+  });
+
+  it('stays compatible with plugin-interface.ts', () => {
+    expect(checkAgainstInterface(tempDir)).toEqual([]);
+  }, 60000);
+});
@@ -0,0 +1,701 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PluginCommand, PluginExtension, PluginPermission, PluginTheme, PluginTool, PluginType } from '../plugin-interface.js';
+
+/**
+ * Names derived from the package name, e.g. for "@ourco/json-tools":
+ * className "JsonToolsPlugin", commandName "json-tools", toolName
+ * "json_tools" and displayName "Json Tools".
+ */
+export interface TemplateNames {
+  name: string;
+  className: string;
+  commandName: string;
+  toolName: string;
+  displayName: string;
+}
+
+// Manifest entries a template declares in package.json
+export interface TemplateManifest {
+  permissions?: PluginPermission[];
+  commands?: PluginCommand[];
+  tools?: PluginTool[];
+  themes?: PluginTheme[];
+  extensions?: PluginExtension[];
+}
+
+export interface PluginTemplate {
+  description: string;
+  manifest(names: TemplateNames): TemplateManifest;
+  // Source files keyed by path relative to src/
+  sources(names: TemplateNames): Record<string, string>;
+}
+
+// The plugin API the generated code compiles against, kept in the project
+// so it builds without depending on the CLI's own packages. templates.test.ts
+// checks that it stays compatible with plugin-interface.ts
+export const PLUGIN_API_SOURCE = `/**
+ * Types of the Gemini CLI plugin API used by this plugin.
+ */
+
+export type PluginType = 'tool' | 'theme' | 'extension' | 'utility' | 'mcp-server';
+
+export interface PluginPermission {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PluginSecret {
+  name: string;
+  description: string;
+}
+
+export interface PluginCommandOption {
+  name: string;
+  alias?: string;
+  type: 'string' | 'number' | 'boolean';
+  description?: string;
+  default?: string | number | boolean;
+  required?: boolean;
+}
+
+export interface PluginCommandArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+  variadic?: boolean;
+}
+
+export interface PluginCommand {
+  name: string;
+  description: string;
+  usage?: string;
+  examples?: string[];
+  options?: PluginCommandOption[];
+  arguments?: PluginCommandArgument[];
+}
+
+export interface ParsedCommandArgs {
+  options: Record<string, string | number | boolean>;
+  arguments: Record<string, string | string[]>;
+  positionals: string[];
+}
+
+export type CommandHandler = (args: ParsedCommandArgs) => Promise<unknown> | unknown;
+
+export interface PluginTool {
+  name: string;
+  displayName: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+}
+
+export type ToolHandler = (args: Record<string, any>) => Promise<unknown> | unknown;
+
+export type RequiredThemeToken = 'foreground' | 'background' | 'accent' | 'success' | 'warning' | 'error';
+export type OptionalThemeToken = 'muted' | 'info' | 'link' | 'code' | 'diff-add' | 'diff-remove' | 'border';
+
+// Hex (#rgb or #rrggbb) or rgb(r, g, b) colors by semantic token
+export type ThemeColors = Record<RequiredThemeToken, string> & Partial<Record<OptionalThemeToken, string>>;
+
+export interface PluginTheme {
+  name: string;
+  displayName: string;
+  description: string;
+  colors: ThemeColors;
+}
+
+export interface PluginExtension {
+  name: string;
+  type: 'mcp-server' | 'custom';
+  config: Record<string, any>;
+}
+
+export interface PluginMetadata {
+  name: string;
+  version: string;
+  description: string;
+  author: string;
+  type: PluginType;
+  entryPoint: string;
+  tags?: string[];
+  compatibility: {
+    'gemini-cli': string;
+    node?: string;
+  };
+  permissions?: PluginPermission[];
+  secrets?: PluginSecret[];
+  commands?: PluginCommand[];
+  tools?: PluginTool[];
+  themes?: PluginTheme[];
+  extensions?: PluginExtension[];
+  configSchema?: PluginConfigSchema;
+}
+
+export interface PluginConfigSchema {
+  properties: Record<string, PluginConfigProperty>;
+  required?: string[];
+}
+
+export interface PluginConfigProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  default?: any;
+  [keyword: string]: any;
+}
+
+export interface CommandRegistry {
+  registerCommand(command: PluginCommand, handler?: CommandHandler): void;
+  unregisterCommand(name: string): void;
+}
+
+export interface ToolRegistry {
+  registerTool(tool: PluginTool, execute?: ToolHandler): void;
+  unregisterTool(name: string): void;
+}
+
+export interface ThemeRegistry {
+  registerTheme(theme: PluginTheme): void;
+  unregisterTheme(name: string): void;
+}
+
+export interface ExtensionRegistry {
+  registerExtension(extension: PluginExtension): void;
+  unregisterExtension(name: string): void;
+}
+
+export interface PluginContext {
+  workspaceRoot: string;
+  pluginRoot: string;
+  config: any;
+  logger: {
+    info(message: string): void;
+    warn(message: string): void;
+    error(message: string): void;
+    debug(message: string): void;
+  };
+  permissions: {
+    granted: string[];
+    has(permission: string): boolean;
+  };
+  events: PluginEvents;
+  secrets: PluginSecrets;
+}
+
+export interface PluginSecrets {
+  get(name: string): Promise<string | undefined>;
+  set(name: string, value: string): Promise<void>;
+  delete(name: string): Promise<boolean>;
+}
+
+export interface PluginEventMap {
+  'session:start': { sessionId: string; workspaceRoot: string };
+  'session:end': { sessionId: string };
+  'prompt:before': { prompt: string };
+  'prompt:after': { prompt: string; response: string };
+  'tool:before': { tool: string; plugin?: string; args: Record<string, any> };
+  'tool:after': {
+    tool: string;
+    plugin?: string;
+    args: Record<string, any>;
+    success: boolean;
+    result?: unknown;
+    error?: string;
+    durationMs: number;
+  };
+  'file:changed': { path: string; change: 'created' | 'modified' | 'deleted' };
+  'theme:changed': { theme: string; previous?: string };
+}
+
+export type PluginEventName = keyof PluginEventMap;
+
+export type PluginEventHandler<E extends PluginEventName> = (payload: PluginEventMap[E]) => Promise<void> | void;
+
+// Subscriptions end when the plugin is disabled, so subscribe in onEnable
+export interface PluginEvents {
+  on<E extends PluginEventName>(event: E, handler: PluginEventHandler<E>): () => void;
+  once<E extends PluginEventName>(event: E, handler: PluginEventHandler<E>): () => void;
+  off<E extends PluginEventName>(event: E, handler: PluginEventHandler<E>): void;
+}
+
+export interface GeminiPlugin {
+  metadata: PluginMetadata;
+  onInstall?(): Promise<void>;
+  onUninstall?(): Promise<void>;
+  onEnable?(): Promise<void>;
+  onDisable?(): Promise<void>;
+  registerCommands?(registry: CommandRegistry): void;
+  registerTools?(registry: ToolRegistry): void;
+  registerThemes?(registry: ThemeRegistry): void;
+  registerExtensions?(registry: ExtensionRegistry): void;
+}
+`;
+
+// Shared by every entry point: the manifest in package.json is the single
+// source of the plugin's metadata
+const METADATA_SOURCE = `// package.json is the plugin manifest; reading it keeps the two in sync
+const metadata: PluginMetadata = JSON.parse(
+  fs.readFileSync(new URL('../package.json', import.meta.url), 'utf-8')
+);`;
+
+const TEST_CONTEXT_SOURCE = `function createContext(): PluginContext {
+  const logger = { info() {}, warn() {}, error() {}, debug() {} };
+  return {
+    workspaceRoot: process.cwd(),
+    pluginRoot: process.cwd(),
+    config: {},
+    logger,
+    permissions: { granted: [], has: () => false },
+    events: { on: () => () => {}, once: () => () => {}, off() {} },
+    secrets: { get: async () => undefined, set: async () => {}, delete: async () => false }
+  };
+}
+
+function collectCommands(plugin: GeminiPlugin): Map<string, CommandHandler> {
+  const commands = new Map<string, CommandHandler>();
+  plugin.registerCommands?.({
+    registerCommand: (command, handler) => commands.set(command.name, handler!),
+    unregisterCommand: name => commands.delete(name)
+  });
+  return commands;
+}`;
+
+function greetingCommand(names: TemplateNames): PluginCommand {
+  return {
+    name: names.commandName,
+    description: `Say hello from ${names.displayName}`,
+    usage: `/${names.commandName} [name]`,
+    examples: [`/${names.commandName}`, `/${names.commandName} Gemini`],
+    arguments: [{ name: 'name', description: 'Who to greet' }]
+  };
+}
+
+const toolTemplate: PluginTemplate = {
+  description: 'A command and a model-callable tool',
+  manifest: names => ({
+    commands: [greetingCommand(names)],
+    tools: [{
+      name: names.toolName,
+      displayName: names.displayName,
+      description: 'Greets someone by name',
+      parameters: {
+        type: 'object',
+        properties: { name: { type: 'string', description: 'Who to greet' } }
+      }
+    }]
+  }),
+  sources: names => ({
+    'index.mts': `import * as fs from 'node:fs';
+import type {
+  CommandRegistry,
+  GeminiPlugin,
+  PluginContext,
+  PluginMetadata,
+  ToolRegistry
+} from './plugin-api.mjs';
+
+${METADATA_SOURCE}
+
+export default class ${names.className} implements GeminiPlugin {
+  metadata = metadata;
+
+  private context: PluginContext;
+
+  constructor(context: PluginContext) {
+    this.context = context;
+  }
+
+  async onEnable(): Promise<void> {
+    this.context.logger.info('${names.displayName} enabled');
+  }
+
+  registerCommands(registry: CommandRegistry): void {
+    registry.registerCommand(metadata.commands![0], args => this.greet(String(args.arguments.name ?? 'world')));
+  }
+
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTool(metadata.tools![0], args => ({ greeting: this.greet(String(args.name ?? 'world')) }));
+  }
+
+  greet(name: string): string {
+    return \`Hello, \${name}!\`;
+  }
+}
+`,
+    'index.test.mts': `import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Plugin from './index.mjs';
+import type { CommandHandler, GeminiPlugin, PluginContext, ToolHandler } from './plugin-api.mjs';
+
+${TEST_CONTEXT_SOURCE}
+
+test('/${names.commandName} greets by name', async () => {
+  const commands = collectCommands(new Plugin(createContext()));
+  const result = await commands.get('${names.commandName}')!({ options: {}, arguments: { name: 'Gemini' }, positionals: ['Gemini'] });
+  assert.equal(result, 'Hello, Gemini!');
+});
+
+test('the ${names.toolName} tool returns a greeting', async () => {
+  const tools = new Map<string, ToolHandler>();
+  new Plugin(createContext()).registerTools({
+    registerTool: (tool, execute) => tools.set(tool.name, execute!),
+    unregisterTool: name => tools.delete(name)
+  });
+  assert.deepEqual(await tools.get('${names.toolName}')!({}), { greeting: 'Hello, world!' });
+});
+`
+  })
+};
+
+const themeTemplate: PluginTemplate = {
+  description: 'A color theme',
+  manifest: names => ({
+    themes: [{
+      name: names.commandName,
+      displayName: names.displayName,
+      description: `${names.displayName} color theme`,
+      colors: {
+        foreground: '#c0caf5',
+        background: '#1a1b26',
+        muted: '#9aa5ce',
+        accent: '#7dcfff',
+        link: '#7aa2f7',
+        code: '#bb9af7',
+        success: '#9ece6a',
+        warning: '#e0af68',
+        error: '#f7768e',
+        border: '#737aa2'
+      }
+    }]
+  }),
+  sources: names => ({
+    'index.mts': `import * as fs from 'node:fs';
+import type { GeminiPlugin, PluginContext, PluginMetadata, ThemeRegistry } from './plugin-api.mjs';
+
+${METADATA_SOURCE}
+
+export default class ${names.className} implements GeminiPlugin {
+  metadata = metadata;
+
+  private context: PluginContext;
+
+  constructor(context: PluginContext) {
+    this.context = context;
+  }
+
+  registerThemes(registry: ThemeRegistry): void {
+    // Edit the colors in package.json; they are registered as declared
+    for (const theme of metadata.themes || []) {
+      registry.registerTheme(theme);
+    }
+  }
+}
+`,
+    'index.test.mts': `import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Plugin from './index.mjs';
+import type { PluginContext, PluginTheme } from './plugin-api.mjs';
+
+function createContext(): PluginContext {
+  const logger = { info() {}, warn() {}, error() {}, debug() {} };
+  return {
+    workspaceRoot: process.cwd(),
+    pluginRoot: process.cwd(),
+    config: {},
+    logger,
+    permissions: { granted: [], has: () => false },
+    events: { on: () => () => {}, once: () => () => {}, off() {} },
+    secrets: { get: async () => undefined, set: async () => {}, delete: async () => false }
+  };
+}
+
+test('registers the ${names.commandName} theme with hex colors', () => {
+  const themes: PluginTheme[] = [];
+  new Plugin(createContext()).registerThemes({
+    registerTheme: theme => themes.push(theme),
+    unregisterTheme: () => {}
+  });
+
+  assert.equal(themes.length, 1);
+  assert.equal(themes[0].name, '${names.commandName}');
+  for (const [token, color] of Object.entries(themes[0].colors)) {
+    assert.match(color, /^#[0-9a-f]{6}$/i, \`\${token} should be a hex color\`);
+  }
+});
+`
+  })
+};
+
+const extensionTemplate: PluginTemplate = {
+  description: 'A custom extension with a status command',
+  manifest: names => ({
+    commands: [{
+      name: `${names.commandName}-status`,
+      description: `Show the status of the ${names.displayName} extension`,
+      usage: `/${names.commandName}-status`
+    }],
+    extensions: [{
+      name: names.commandName,
+      type: 'custom',
+      config: { greeting: 'Hello from an extension' }
+    }]
+  }),
+  sources: names => ({
+    'index.mts': `import * as fs from 'node:fs';
+import type {
+  CommandRegistry,
+  ExtensionRegistry,
+  GeminiPlugin,
+  PluginContext,
+  PluginMetadata
+} from './plugin-api.mjs';
+
+${METADATA_SOURCE}
+
+export default class ${names.className} implements GeminiPlugin {
+  metadata = metadata;
+
+  private context: PluginContext;
+  private registered: string[] = [];
+
+  constructor(context: PluginContext) {
+    this.context = context;
+  }
+
+  registerExtensions(registry: ExtensionRegistry): void {
+    for (const extension of metadata.extensions || []) {
+      registry.registerExtension(extension);
+      this.registered.push(extension.name);
+    }
+  }
+
+  registerCommands(registry: CommandRegistry): void {
+    registry.registerCommand(metadata.commands![0], () =>
+      this.registered.length > 0
+        ? \`Active extensions: \${this.registered.join(', ')}\`
+        : 'No extensions registered'
+    );
+  }
+}
+`,
+    'index.test.mts': `import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Plugin from './index.mjs';
+import type { CommandHandler, GeminiPlugin, PluginContext, PluginExtension } from './plugin-api.mjs';
+
+${TEST_CONTEXT_SOURCE}
+
+test('registers its extension and reports it', async () => {
+  const plugin = new Plugin(createContext());
+  const extensions: PluginExtension[] = [];
+  plugin.registerExtensions({
+    registerExtension: extension => extensions.push(extension),
+    unregisterExtension: () => {}
+  });
+
+  assert.deepEqual(extensions.map(extension => extension.name), ['${names.commandName}']);
+  const status = await collectCommands(plugin).get('${names.commandName}-status')!({ options: {}, arguments: {}, positionals: [] });
+  assert.equal(status, 'Active extensions: ${names.commandName}');
+});
+`
+  })
+};
+
+const utilityTemplate: PluginTemplate = {
+  description: 'A command with options and variadic arguments',
+  manifest: names => ({
+    commands: [{
+      name: names.commandName,
+      description: 'Count the words and characters in some text',
+      usage: `/${names.commandName} [--chars] <text...>`,
+      examples: [`/${names.commandName} hello plugin world`, `/${names.commandName} --chars hello`],
+      options: [{ name: 'chars', alias: 'c', type: 'boolean', description: 'Also count characters' }],
+      arguments: [{ name: 'text', description: 'Text to count', required: true, variadic: true }]
+    }]
+  }),
+  sources: names => ({
+    'index.mts': `import * as fs from 'node:fs';
+import type { CommandRegistry, GeminiPlugin, PluginContext, PluginMetadata } from './plugin-api.mjs';
+
+${METADATA_SOURCE}
+
+export default class ${names.className} implements GeminiPlugin {
+  metadata = metadata;
+
+  private context: PluginContext;
+
+  constructor(context: PluginContext) {
+    this.context = context;
+  }
+
+  registerCommands(registry: CommandRegistry): void {
+    registry.registerCommand(metadata.commands![0], args => {
+      const words = args.arguments.text as string[];
+      return this.count(words.join(' '), Boolean(args.options.chars));
+    });
+  }
+
+  count(text: string, chars: boolean): string {
+    const words = text.split(/\\s+/).filter(Boolean).length;
+    return chars ? \`\${words} words, \${text.length} characters\` : \`\${words} words\`;
+  }
+}
+`,
+    'index.test.mts': `import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Plugin from './index.mjs';
+import type { CommandHandler, GeminiPlugin, PluginContext } from './plugin-api.mjs';
+
+${TEST_CONTEXT_SOURCE}
+
+test('/${names.commandName} counts words and characters', async () => {
+  const command = collectCommands(new Plugin(createContext())).get('${names.commandName}')!;
+  const args = { options: { chars: true }, arguments: { text: ['hello', 'world'] }, positionals: ['hello', 'world'] };
+  assert.equal(await command(args), '2 words, 11 characters');
+});
+`
+  })
+};
+
+const mcpServerTemplate: PluginTemplate = {
+  description: 'An MCP server speaking JSON-RPC over stdio',
+  manifest: names => ({
+    // The server is a command the CLI runs, which needs this permission
+    permissions: [{ name: 'process', description: 'Run the MCP server', required: true }],
+    extensions: [{
+      name: names.commandName,
+      type: 'mcp-server',
+      config: { command: 'node', args: ['dist/server.mjs'] }
+    }]
+  }),
+  sources: names => ({
+    'index.mts': `import * as fs from 'node:fs';
+import type { ExtensionRegistry, GeminiPlugin, PluginContext, PluginMetadata } from './plugin-api.mjs';
+
+${METADATA_SOURCE}
+
+export default class ${names.className} implements GeminiPlugin {
+  metadata = metadata;
+
+  private context: PluginContext;
+
+  constructor(context: PluginContext) {
+    this.context = context;
+  }
+
+  registerExtensions(registry: ExtensionRegistry): void {
+    // The server command is declared in package.json and runs from the plugin directory
+    for (const extension of metadata.extensions || []) {
+      registry.registerExtension(extension);
+    }
+  }
+}
+`,
+    'server.mts': `import * as readline from 'node:readline';
+import { pathToFileURL } from 'node:url';
+
+/**
+ * Minimal MCP server: newline-delimited JSON-RPC 2.0 on stdin/stdout with a
+ * single "echo" tool. Replace the tool with your own.
+ */
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method: string;
+  params?: any;
+}
+
+const TOOLS = [
+  {
+    name: 'echo',
+    description: 'Returns the text it was given',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string' } },
+      required: ['text']
+    }
+  }
+];
+
+export function handleRequest(request: JsonRpcRequest): unknown {
+  switch (request.method) {
+    case 'initialize':
+      return {
+        protocolVersion: '2024-11-05',
+        capabilities: { tools: {} },
+        serverInfo: { name: '${names.name}', version: '0.1.0' }
+      };
+    case 'tools/list':
+      return { tools: TOOLS };
+    case 'tools/call':
+      if (request.params?.name !== 'echo') {
+        throw new Error(\`Unknown tool: \${request.params?.name}\`);
+      }
+      return { content: [{ type: 'text', text: String(request.params.arguments?.text ?? '') }] };
+    default:
+      throw new Error(\`Method not found: \${request.method}\`);
+  }
+}
+
+function send(message: unknown): void {
+  process.stdout.write(JSON.stringify(message) + '\\n');
+}
+
+// Only serve when run directly, so tests can import handleRequest
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  readline.createInterface({ input: process.stdin }).on('line', line => {
+    let request: JsonRpcRequest;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+
+    // Notifications have no id and get no response
+    if (request.id === undefined) {
+      return;
+    }
+    try {
+      send({ jsonrpc: '2.0', id: request.id, result: handleRequest(request) });
+    } catch (error) {
+      send({ jsonrpc: '2.0', id: request.id, error: { code: -32601, message: (error as Error).message } });
+    }
+  });
+}
+`,
+    'index.test.mts': `import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { handleRequest } from './server.mjs';
+
+test('lists the echo tool', () => {
+  const result = handleRequest({ jsonrpc: '2.0', id: 1, method: 'tools/list' }) as { tools: Array<{ name: string }> };
+  assert.deepEqual(result.tools.map(tool => tool.name), ['echo']);
+});
+
+test('echo returns its input', () => {
+  const result = handleRequest({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'tools/call',
+    params: { name: 'echo', arguments: { text: 'hi' } }
+  });
+  assert.deepEqual(result, { content: [{ type: 'text', text: 'hi' }] });
+});
+`
+  })
+};
+
+export const PLUGIN_TEMPLATES: Record<PluginType, PluginTemplate> = {
+  [PluginType.TOOL]: toolTemplate,
+  [PluginType.THEME]: themeTemplate,
+  [PluginType.EXTENSION]: extensionTemplate,
+  [PluginType.UTILITY]: utilityTemplate,
+  [PluginType.MCP_SERVER]: mcpServerTemplate
+};
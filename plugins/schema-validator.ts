@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as semver from 'semver';
+
+export interface SchemaValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validates a value against the subset of JSON Schema used by plugin tool
+ * parameters and the plugin manifest: type, enum, const, properties,
+ * required, additionalProperties, items, numeric and string bounds, pattern,
+ * and the formats semver, semver-range and uri. Unknown formats are ignored.
+ */
+export function validateSchema(schema: Record<string, any> | undefined, value: unknown, path: string = '$'): SchemaValidationError[] {
+  if (!schema) {
+    return [];
+  }
+
+  const errors: SchemaValidationError[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      errors.push({ path, message: `must be of type ${types.join(' | ')}, got ${describeType(value)}` });
+      return errors;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((candidate: unknown) => isEqual(candidate, value))) {
+    errors.push({ path, message: `must be one of: ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+    if (schema.format !== undefined && !matchesFormat(schema.format, value)) {
+      errors.push({ path, message: `must be a valid ${schema.format}, got ${JSON.stringify(value)}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(schema.items, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, any> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (properties[key]) {
+        errors.push(...validateSchema(properties[key], propertyValue, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateSchema(schema.additionalProperties, propertyValue, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function formatSchemaErrors(errors: SchemaValidationError[]): string {
+  return errors.map(error => `${error.path} ${error.message}`).join('; ');
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function matchesFormat(format: string, value: string): boolean {
+  switch (format) {
+    case 'semver':
+      return semver.valid(value) !== null;
+    case 'semver-range':
+      return semver.validRange(value) !== null;
+    case 'uri':
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return false;
+      }
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
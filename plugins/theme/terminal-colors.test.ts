@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { colorize, detectColorDepth, toAnsi16, toAnsi256 } from './terminal-colors.js';
+
+const RED = { r: 255, g: 0, b: 0 };
+const BLACK = { r: 0, g: 0, b: 0 };
+
+describe('detectColorDepth', () => {
+  const tty = { isTTY: true };
+
+  it.each([
+    [{ COLORTERM: 'truecolor' }, 'truecolor'],
+    [{ COLORTERM: '24bit', TERM: 'xterm' }, 'truecolor'],
+    [{ TERM_PROGRAM: 'vscode' }, 'truecolor'],
+    [{ TERM: 'xterm-256color' }, '256'],
+    [{ TERM: 'screen-256' }, '256'],
+    [{ TERM: 'xterm' }, '16'],
+    [{ TERM: 'dumb', COLORTERM: 'truecolor' }, 'none']
+  ])('reads %o as %s', (env, depth) => {
+    expect(detectColorDepth(tty, env)).toBe(depth);
+  });
+
+  it('shows no colors when the stream is not a terminal', () => {
+    expect(detectColorDepth({ isTTY: false }, { COLORTERM: 'truecolor' })).toBe('none');
+  });
+
+  it('lets NO_COLOR and FORCE_COLOR override the terminal', () => {
+    expect(detectColorDepth(tty, { NO_COLOR: '1', FORCE_COLOR: '3', COLORTERM: 'truecolor' })).toBe('none');
+    expect(detectColorDepth({ isTTY: false }, { FORCE_COLOR: '2' })).toBe('256');
+    expect(detectColorDepth({ isTTY: false }, { FORCE_COLOR: 'true' })).toBe('16');
+    expect(detectColorDepth(tty, { FORCE_COLOR: '0', COLORTERM: 'truecolor' })).toBe('none');
+    expect(detectColorDepth(tty, { FORCE_COLOR: '9' })).toBe('truecolor');
+  });
+});
+
+describe('toAnsi256', () => {
+  it.each([
+    [RED, 196],
+    [BLACK, 16],
+    [{ r: 255, g: 255, b: 255 }, 231],
+    [{ r: 100, g: 140, b: 210 }, 68]
+  ])('maps %o onto the color cube as %i', (color, index) => {
+    expect(toAnsi256(color)).toBe(index);
+  });
+
+  it('uses the gray ramp for grays between the cube levels', () => {
+    expect(toAnsi256({ r: 128, g: 128, b: 128 })).toBe(244);
+    expect(toAnsi256({ r: 30, g: 30, b: 30 })).toBe(234);
+  });
+});
+
+describe('toAnsi16', () => {
+  it.each([
+    [BLACK, 0],
+    [{ r: 200, g: 10, b: 0 }, 1],
+    [{ r: 250, g: 20, b: 20 }, 9],
+    [{ r: 120, g: 130, b: 125 }, 8],
+    [{ r: 240, g: 240, b: 250 }, 15]
+  ])('maps %o to ANSI color %i', (color, index) => {
+    expect(toAnsi16(color)).toBe(index);
+  });
+});
+
+describe('colorize', () => {
+  it('uses 24-bit colors on truecolor terminals', () => {
+    expect(colorize('hi', 'truecolor', RED, BLACK)).toBe('\x1b[38;2;255;0;0;48;2;0;0;0mhi\x1b[0m');
+  });
+
+  it('downgrades to the 256-color palette', () => {
+    expect(colorize('hi', '256', RED, BLACK)).toBe('\x1b[38;5;196;48;5;16mhi\x1b[0m');
+  });
+
+  it('downgrades to the basic and bright ANSI colors', () => {
+    expect(colorize('hi', '16', RED, BLACK)).toBe('\x1b[91;40mhi\x1b[0m');
+    expect(colorize('hi', '16', { r: 205, g: 0, b: 0 })).toBe('\x1b[31mhi\x1b[0m');
+  });
+
+  it('leaves text uncolored without color support', () => {
+    expect(colorize('hi', 'none', RED, BLACK)).toBe('hi');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Rgb } from './theme-tokens.js';
+
+/**
+ * Colors a terminal can show:
+ * - truecolor: any 24-bit color
+ * - 256: the xterm palette of a 6x6x6 color cube and a gray ramp
+ * - 16: the basic and bright ANSI colors, whose exact shades the terminal picks
+ * - none: no colors at all
+ */
+export type ColorDepth = 'truecolor' | '256' | '16' | 'none';
+
+export const COLOR_DEPTHS: ColorDepth[] = ['truecolor', '256', '16', 'none'];
+
+// Channel levels of the 256-color cube (indexes 16-231)
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+// xterm's defaults for the 16 ANSI colors, used to pick the nearest one
+const ANSI_16: Rgb[] = [
+  { r: 0, g: 0, b: 0 }, { r: 205, g: 0, b: 0 }, { r: 0, g: 205, b: 0 }, { r: 205, g: 205, b: 0 },
+  { r: 0, g: 0, b: 238 }, { r: 205, g: 0, b: 205 }, { r: 0, g: 205, b: 205 }, { r: 229, g: 229, b: 229 },
+  { r: 127, g: 127, b: 127 }, { r: 255, g: 0, b: 0 }, { r: 0, g: 255, b: 0 }, { r: 255, g: 255, b: 0 },
+  { r: 92, g: 92, b: 255 }, { r: 255, g: 0, b: 255 }, { r: 0, g: 255, b: 255 }, { r: 255, g: 255, b: 255 }
+];
+
+const RESET = '\x1b[0m';
+
+/**
+ * Works out how many colors the terminal behind `stream` supports, from the
+ * same environment variables most terminal tools honour. NO_COLOR and
+ * FORCE_COLOR (0 to 3) take precedence over what the terminal reports.
+ */
+export function detectColorDepth(
+  stream: { isTTY?: boolean } = process.stdout,
+  env: NodeJS.ProcessEnv = process.env
+): ColorDepth {
+  if (env.NO_COLOR) {
+    return 'none';
+  }
+
+  const forced = env.FORCE_COLOR;
+  if (forced !== undefined && forced !== '') {
+    const level = forced === 'true' ? 1 : Math.min(Number(forced) || 0, 3);
+    return (['none', '16', '256', 'truecolor'] as ColorDepth[])[level];
+  }
+
+  if (!stream.isTTY || env.TERM === 'dumb') {
+    return 'none';
+  }
+  if (env.COLORTERM === 'truecolor' || env.COLORTERM === '24bit') {
+    return 'truecolor';
+  }
+  if (['iTerm.app', 'WezTerm', 'vscode'].includes(env.TERM_PROGRAM || '')) {
+    return 'truecolor';
+  }
+  if (/-256(color)?$/i.test(env.TERM || '')) {
+    return '256';
+  }
+  return '16';
+}
+
+/**
+ * Wraps text in the escape codes for a foreground and optional background
+ * color, downgraded to the nearest color the depth can show.
+ */
+export function colorize(text: string, depth: ColorDepth, foreground: Rgb, background?: Rgb): string {
+  if (depth === 'none') {
+    return text;
+  }
+
+  const codes = [toSgr(foreground, depth, false)];
+  if (background) {
+    codes.push(toSgr(background, depth, true));
+  }
+  return `\x1b[${codes.join(';')}m${text}${RESET}`;
+}
+
+export function toAnsi256(color: Rgb): number {
+  const toLevel = (channel: number) => {
+    let nearest = 0;
+    CUBE_LEVELS.forEach((level, index) => {
+      if (Math.abs(level - channel) < Math.abs(CUBE_LEVELS[nearest] - channel)) {
+        nearest = index;
+      }
+    });
+    return nearest;
+  };
+  const [r, g, b] = [toLevel(color.r), toLevel(color.g), toLevel(color.b)];
+  const cube = { index: 16 + 36 * r + 6 * g + b, rgb: { r: CUBE_LEVELS[r], g: CUBE_LEVELS[g], b: CUBE_LEVELS[b] } };
+
+  // The gray ramp runs from 8 to 238 in steps of 10 (indexes 232-255)
+  const step = Math.max(0, Math.min(23, Math.round(((color.r + color.g + color.b) / 3 - 8) / 10)));
+  const gray = { index: 232 + step, rgb: { r: 8 + step * 10, g: 8 + step * 10, b: 8 + step * 10 } };
+
+  return getDistance(color, gray.rgb) < getDistance(color, cube.rgb) ? gray.index : cube.index;
+}
+
+export function toAnsi16(color: Rgb): number {
+  let nearest = 0;
+  ANSI_16.forEach((candidate, index) => {
+    if (getDistance(color, candidate) < getDistance(color, ANSI_16[nearest])) {
+      nearest = index;
+    }
+  });
+  return nearest;
+}
+
+function toSgr(color: Rgb, depth: ColorDepth, background: boolean): string {
+  switch (depth) {
+    case 'truecolor':
+      return `${background ? 48 : 38};2;${color.r};${color.g};${color.b}`;
+    case '256':
+      return `${background ? 48 : 38};5;${toAnsi256(color)}`;
+    default: {
+      // 30-37 and 40-47 are the basic colors, 90-97 and 100-107 the bright ones
+      const index = toAnsi16(color);
+      const base = (index < 8 ? 30 : 90) + (background ? 10 : 0);
+      return String(base + (index % 8));
+    }
+  }
+}
+
+function getDistance(first: Rgb, second: Rgb): number {
+  return (first.r - second.r) ** 2 + (first.g - second.g) ** 2 + (first.b - second.b) ** 2;
+}
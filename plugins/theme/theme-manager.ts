@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { PluginTheme } from '../plugin-interface.js';
+import { PluginRegistry } from '../plugin-registry.js';
+import { PluginEventBus } from '../plugin-events.js';
+import { THEME_TOKENS, ThemeValidation, formatColor, resolveThemeColors, validateTheme } from './theme-tokens.js';
+import { ColorDepth, colorize } from './terminal-colors.js';
+
+// Selecting this when no plugin provides a theme of that name goes back to
+// the CLI's own colors
+export const DEFAULT_THEME_NAME = 'default';
+
+export interface ThemeEntry {
+  theme: PluginTheme;
+  // Plugin that registered the theme
+  plugin?: string;
+  validation: ThemeValidation;
+}
+
+// A line of the preview for each token, showing what it is used for
+const PREVIEW_SAMPLES: Record<string, string> = {
+  foreground: 'Plain text reads like this',
+  background: '',
+  muted: 'Press Esc to cancel',
+  accent: '> Summarize the changes in this branch',
+  info: 'ℹ Using 3 context files',
+  link: 'src/plugin-manager.ts:42',
+  code: '`npm run build`',
+  success: '✔ All 24 tests passed',
+  warning: '⚠ 2 deprecated APIs in use',
+  error: '✖ Cannot find module ./missing.js',
+  'diff-add': '+ const cache = new Map();',
+  'diff-remove': '- let cache = {};',
+  border: '────────────────────────────'
+};
+
+/**
+ * Tracks which registered theme is active. The choice is saved in
+ * .gemini/plugins/theme.json and survives the theme's plugin being disabled,
+ * so the theme comes back when the plugin does.
+ */
+export class ThemeManager {
+  private themeFile: string;
+  private registry: PluginRegistry;
+  private events: PluginEventBus;
+
+  constructor(pluginRoot: string, registry: PluginRegistry, events: PluginEventBus) {
+    this.themeFile = path.join(pluginRoot, 'theme.json');
+    this.registry = registry;
+    this.events = events;
+  }
+
+  getThemes(): ThemeEntry[] {
+    return this.registry.getAllThemes()
+      .map(theme => this.toEntry(theme))
+      .sort((a, b) => a.theme.name.localeCompare(b.theme.name));
+  }
+
+  getTheme(name: string): ThemeEntry | undefined {
+    const theme = this.registry.getTheme(name);
+    return theme ? this.toEntry(theme) : undefined;
+  }
+
+  // The saved theme name, whether or not its plugin is loaded
+  getActiveThemeName(): string | undefined {
+    if (!fs.existsSync(this.themeFile)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.themeFile, 'utf-8')).active || undefined;
+    } catch (error) {
+      console.warn('Failed to load the active theme:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * The active theme, or undefined when none is set or its plugin is not
+   * loaded and the CLI's own colors apply.
+   */
+  getActiveTheme(): PluginTheme | undefined {
+    const name = this.getActiveThemeName();
+    const entry = name ? this.getTheme(name) : undefined;
+    return entry && entry.validation.errors.length === 0 ? entry.theme : undefined;
+  }
+
+  /**
+   * Makes a registered theme the active one and emits theme:changed. Themes
+   * with validation errors are refused; contrast warnings are returned.
+   */
+  async useTheme(name: string): Promise<ThemeEntry | undefined> {
+    const entry = this.getTheme(name);
+    if (!entry && name !== DEFAULT_THEME_NAME) {
+      throw new Error(`Theme ${name} not found`);
+    }
+    if (entry && entry.validation.errors.length > 0) {
+      throw new Error(`Theme ${name} is invalid: ${entry.validation.errors.join('; ')}`);
+    }
+
+    const previous = this.getActiveThemeName();
+    if (entry) {
+      fs.writeFileSync(this.themeFile, JSON.stringify({ active: name }, null, 2));
+    } else {
+      fs.rmSync(this.themeFile, { force: true });
+    }
+
+    await this.events.emit('theme:changed', { theme: name, previous });
+    return entry;
+  }
+
+  private toEntry(theme: PluginTheme): ThemeEntry {
+    return { theme, plugin: this.registry.getOwner('theme', theme.name), validation: validateTheme(theme) };
+  }
+}
+
+/**
+ * Renders a sample of every token on the theme's background, downgraded to
+ * the colors the terminal can show. The theme must be valid.
+ */
+export function renderThemePreview(theme: PluginTheme, depth: ColorDepth): string {
+  const colors = resolveThemeColors(theme);
+  const width = Math.max(...Object.values(PREVIEW_SAMPLES).map(sample => sample.length)) + 17;
+
+  const lines = THEME_TOKENS
+    .filter(info => info.name !== 'background')
+    .map(info => {
+      const label = `${info.name}${theme.colors[info.name] === undefined ? '*' : ''}`.padEnd(12);
+      const line = `  ${label} ${PREVIEW_SAMPLES[info.name]}`.padEnd(width);
+      return colorize(line, depth, colors[info.name], colors.background);
+    });
+
+  const blank = colorize(''.padEnd(width), depth, colors.foreground, colors.background);
+  return [blank, ...lines, blank].join('\n') +
+    `\n\n  Background ${formatColor(colors.background)}; * marks tokens taken from their fallback`;
+}
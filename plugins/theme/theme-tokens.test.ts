@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PluginTheme, ThemeColors } from '../plugin-interface.js';
+import { getContrastRatio, parseColor, resolveThemeColors, validateTheme } from './theme-tokens.js';
+
+// Black on white with colors that meet WCAG AA
+const LIGHT: ThemeColors = {
+  foreground: '#000000',
+  background: '#ffffff',
+  accent: '#0000ee',
+  success: '#008000',
+  warning: '#b35900',
+  error: '#cc0000'
+};
+
+const theme = (colors: Record<string, string>): PluginTheme => ({
+  name: 'light',
+  displayName: 'Light',
+  description: 'A light theme',
+  colors: colors as ThemeColors
+});
+
+describe('parseColor', () => {
+  it.each([
+    ['#fff', { r: 255, g: 255, b: 255 }],
+    ['#1E90ff', { r: 30, g: 144, b: 255 }],
+    [' rgb( 10, 20 ,255) ', { r: 10, g: 20, b: 255 }]
+  ])('parses %s', (value, expected) => {
+    expect(parseColor(value)).toEqual(expected);
+  });
+
+  it.each(['#ffff', 'fff', 'rgb(256, 0, 0)', 'rgb(1, 2)', 'red'])('rejects %s', value => {
+    expect(parseColor(value)).toBeNull();
+  });
+});
+
+describe('getContrastRatio', () => {
+  it('ranges from 1 for equal colors to 21 for black on white', () => {
+    expect(getContrastRatio(parseColor('#000')!, parseColor('#fff')!)).toBe(21);
+    expect(getContrastRatio(parseColor('#fff')!, parseColor('#000')!)).toBe(21);
+    expect(getContrastRatio(parseColor('#1e90ff')!, parseColor('#1e90ff')!)).toBe(1);
+  });
+
+  it('puts the WCAG AA limit between #767676 and #777777 on white', () => {
+    const white = parseColor('#fff')!;
+    expect(getContrastRatio(parseColor('#767676')!, white)).toBeGreaterThan(4.5);
+    expect(getContrastRatio(parseColor('#777777')!, white)).toBeLessThan(4.5);
+  });
+});
+
+describe('validateTheme', () => {
+  it('accepts a readable theme', () => {
+    expect(validateTheme(theme(LIGHT))).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports missing required tokens and unparseable colors', () => {
+    const { foreground, ...withoutForeground } = LIGHT;
+    expect(validateTheme(theme({ ...withoutForeground, accent: 'blue' })).errors).toEqual([
+      'missing required token "foreground"',
+      '"accent" is not a hex or rgb() color: blue'
+    ]);
+  });
+
+  it('warns about unknown tokens', () => {
+    expect(validateTheme(theme({ ...LIGHT, shadow: '#000' }))).toEqual({
+      errors: [],
+      warnings: ['"shadow" is not a theme token and is ignored']
+    });
+  });
+
+  it('warns about text below 4.5:1 and borders below 3:1 against the background', () => {
+    expect(validateTheme(theme({ ...LIGHT, accent: '#777777', muted: '#767676', border: '#959595' })).warnings).toEqual([
+      '"accent" has a contrast ratio of 4.48:1 against the background; WCAG asks for 4.5:1',
+      '"border" has a contrast ratio of 3.00:1 against the background; WCAG asks for 3:1'
+    ]);
+    expect(validateTheme(theme({ ...LIGHT, border: '#949494' })).warnings).toEqual([]);
+  });
+
+  it('does not check a missing optional token again through its fallback', () => {
+    // link falls back to accent, which is reported once
+    expect(validateTheme(theme({ ...LIGHT, accent: '#aaaaaa' })).warnings).toEqual([
+      '"accent" has a contrast ratio of 2.32:1 against the background; WCAG asks for 4.5:1'
+    ]);
+  });
+});
+
+describe('resolveThemeColors', () => {
+  it('fills optional tokens from their fallbacks', () => {
+    const colors = resolveThemeColors(theme({ ...LIGHT, muted: '#555555' }));
+
+    expect(colors.link).toEqual(parseColor(LIGHT.accent));
+    expect(colors['diff-add']).toEqual(parseColor(LIGHT.success));
+    // border falls back to muted, which the theme sets
+    expect(colors.border).toEqual({ r: 85, g: 85, b: 85 });
+  });
+});
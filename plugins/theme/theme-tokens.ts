@@ -0,0 +1,147 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PluginTheme, RequiredThemeToken, ThemeToken } from '../plugin-interface.js';
+
+export interface ThemeTokenInfo {
+  name: ThemeToken;
+  description: string;
+  // Token used when an optional token is not defined
+  fallback?: ThemeToken;
+  // Contrast against the background that WCAG asks for: 4.5:1 for text
+  // (AA), 3:1 for borders and other non-text elements
+  minContrast?: number;
+}
+
+export const THEME_TOKENS: ThemeTokenInfo[] = [
+  { name: 'foreground', description: 'Default text', minContrast: 4.5 },
+  { name: 'background', description: 'Background the theme is designed for' },
+  { name: 'muted', description: 'Secondary text and hints', fallback: 'foreground', minContrast: 4.5 },
+  { name: 'accent', description: 'The prompt and highlights', minContrast: 4.5 },
+  { name: 'info', description: 'Informational messages', fallback: 'accent', minContrast: 4.5 },
+  { name: 'link', description: 'Links and file paths', fallback: 'accent', minContrast: 4.5 },
+  { name: 'code', description: 'Inline code and commands', fallback: 'accent', minContrast: 4.5 },
+  { name: 'success', description: 'Successful results', minContrast: 4.5 },
+  { name: 'warning', description: 'Warnings', minContrast: 4.5 },
+  { name: 'error', description: 'Errors', minContrast: 4.5 },
+  { name: 'diff-add', description: 'Added lines in diffs', fallback: 'success', minContrast: 4.5 },
+  { name: 'diff-remove', description: 'Removed lines in diffs', fallback: 'error', minContrast: 4.5 },
+  { name: 'border', description: 'Borders and separators', fallback: 'muted', minContrast: 3 }
+];
+
+export const REQUIRED_THEME_TOKENS: RequiredThemeToken[] = ['foreground', 'background', 'accent', 'success', 'warning', 'error'];
+
+// #rgb, #rrggbb or rgb(r, g, b) with channels from 0 to 255
+const CHANNEL = '\\s*(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)\\s*';
+export const THEME_COLOR_PATTERN = `^(#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6})|rgb\\(${CHANNEL},${CHANNEL},${CHANNEL}\\))$`;
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface ThemeValidation {
+  // Problems that keep the theme from being used
+  errors: string[];
+  // Unknown tokens and colors that are hard to read
+  warnings: string[];
+}
+
+export function parseColor(value: string): Rgb | null {
+  const match = new RegExp(THEME_COLOR_PATTERN).exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  if (match[2]) {
+    const hex = match[2].length === 3 ? match[2].replace(/./g, digit => digit + digit) : match[2];
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16)
+    };
+  }
+  return { r: Number(match[3]), g: Number(match[4]), b: Number(match[5]) };
+}
+
+export function formatColor({ r, g, b }: Rgb): string {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * WCAG 2 contrast ratio between two colors, from 1 (none) to 21.
+ */
+export function getContrastRatio(first: Rgb, second: Rgb): number {
+  const [lighter, darker] = [getRelativeLuminance(first), getRelativeLuminance(second)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function getRelativeLuminance({ r, g, b }: Rgb): number {
+  const [red, green, blue] = [r, g, b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+/**
+ * Checks a theme's colors: every required token present and every color
+ * parseable. Tokens outside THEME_TOKENS and colors that fall short of
+ * their WCAG contrast against the background are warnings.
+ */
+export function validateTheme(theme: PluginTheme): ThemeValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const colors: Record<string, string> = theme.colors || {};
+
+  for (const token of REQUIRED_THEME_TOKENS) {
+    if (colors[token] === undefined) {
+      errors.push(`missing required token "${token}"`);
+    }
+  }
+
+  for (const [token, value] of Object.entries(colors)) {
+    if (!THEME_TOKENS.some(info => info.name === token)) {
+      warnings.push(`"${token}" is not a theme token and is ignored`);
+    } else if (typeof value !== 'string' || !parseColor(value)) {
+      errors.push(`"${token}" is not a hex or rgb() color: ${value}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors, warnings };
+  }
+
+  const resolved = resolveThemeColors(theme);
+  for (const info of THEME_TOKENS) {
+    // Fallbacks were checked as the token they come from
+    if (!info.minContrast || colors[info.name] === undefined) {
+      continue;
+    }
+    const ratio = getContrastRatio(resolved[info.name], resolved.background);
+    if (ratio < info.minContrast) {
+      warnings.push(`"${info.name}" has a contrast ratio of ${ratio.toFixed(2)}:1 against the background; WCAG asks for ${info.minContrast}:1`);
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Every token's color, with optional tokens the theme leaves out taken from
+ * their fallback. Only valid for themes without validation errors.
+ */
+export function resolveThemeColors(theme: PluginTheme): Record<ThemeToken, Rgb> {
+  const colors: Record<string, string | undefined> = theme.colors;
+  const resolved = {} as Record<ThemeToken, Rgb>;
+  // Fallbacks always point at earlier tokens, so one pass resolves them
+  for (const info of THEME_TOKENS) {
+    const value = colors[info.name];
+    resolved[info.name] = value !== undefined ? parseColor(value)! : resolved[info.fallback!];
+  }
+  return resolved;
+}